@@ -0,0 +1,148 @@
+/**
+ * Calibration runner: scores every transcript in calibration/corpus through
+ * the score-interview route and reports how far the results landed from
+ * their labels. Run with `npm run calibrate`.
+ *
+ * The provider comes from the same environment variables as the app
+ * (SCORING_PROVIDER, SCORING_MODEL, ANTHROPIC_API_KEY, ...). With nothing
+ * configured it falls back to the heuristic provider, so the harness runs
+ * offline.
+ *
+ * Optional environment variables:
+ * - CALIBRATION_PROMPT_VERSION scores every case with this scoring prompt
+ *   version instead of the one configured for the app
+ * - CALIBRATION_UPDATE_BASELINE=1 records this run as the baseline for the
+ *   provider and model, in calibration/baselines/
+ * - CALIBRATION_MAX_MAE fails the run if the mean absolute band error
+ *   exceeds this many ELO points
+ * - CALIBRATION_MAX_DRIFT fails the run if ratings moved further than this
+ *   from the baseline on average
+ */
+import { mkdirSync, readFileSync, readdirSync, writeFileSync, existsSync } from "fs";
+import path from "path";
+
+import { POST } from "@/app/api/score-interview/route";
+import {
+  buildBaseline,
+  evaluateCase,
+  formatCalibrationReport,
+  measureDrift,
+  parseCalibrationCase,
+  summariseCalibration,
+} from "@/lib/calibration";
+import type { CalibrationBaseline, CalibrationOutcome } from "@/lib/calibration";
+import { resolveRubric } from "@/lib/rubrics";
+import { resolveScoringProvider } from "@/lib/scoring-providers";
+import type { BossTier } from "@/lib/types";
+
+const CORPUS_DIR = path.join(__dirname, "corpus");
+const BASELINE_DIR = path.join(__dirname, "baselines");
+
+/** Tier names in rating order, shared by every rubric */
+const TIERS: BossTier[] = resolveRubric("default").tiers.map((t) => t.name);
+
+/** Parses an optional numeric threshold from the environment */
+function threshold(name: string): number | null {
+  const value = Number.parseFloat(process.env[name] ?? "");
+  return Number.isFinite(value) ? value : null;
+}
+
+describe("scoring calibration", () => {
+  it("scores the golden corpus within tolerance", async () => {
+    if (!process.env.SCORING_PROVIDER && !process.env.ANTHROPIC_API_KEY) {
+      process.env.SCORING_PROVIDER = "heuristic";
+    }
+    const resolution = resolveScoringProvider();
+    if (!resolution.ok) throw new Error(resolution.error);
+    const { name: provider, model } = resolution.provider;
+    const promptVersion = process.env.CALIBRATION_PROMPT_VERSION || undefined;
+
+    const files = readdirSync(CORPUS_DIR)
+      .filter((f) => f.endsWith(".json"))
+      .sort();
+    const cases = files.map((file) => {
+      const raw: unknown = JSON.parse(readFileSync(path.join(CORPUS_DIR, file), "utf-8"));
+      const rubricId = (raw as { rubric?: unknown }).rubric;
+      return parseCalibrationCase(
+        raw,
+        file,
+        resolveRubric(typeof rubricId === "string" ? rubricId : null),
+      );
+    });
+
+    // Cases run one at a time: model providers rate-limit, and the output
+    // is easier to follow in corpus order
+    const outcomes: CalibrationOutcome[] = [];
+    for (const [i, testCase] of cases.entries()) {
+      const request = new Request("http://localhost:3000/api/score-interview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // One address per case keeps the route's rate limiter out of the way
+          "x-forwarded-for": `calibration-${i}`,
+        },
+        body: JSON.stringify({
+          transcript: testCase.transcript,
+          cvText: testCase.cvText,
+          jdText: testCase.jdText,
+          rubric: testCase.rubric,
+          promptVersion,
+        }),
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const body = await response.json();
+      const rubric = resolveRubric(testCase.rubric);
+      outcomes.push(
+        response.ok
+          ? evaluateCase(testCase, rubric, body)
+          : evaluateCase(testCase, rubric, null, body.error ?? `HTTP ${response.status}`),
+      );
+    }
+
+    const baselineFile = path.join(
+      BASELINE_DIR,
+      `${provider}-${model}.json`.replace(/[^\w.-]+/g, "_"),
+    );
+    const baseline: CalibrationBaseline | null = existsSync(baselineFile)
+      ? JSON.parse(readFileSync(baselineFile, "utf-8"))
+      : null;
+
+    // Without a pinned version a configured A/B split can mix versions in one run
+    const promptVersions = [
+      ...new Set(outcomes.flatMap((o) => (o.results ? [o.results.promptVersion] : []))),
+    ];
+
+    const summary = summariseCalibration(outcomes, TIERS);
+    const drift = baseline ? measureDrift(outcomes, baseline) : null;
+
+    console.log(
+      `\nCalibration: ${provider} (${model}), prompt ${promptVersions.join(" + ") || "n/a"}, ` +
+        `${cases.length} cases\n\n` +
+        formatCalibrationReport(outcomes, summary, TIERS, drift) +
+        "\n",
+    );
+
+    if (process.env.CALIBRATION_UPDATE_BASELINE === "1") {
+      mkdirSync(BASELINE_DIR, { recursive: true });
+      writeFileSync(
+        baselineFile,
+        `${JSON.stringify(buildBaseline(outcomes, provider, model, promptVersions.join("+")), null, 2)}\n`,
+      );
+      console.log(`Baseline written to ${path.relative(process.cwd(), baselineFile)}`);
+    }
+
+    expect(summary.failed).toBe(0);
+
+    const maxMae = threshold("CALIBRATION_MAX_MAE");
+    if (maxMae !== null) {
+      expect(summary.meanAbsoluteError).toBeLessThanOrEqual(maxMae);
+    }
+
+    const maxDrift = threshold("CALIBRATION_MAX_DRIFT");
+    if (maxDrift !== null && drift) {
+      expect(drift.meanAbsolute).toBeLessThanOrEqual(maxDrift);
+    }
+  });
+});
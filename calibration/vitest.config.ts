@@ -0,0 +1,28 @@
+/// <reference types="vitest/config" />
+import { defineConfig } from 'vitest/config';
+import { existsSync } from 'fs';
+import path from 'path';
+
+/**
+ * Vitest configuration for the calibration runner (npm run calibrate).
+ * Kept separate from the unit test configuration: it runs in Node rather
+ * than jsdom so provider SDKs behave as they do on the server, reads
+ * .env.local so a configured model can be used, and allows for slow
+ * model calls. Variables already set in the shell take precedence.
+ */
+const envFile = path.resolve(__dirname, '../.env.local');
+if (existsSync(envFile)) process.loadEnvFile(envFile);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '../src'),
+    },
+  },
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['calibration/**/*.test.ts'],
+    testTimeout: 30 * 60 * 1000,
+  },
+});
@@ -1,6 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // The agent is private: the browser learns whether one is configured, never its ID
+  env: {
+    NEXT_PUBLIC_DEMO_MODE: process.env.ELEVENLABS_AGENT_ID?.trim() ? "" : "1",
+  },
   serverExternalPackages: ["pdf-parse"],
   turbopack: {
     resolveAlias: {
@@ -1,11 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createHmac } from "crypto";
 
-/** Compute HMAC-SHA256 of the site password using the session secret as key. */
-function computeAuthToken(password: string): string {
-  const key = process.env.SESSION_SECRET ?? password;
-  return createHmac("sha256", key).update(password).digest("hex");
-}
+import { SITE_AUTH_COOKIE_NAME, computeAuthToken } from "@/lib/site-auth";
 
 export async function POST(req: NextRequest) {
   try {
@@ -22,7 +17,7 @@ export async function POST(req: NextRequest) {
     const token = computeAuthToken(sitePassword);
 
     const res = NextResponse.json({ ok: true });
-    res.cookies.set("site-auth", token, {
+    res.cookies.set(SITE_AUTH_COOKIE_NAME, token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
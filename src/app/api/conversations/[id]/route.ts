@@ -1,7 +1,13 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
-import type { TranscriptEntry } from "@/lib/types";
+import {
+  CONVERSATION_ID_PATTERN,
+  type ConversationTranscript,
+  fetchConversationTranscript,
+} from "@/lib/conversations";
+import { SESSION_COOKIE_NAME, ownsConversation, verifySessionCookie } from "@/lib/sessions";
+import { waitForTranscript } from "@/lib/transcript-store";
 
 // ─── Inline Rate Limiter ────────────────────────────────────────────────────
 
@@ -44,13 +50,49 @@ function rateLimit(
   return { success: true, remaining: maxRequests - valid.length };
 }
 
-// ─── Constants ──────────────────────────────────────────────────────────────
-
-/** Conversation ID must be 10-50 alphanumeric characters, hyphens, or underscores. */
-const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9_-]{10,50}$/;
+// ─── Long Polling ───────────────────────────────────────────────────────────
+
+/** Longest a request may wait for the transcript, kept under typical proxy timeouts */
+const MAX_WAIT_SECONDS = 25;
+
+/** How often ElevenLabs is re-checked while waiting when no webhook is configured */
+const RECHECK_INTERVAL_MS = 3000;
+
+/**
+ * Waits up to `waitMs` for a conversation that is still processing. The
+ * wait ends the moment the post-call webhook delivers the transcript.
+ * Without ELEVENLABS_WEBHOOK_SECRET nothing will be delivered, so the
+ * conversation is re-fetched from ElevenLabs every few seconds instead.
+ */
+async function waitForConversation(
+  id: string,
+  waitMs: number,
+  signal: AbortSignal,
+): Promise<ConversationTranscript> {
+  const interval = process.env.ELEVENLABS_WEBHOOK_SECRET ? waitMs : RECHECK_INTERVAL_MS;
+  const deadline = Date.now() + waitMs;
+
+  let conversation: ConversationTranscript = { status: "processing" };
+  while (conversation.status === "processing" && !signal.aborted) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    // A delivered transcript is then served from the store, with its metadata
+    await waitForTranscript(id, Math.min(interval, remaining), signal);
+    conversation = await fetchConversationTranscript(id);
+  }
+  return conversation;
+}
 
 // ─── Route Handler ──────────────────────────────────────────────────────────
 
+/**
+ * Returns a conversation's transcript and metadata to the session that
+ * claimed it, or 202 while ElevenLabs is still processing the call. With
+ * `?wait=<seconds>` (at most 25) a processing conversation holds the
+ * request open until the transcript arrives or the wait runs out, so the
+ * browser needs no polling schedule of its own.
+ */
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -76,66 +118,67 @@ export async function GET(
       );
     }
 
-    // 3. Check required environment variable
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    if (!apiKey) {
-      console.error("[conversations] ELEVENLABS_API_KEY is not configured");
-      return NextResponse.json(
-        { error: "Service configuration error" },
-        { status: 500 },
-      );
-    }
-
-    // 4. Fetch conversation from ElevenLabs REST API
-    const res = await fetch(
-      `https://api.elevenlabs.io/v1/convai/conversations/${id}`,
-      {
-        headers: {
-          "xi-api-key": apiKey,
-        },
-      },
-    );
-
-    if (res.status === 404) {
+    // 3. Only the session that claimed the conversation may read it. Any
+    //    other caller gets the same answer as for a conversation that does
+    //    not exist, so IDs cannot be probed.
+    const sessionId = verifySessionCookie(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+    if (!ownsConversation(id, sessionId)) {
       return NextResponse.json(
         { error: "Conversation not found" },
         { status: 404 },
       );
     }
 
-    if (!res.ok) {
-      console.error(
-        `[conversations] ElevenLabs API error: status=${res.status}, id=${id}`,
-      );
+    // 4. Validate the optional long-poll wait
+    const waitParam = req.nextUrl.searchParams.get("wait");
+    const waitSeconds = waitParam === null ? 0 : Number(waitParam);
+    if (!Number.isFinite(waitSeconds) || waitSeconds < 0 || waitSeconds > MAX_WAIT_SECONDS) {
       return NextResponse.json(
-        { error: "Failed to fetch transcript" },
-        { status: 500 },
+        { error: `wait must be between 0 and ${MAX_WAIT_SECONDS} seconds` },
+        { status: 400 },
       );
     }
 
-    const data = await res.json();
-
-    // 5. Map transcript when conversation is complete; otherwise signal not ready
-    if (data.status === "done" || data.status === "finished") {
-      const transcript: TranscriptEntry[] = (data.transcript || []).map(
-        (entry: { role: string; message: string; time_in_call_secs?: number }) => ({
-          role: entry.role === "agent" ? "agent" : "user",
-          message: entry.message,
-          timestamp: entry.time_in_call_secs,
-        }),
-      );
-
-      return NextResponse.json(
-        { ready: true, transcript },
-        { status: 200 },
-      );
+    // 5. Fetch the conversation, waiting for it if asked to
+    let conversation = await fetchConversationTranscript(id);
+    if (conversation.status === "processing" && waitSeconds > 0) {
+      conversation = await waitForConversation(id, waitSeconds * 1000, req.signal);
     }
 
-    // Conversation not yet ready -- client should retry with backoff
-    return NextResponse.json(
-      { ready: false },
-      { status: 202 },
-    );
+    switch (conversation.status) {
+      case "unconfigured":
+        console.error("[conversations] ELEVENLABS_API_KEY is not configured");
+        return NextResponse.json(
+          { error: "Service configuration error" },
+          { status: 500 },
+        );
+
+      case "not-found":
+        return NextResponse.json(
+          { error: "Conversation not found" },
+          { status: 404 },
+        );
+
+      case "failed":
+        console.error(`[conversations] ${conversation.detail}, id=${id}`);
+        return NextResponse.json(
+          { error: "Failed to fetch transcript" },
+          { status: 500 },
+        );
+
+      // Conversation not yet ready -- client should ask again
+      case "processing":
+        return NextResponse.json(
+          { ready: false },
+          { status: 202 },
+        );
+
+      case "ready":
+        return NextResponse.json(
+          { ready: true, transcript: conversation.transcript, metadata: conversation.metadata },
+          { status: 200 },
+        );
+    }
   } catch (err) {
     console.error("[conversations] Unexpected error:", err);
     return NextResponse.json(
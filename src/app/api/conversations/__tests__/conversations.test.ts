@@ -0,0 +1,417 @@
+/**
+ * Unit tests for the conversation ownership routes:
+ * - POST /api/conversations, which claims a conversation the caller's
+ *   interview session started
+ * - GET /api/conversations/[id], which only serves a transcript to the
+ *   session that claimed it, and can long-poll until the post-call webhook
+ *   delivers it
+ *
+ * Mocking strategy:
+ * - The ElevenLabs REST API is stubbed by spying on globalThis.fetch.
+ * - Session cookies are real: they are minted with createSession() and
+ *   carried on a NextRequest so the routes read them via req.cookies.
+ * - Ownership lives in a module-level Map that persists across tests, so
+ *   each test claims its own conversation ID.
+ * - The routes have inline rate limiting with a module-level Map. We use
+ *   unique IPs per request to avoid cross-test interference.
+ */
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/conversations/route";
+import { GET } from "@/app/api/conversations/[id]/route";
+import {
+  claimConversation,
+  claimedConversationSetup,
+  conversationNonce,
+  createSession,
+  SESSION_COOKIE_NAME,
+} from "@/lib/sessions";
+import { storeTranscript } from "@/lib/transcript-store";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+let ipCounter = 0;
+function nextIp(): string {
+  ipCounter++;
+  return `10.2.${(ipCounter >> 8) & 0xff}.${ipCounter & 0xff}`;
+}
+
+let conversationCounter = 0;
+/** A fresh, unclaimed conversation ID */
+function nextConversationId(): string {
+  conversationCounter++;
+  return `conv_${String(conversationCounter).padStart(16, "0")}`;
+}
+
+/** Headers for a request carrying the given session cookie (or none) */
+function sessionHeaders(cookie: string | null): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-forwarded-for": nextIp(),
+    ...(cookie !== null && { Cookie: `${SESSION_COOKIE_NAME}=${cookie}` }),
+  };
+}
+
+function createClaimRequest(conversationId: unknown, cookie: string | null): NextRequest {
+  return new NextRequest("http://localhost:3000/api/conversations", {
+    method: "POST",
+    headers: sessionHeaders(cookie),
+    body: JSON.stringify({ conversationId }),
+  });
+}
+
+function getConversation(id: string, cookie: string | null, query = "") {
+  const request = new NextRequest(`http://localhost:3000/api/conversations/${id}${query}`, {
+    headers: sessionHeaders(cookie),
+  });
+  return GET(request, { params: Promise.resolve({ id }) });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("POST /api/conversations", () => {
+  beforeEach(() => {
+    process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /** Stubs ElevenLabs' record of a conversation started with the given nonce and dynamic variables */
+  function mockOrigin(
+    sessionNonce: string | null,
+    startedAt = Date.now(),
+    variables: Record<string, string> = {},
+  ) {
+    return vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            status: "in-progress",
+            metadata: { start_time_unix_secs: Math.floor(startedAt / 1000) },
+            conversation_initiation_client_data: {
+              dynamic_variables: {
+                ...variables,
+                ...(sessionNonce !== null && { session_nonce: sessionNonce }),
+              },
+            },
+          }),
+        ),
+    );
+  }
+
+  it("should claim a conversation the session started, then accept the same claim again", async () => {
+    // Arrange
+    const session = createSession();
+    const id = nextConversationId();
+    const fetchSpy = mockOrigin(conversationNonce(session.sessionId));
+
+    // Act
+    const first = await POST(createClaimRequest(id, session.cookie));
+    const second = await POST(createClaimRequest(id, session.cookie));
+
+    // Assert
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy).toHaveBeenCalledWith(
+      `https://api.elevenlabs.io/v1/convai/conversations/${id}`,
+      { headers: { "xi-api-key": "test-elevenlabs-key" } },
+    );
+  });
+
+  it.each([
+    [
+      "the difficulty and persona it was started with",
+      { difficulty: "warm-up", persona: "panel-chair" },
+      { difficulty: "warm-up", persona: "panel-chair" },
+    ],
+    [
+      "the full boss when nothing was recorded",
+      {},
+      { difficulty: "carrington", persona: "carrington" },
+    ],
+    [
+      "the full boss for an unknown difficulty and persona",
+      { difficulty: "trivial", persona: "gordon" },
+      { difficulty: "carrington", persona: "carrington" },
+    ],
+  ])("should hold the claimed conversation to %s", async (_label, variables, expected) => {
+    // Arrange
+    const session = createSession();
+    const id = nextConversationId();
+    mockOrigin(conversationNonce(session.sessionId), Date.now(), variables);
+
+    // Act
+    const response = await POST(createClaimRequest(id, session.cookie));
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(claimedConversationSetup(id)).toEqual(expected);
+  });
+
+  it.each([
+    ["another session's nonce", () => conversationNonce(createSession().sessionId)],
+    ["no nonce", () => null],
+  ])("should return 403 for an unclaimed conversation started with %s", async (_label, nonce) => {
+    // Arrange
+    const session = createSession();
+    const id = nextConversationId();
+    mockOrigin(nonce());
+
+    // Act
+    const response = await POST(createClaimRequest(id, session.cookie));
+    const read = await getConversation(id, session.cookie);
+
+    // Assert
+    expect(response.status).toBe(403);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Conversation was not started by this session" });
+    expect(read.status).toBe(404);
+  });
+
+  it("should return 403 for a conversation the session started too long ago", async () => {
+    // Arrange
+    const session = createSession();
+    mockOrigin(conversationNonce(session.sessionId), Date.now() - 60 * 60 * 1000);
+
+    // Act
+    const response = await POST(createClaimRequest(nextConversationId(), session.cookie));
+
+    // Assert
+    expect(response.status).toBe(403);
+  });
+
+  it("should return 404 when ElevenLabs has no such conversation", async () => {
+    // Arrange
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response("{}", { status: 404 }));
+
+    // Act
+    const response = await POST(createClaimRequest(nextConversationId(), createSession().cookie));
+
+    // Assert
+    expect(response.status).toBe(404);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Conversation not found" });
+  });
+
+  it("should return 409 without calling ElevenLabs when another session already claimed the conversation", async () => {
+    // Arrange
+    const id = nextConversationId();
+    claimConversation(id, createSession().sessionId);
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    // Act
+    const response = await POST(createClaimRequest(id, createSession().cookie));
+
+    // Assert
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Conversation belongs to another session" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["no session cookie", null],
+    ["a forged session cookie", `${crypto.randomUUID()}.${"0".repeat(64)}`],
+  ])("should return 401 with %s", async (_label, cookie) => {
+    // Act
+    const response = await POST(createClaimRequest(nextConversationId(), cookie));
+
+    // Assert
+    expect(response.status).toBe(401);
+    const body = await response.json();
+    expect(body).toEqual({ error: "No interview session. Please start the interview again." });
+  });
+
+  it("should return 400 for a malformed conversation ID", async () => {
+    // Act
+    const response = await POST(createClaimRequest("../../admin", createSession().cookie));
+
+    // Assert
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Invalid conversation ID format" });
+  });
+});
+
+describe("GET /api/conversations/[id]", () => {
+  beforeEach(() => {
+    process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.ELEVENLABS_WEBHOOK_SECRET;
+  });
+
+  /** Claims a fresh conversation for a fresh session */
+  function claimed() {
+    const session = createSession();
+    const id = nextConversationId();
+    claimConversation(id, session.sessionId);
+    return { id, cookie: session.cookie };
+  }
+
+  /** Stubs the ElevenLabs REST API as still processing the call */
+  function mockProcessing() {
+    return vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => new Response(JSON.stringify({ status: "processing" })));
+  }
+
+  it("should serve the transcript to the session that claimed the conversation", async () => {
+    // Arrange
+    const session = createSession();
+    const id = nextConversationId();
+    claimConversation(id, session.sessionId);
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          status: "done",
+          transcript: [{ role: "agent", message: "Sit down.", time_in_call_secs: 0 }],
+        }),
+      ),
+    );
+
+    // Act
+    const response = await getConversation(id, session.cookie);
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.transcript).toEqual([{ role: "agent", message: "Sit down.", timestamp: 0 }]);
+  });
+
+  it("should return what ElevenLabs recorded about the call with the transcript", async () => {
+    // Arrange
+    const { id, cookie } = claimed();
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          status: "done",
+          transcript: [{ role: "agent", message: "We are done here.", time_in_call_secs: 0 }],
+          metadata: {
+            start_time_unix_secs: 1_760_000_000,
+            call_duration_secs: 372,
+            termination_reason: "end_call tool was called.",
+          },
+        }),
+      ),
+    );
+
+    // Act
+    const response = await getConversation(id, cookie);
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.metadata).toEqual({
+      startedAt: "2025-10-09T08:53:20.000Z",
+      durationSeconds: 372,
+      terminationReason: "end_call tool was called.",
+    });
+  });
+
+  it.each([
+    ["no session cookie", null],
+    ["another session", createSession().cookie],
+  ])("should return 404 without calling ElevenLabs for %s", async (_label, cookie) => {
+    // Arrange
+    const id = nextConversationId();
+    claimConversation(id, createSession().sessionId);
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    // Act
+    const response = await getConversation(id, cookie);
+
+    // Assert
+    expect(response.status).toBe(404);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Conversation not found" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should serve a transcript delivered by the webhook without calling ElevenLabs", async () => {
+    // Arrange
+    const { id, cookie } = claimed();
+    storeTranscript(id, [{ role: "user", message: "Morning.", timestamp: 1 }]);
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    // Act
+    const response = await getConversation(id, cookie);
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.transcript).toEqual([{ role: "user", message: "Morning.", timestamp: 1 }]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("should return 202 at once while processing when the request does not wait", async () => {
+    // Arrange
+    const { id, cookie } = claimed();
+    mockProcessing();
+
+    // Act
+    const response = await getConversation(id, cookie);
+
+    // Assert
+    expect(response.status).toBe(202);
+    const body = await response.json();
+    expect(body).toEqual({ ready: false });
+  });
+
+  it("should hold a waiting request open until the webhook delivers the transcript", async () => {
+    // Arrange
+    process.env.ELEVENLABS_WEBHOOK_SECRET = "test-webhook-secret";
+    const { id, cookie } = claimed();
+    const fetchSpy = mockProcessing();
+
+    // Act
+    const pending = getConversation(id, cookie, "?wait=20");
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(1));
+    storeTranscript(id, [{ role: "agent", message: "Sit down.", timestamp: 0 }]);
+    const response = await pending;
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.transcript).toEqual([{ role: "agent", message: "Sit down.", timestamp: 0 }]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-check ElevenLabs while waiting when no webhook is configured", async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const { id, cookie } = claimed();
+    const fetchSpy = mockProcessing();
+
+    try {
+      // Act
+      const pending = getConversation(id, cookie, "?wait=5");
+      await vi.advanceTimersByTimeAsync(5_000);
+      const response = await pending;
+
+      // Assert
+      expect(response.status).toBe(202);
+      // Once up front, after the first 3s interval, and at the deadline
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it.each(["-1", "26", "soon"])("should return 400 for wait=%s", async (wait) => {
+    // Arrange
+    const { id, cookie } = claimed();
+
+    // Act
+    const response = await getConversation(id, cookie, `?wait=${wait}`);
+
+    // Assert
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body).toEqual({ error: "wait must be between 0 and 25 seconds" });
+  });
+});
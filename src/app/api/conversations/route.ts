@@ -0,0 +1,160 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { CONVERSATION_ID_PATTERN, fetchConversationOrigin } from "@/lib/conversations";
+import { DEFAULT_DIFFICULTY, isInterviewDifficulty } from "@/lib/difficulty";
+import { DEFAULT_PERSONA, getPersona } from "@/lib/personas";
+import {
+  SESSION_COOKIE_NAME,
+  claimConversation,
+  isConversationClaimed,
+  ownsConversation,
+  startedBySession,
+  verifySessionCookie,
+} from "@/lib/sessions";
+
+// ─── Inline Rate Limiter ────────────────────────────────────────────────────
+
+const rateLimitStore = new Map<string, number[]>();
+let rateLimitCallCount = 0;
+
+function rateLimit(
+  identifier: string,
+  maxRequests: number,
+  windowMs: number,
+  namespace: string,
+): { success: boolean; remaining: number } {
+  const key = `${namespace}:${identifier}`;
+  const now = Date.now();
+  const timestamps = rateLimitStore.get(key) ?? [];
+
+  // Remove expired entries
+  const valid = timestamps.filter((t) => now - t < windowMs);
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  rateLimitCallCount++;
+  if (rateLimitCallCount % 100 === 0) {
+    for (const [k, v] of rateLimitStore) {
+      const filtered = v.filter((t) => now - t < windowMs);
+      if (filtered.length === 0) {
+        rateLimitStore.delete(k);
+      } else {
+        rateLimitStore.set(k, filtered);
+      }
+    }
+  }
+
+  if (valid.length >= maxRequests) {
+    rateLimitStore.set(key, valid);
+    return { success: false, remaining: 0 };
+  }
+
+  valid.push(now);
+  rateLimitStore.set(key, valid);
+  return { success: true, remaining: maxRequests - valid.length };
+}
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+function refuseTakenConversation(conversationId: string) {
+  console.warn(`[conversations] Refused claim on a conversation owned by another session, id=${conversationId}`);
+  return NextResponse.json(
+    { error: "Conversation belongs to another session" },
+    { status: 409 },
+  );
+}
+
+/**
+ * Claims a conversation for the caller's interview session. The browser
+ * calls this as soon as ElevenLabs assigns the conversation ID; from then
+ * on only this session can read the transcript or score it by ID. The
+ * conversation must have been started recently with this session's nonce.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Rate limit
+    const ip = req.headers.get("x-forwarded-for") ?? "unknown";
+    const { success } = rateLimit(ip, 30, 60_000, "claim-conversation");
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please wait a moment and try again." },
+        { status: 429 },
+      );
+    }
+
+    // 2. Require a session
+    const sessionId = verifySessionCookie(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "No interview session. Please start the interview again." },
+        { status: 401 },
+      );
+    }
+
+    // 3. Validate the conversation ID
+    const { conversationId } = await req.json();
+    if (typeof conversationId !== "string" || !CONVERSATION_ID_PATTERN.test(conversationId)) {
+      return NextResponse.json(
+        { error: "Invalid conversation ID format" },
+        { status: 400 },
+      );
+    }
+
+    // 4. Claiming it again is a no-op; a claim by another session stands
+    if (ownsConversation(conversationId, sessionId)) {
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+    if (isConversationClaimed(conversationId)) {
+      return refuseTakenConversation(conversationId);
+    }
+
+    // 5. Check that this session started the conversation
+    const origin = await fetchConversationOrigin(conversationId);
+    if (origin.status === "unconfigured") {
+      console.error("[conversations] ELEVENLABS_API_KEY is not configured");
+      return NextResponse.json(
+        { error: "Service configuration error" },
+        { status: 500 },
+      );
+    }
+    if (origin.status === "failed") {
+      console.error(`[conversations] ${origin.detail}`);
+      return NextResponse.json(
+        { error: "Failed to register the conversation" },
+        { status: 502 },
+      );
+    }
+    if (origin.status === "not-found") {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 },
+      );
+    }
+    if (!startedBySession(sessionId, origin)) {
+      console.warn(`[conversations] Refused claim on a conversation this session did not start, id=${conversationId}`);
+      return NextResponse.json(
+        { error: "Conversation was not started by this session" },
+        { status: 403 },
+      );
+    }
+
+    // 6. Bind it and how it was set up to the session -- the first claim wins.
+    // A missing or unknown difficulty is held to the full boss, and a
+    // missing or unknown persona is the default interviewer.
+    const difficulty = isInterviewDifficulty(origin.difficulty) ? origin.difficulty : DEFAULT_DIFFICULTY;
+    const persona = (origin.persona !== null && getPersona(origin.persona)) || DEFAULT_PERSONA;
+    const outcome = claimConversation(conversationId, sessionId, { difficulty, persona: persona.id });
+    if (outcome === "taken") return refuseTakenConversation(conversationId);
+
+    return NextResponse.json(
+      { ok: true },
+      { status: outcome === "claimed" ? 201 : 200 },
+    );
+  } catch (err) {
+    console.error("[conversations] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Failed to register the conversation" },
+      { status: 500 },
+    );
+  }
+}
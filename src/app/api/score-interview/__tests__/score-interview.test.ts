@@ -8,7 +8,7 @@
  * validation, and error handling.
  *
  * KEY DIFFERENCES FROM INTERVIEW-ELO:
- * - No jdText field in any request body or validation test
+ * - jdText is optional; when present it adds the roleFit dimension
  * - verdict ("HIRED" | "NOT HIRED") validation and self-healing
  * - bossSummary (non-empty string) validation
  * - Boss-themed tier names (Wasting My Time, Shows a Pulse, Adequate,
@@ -26,6 +26,9 @@
  *   exhaust the limit deliberately.
  */
 import { POST } from "@/app/api/score-interview/route";
+import { parseTranscriptText } from "@/lib/transcript";
+import { claimConversation, createSession, SESSION_COOKIE_NAME } from "@/lib/sessions";
+import { NextRequest } from "next/server";
 
 // ─── Module-level mocks ─────────────────────────────────────────────────────
 
@@ -125,6 +128,58 @@ function mockClaudeRawResponse(text: string): void {
   });
 }
 
+/**
+ * Configures the mock Anthropic SDK to return the response as the input of
+ * a submit_assessment tool call, the way the model is asked to answer.
+ */
+function mockClaudeToolResponse(response: Record<string, unknown>): void {
+  mockCreate.mockResolvedValueOnce({
+    content: [
+      { type: "tool_use", id: "toolu_01", name: "submit_assessment", input: response },
+    ],
+  });
+}
+
+/**
+ * Configures the mock Anthropic SDK to return a streamed response. The JSON
+ * text is split into fixed-size chunks and yielded as text_delta events, so
+ * entries arrive across several deltas the way a real stream delivers them.
+ */
+function mockClaudeStreamResponse(text: string, chunkSize = 40): void {
+  const events: Record<string, unknown>[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    events.push({
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: text.slice(i, i + chunkSize) },
+    });
+  }
+  mockCreate.mockResolvedValueOnce({
+    async *[Symbol.asyncIterator]() {
+      yield* events;
+    },
+  });
+}
+
+/**
+ * Reads a server-sent event response body and returns the parsed events
+ * in the order they were emitted.
+ */
+async function readStreamEvents(
+  response: Response,
+): Promise<{ event: string; data: Record<string, unknown> }[]> {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((frame) => frame.trim().length > 0)
+    .map((frame) => {
+      const lines = frame.split("\n");
+      const event = lines.find((l) => l.startsWith("event:"))!.slice(6).trim();
+      const data = lines.find((l) => l.startsWith("data:"))!.slice(5).trim();
+      return { event, data: JSON.parse(data) };
+    });
+}
+
 /**
  * Auto-incrementing counter for generating unique IPs per test.
  * The inline rate limiter uses a module-level Map keyed by `${namespace}:${ip}`,
@@ -162,15 +217,29 @@ function createRequest(
 }
 
 /**
- * Standard valid request body with all fields.
- * NOTE: No jdText -- this project does not use job descriptions.
+ * Transcript containing every question and quote in buildValidScoringResponse,
+ * so the fixture moments survive quote verification.
+ */
+const VALID_TRANSCRIPT = [
+  "Interviewer: Tell me about your experience.",
+  "Candidate: I have been working with TypeScript for 6 years.",
+  "Interviewer: [curious] Interesting. Can you tell me about a technical challenge you led?",
+  "Candidate: Sure. I led the migration from monolith to microservices. It took about a year.",
+  "Interviewer: What technologies did you use on the backend?",
+  "Candidate: We used React for the backend.",
+  "Interviewer: How did you measure the success of that project?",
+  "Candidate: We measured success by tracking deployment frequency and lead time.",
+].join("\n");
+
+/**
+ * Standard valid request body with all required fields.
+ * NOTE: No jdText -- the job description is optional (see "job description").
  */
 function validRequestBody(
   overrides: Record<string, unknown> = {},
 ): Record<string, unknown> {
   return {
-    transcript:
-      "Interviewer: Tell me about your experience.\nCandidate: I have been working with TypeScript for 6 years.",
+    transcript: VALID_TRANSCRIPT,
     cvText:
       "John Doe - Software Engineer with 6 years of experience in TypeScript, React, and Node.js.",
     ...overrides,
@@ -190,6 +259,7 @@ describe("POST /api/score-interview", () => {
     // Suppress console output in tests
     vi.spyOn(console, "error").mockImplementation(() => {});
     vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "info").mockImplementation(() => {});
   });
 
   afterAll(() => {
@@ -254,7 +324,7 @@ describe("POST /api/score-interview", () => {
     });
 
     it("should succeed when request has transcript but no jdText (jdText is not required)", async () => {
-      // Arrange -- this project does NOT use jdText
+      // Arrange -- jdText is optional
       mockClaudeResponse(buildValidScoringResponse());
       const request = createRequest({
         transcript:
@@ -765,7 +835,10 @@ describe("POST /api/score-interview", () => {
       mockClaudeResponse(
         buildValidScoringResponse({ moments: allTypeMoments }),
       );
-      const request = createRequest(validRequestBody());
+      const transcript = allTypeMoments
+        .map((m) => `Interviewer: ${m.question}\nCandidate: ${m.quote}`)
+        .join("\n");
+      const request = createRequest(validRequestBody({ transcript }));
 
       // Act
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1557,6 +1630,2181 @@ describe("POST /api/score-interview", () => {
     });
   });
 
+  // ── Structured Output and Repair ──────────────────────────────────────────
+
+  describe("structured output and repair", () => {
+    /** Valid response with the questionsAsked dimension missing */
+    function responseMissingDimension(): Record<string, unknown> {
+      const valid = buildValidScoringResponse();
+      return {
+        ...valid,
+        dimensions: (valid.dimensions as { name: string }[]).filter(
+          (d) => d.name !== "questionsAsked",
+        ),
+      };
+    }
+
+    it("should force a call to the submit_assessment tool with the ScoringResults schema", async () => {
+      // Arrange
+      mockClaudeToolResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await POST(request as any);
+
+      // Assert
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.tool_choice).toEqual({ type: "tool", name: "submit_assessment" });
+      expect(params.tools).toHaveLength(1);
+      const schema = params.tools[0].input_schema;
+      expect(schema.required).toEqual([
+        "eloRating",
+        "tier",
+        "verdict",
+        "bossSummary",
+        "dimensions",
+        "moments",
+        "isPartial",
+      ]);
+      expect(schema.properties.dimensions.items.properties.name.enum).toEqual([
+        ...ALL_DIMENSION_NAMES,
+      ]);
+    });
+
+    it("should score from the tool call input", async () => {
+      // Arrange
+      mockClaudeToolResponse(buildValidScoringResponse({ eloRating: 1650 }));
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.eloRating).toBe(1650);
+      expect(body.tier).toBe("Noteworthy");
+      expect(body.dimensions).toHaveLength(5);
+    });
+
+    it("should send the validator message back and return the repaired response", async () => {
+      // Arrange
+      mockClaudeToolResponse(responseMissingDimension());
+      mockClaudeToolResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      const messages = mockCreate.mock.calls[1][0].messages;
+      expect(messages).toHaveLength(3);
+      expect(messages[1].role).toBe("assistant");
+      expect(messages[1].content[0]).toMatchObject({
+        type: "tool_use",
+        name: "submit_assessment",
+        input: { eloRating: 1250 },
+      });
+      expect(messages[2].content[0]).toMatchObject({
+        type: "tool_result",
+        tool_use_id: messages[1].content[0].id,
+        is_error: true,
+      });
+      expect(messages[2].content[0].content).toContain("Missing dimensions: questionsAsked");
+    });
+
+    it("should replay unparseable text responses as plain turns", async () => {
+      // Arrange
+      mockClaudeRawResponse("I refuse to score this.");
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const messages = mockCreate.mock.calls[1][0].messages;
+      expect(messages[1]).toEqual({ role: "assistant", content: "I refuse to score this." });
+      expect(messages[2].content).toContain("The response did not contain a JSON object");
+    });
+
+    it("should give up with a 500 after two failed repairs", async () => {
+      // Arrange
+      mockClaudeToolResponse(responseMissingDimension());
+      mockClaudeToolResponse(responseMissingDimension());
+      mockClaudeToolResponse(buildValidScoringResponse({ bossSummary: "" }));
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Failed to score the interview" });
+      // The final repair replays both earlier rejections
+      expect(mockCreate.mock.calls[2][0].messages).toHaveLength(5);
+    });
+
+    it("should repair a streamed response that fails validation before the result event", async () => {
+      // Arrange
+      mockClaudeStreamResponse(JSON.stringify(responseMissingDimension()));
+      mockClaudeToolResponse(buildValidScoringResponse({ eloRating: 1900 }));
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      const last = events[events.length - 1];
+      expect(last.event).toBe("result");
+      expect(last.data.eloRating).toBe(1900);
+      expect(last.data.dimensions).toHaveLength(5);
+    });
+
+    it("should stream tool input deltas", async () => {
+      // Arrange
+      const text = JSON.stringify(buildValidScoringResponse());
+      const chunks: Record<string, unknown>[] = [];
+      for (let i = 0; i < text.length; i += 50) {
+        chunks.push({
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "input_json_delta", partial_json: text.slice(i, i + 50) },
+        });
+      }
+      mockCreate.mockResolvedValueOnce({
+        async *[Symbol.asyncIterator]() {
+          yield* chunks;
+        },
+      });
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events.filter((e) => e.event === "dimension")).toHaveLength(5);
+      expect(events[events.length - 1].event).toBe("result");
+    });
+  });
+
+  // ── Quote Verification ────────────────────────────────────────────────────
+
+  describe("quote verification", () => {
+    function momentWith(overrides: Record<string, unknown>): Record<string, unknown> {
+      return {
+        type: "good",
+        question: "Can you tell me about a technical challenge you led?",
+        quote: "I led the migration from monolith to microservices.",
+        explanation: "Grudgingly acceptable.",
+        ...overrides,
+      };
+    }
+
+    it("should attach the transcript index of verbatim quotes", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.moments.map((m: { transcriptIndex: number }) => m.transcriptIndex)).toEqual([
+        3, 5, 7,
+      ]);
+      expect(body.moments[0].quote).toBe("I led the migration from monolith to microservices.");
+      expect(body.moments[0].timestamp).toBeUndefined();
+    });
+
+    it("should repair a paraphrased quote to the closest span of the transcript", async () => {
+      // Arrange
+      mockClaudeResponse(
+        buildValidScoringResponse({
+          moments: [momentWith({ quote: "I led our migration from the monolith to microservices." })],
+        }),
+      );
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.moments).toHaveLength(1);
+      expect(body.moments[0].quote).toContain("I led the migration from monolith to microservices.");
+      expect(body.moments[0].transcriptIndex).toBe(3);
+    });
+
+    it("should drop moments whose quote does not appear in the transcript", async () => {
+      // Arrange
+      mockClaudeResponse(
+        buildValidScoringResponse({
+          moments: [
+            momentWith({}),
+            momentWith({ quote: "I single-handedly rewrote the kernel scheduler in Rust." }),
+          ],
+        }),
+      );
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.moments).toHaveLength(1);
+      expect(body.moments[0].transcriptIndex).toBe(3);
+    });
+
+    it("should replace an invented question with the interviewer turn that prompted the answer", async () => {
+      // Arrange
+      mockClaudeResponse(
+        buildValidScoringResponse({
+          moments: [momentWith({ question: "Describe your greatest professional achievement." })],
+        }),
+      );
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.moments[0].question).toBe("Can you tell me about a technical challenge you led?");
+    });
+
+    it("should not stream moments that fail verification", async () => {
+      // Arrange
+      mockClaudeStreamResponse(
+        JSON.stringify(
+          buildValidScoringResponse({
+            moments: [momentWith({}), momentWith({ quote: "Nothing like this was ever said." })],
+          }),
+        ),
+      );
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events.filter((e) => e.event === "moment")).toHaveLength(1);
+      expect(events[events.length - 1].data.moments).toHaveLength(1);
+    });
+  });
+
+  // ── Streaming Mode ────────────────────────────────────────────────────────
+
+  describe("streaming mode", () => {
+    it("should respond with a text/event-stream when stream is true", async () => {
+      // Arrange
+      mockClaudeStreamResponse(JSON.stringify(buildValidScoringResponse()));
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true }),
+      );
+    });
+
+    it("should emit summary, dimensions and moments before the final result", async () => {
+      // Arrange
+      const scoring = buildValidScoringResponse();
+      mockClaudeStreamResponse(JSON.stringify(scoring, null, 2));
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events.map((e) => e.event)).toEqual([
+        "summary",
+        "dimension",
+        "dimension",
+        "dimension",
+        "dimension",
+        "dimension",
+        "moment",
+        "moment",
+        "moment",
+        "result",
+      ]);
+      expect(events[0].data).toEqual({ bossSummary: scoring.bossSummary });
+      expect(events[1].data.name).toBe("communication");
+      expect(events[6].data.type).toBe("good");
+      expect(events[9].data.eloRating).toBe(1250);
+      expect(events[9].data.tier).toBe("Adequate");
+    });
+
+    it("should handle braces and escaped quotes inside streamed strings", async () => {
+      // Arrange
+      const dimensions = ALL_DIMENSION_NAMES.map((name) => ({
+        name,
+        score: 6,
+        feedback: `You said "{this} [that]" -- for ${name}. Not good enough.`,
+      }));
+      mockClaudeStreamResponse(
+        JSON.stringify(buildValidScoringResponse({ dimensions })),
+        7,
+      );
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      const streamed = events.filter((e) => e.event === "dimension");
+      expect(streamed).toHaveLength(5);
+      expect(streamed[0].data.feedback).toBe(dimensions[0].feedback);
+    });
+
+    it("should not emit dimensions that fail validation, and end with an error event", async () => {
+      // Arrange -- second dimension has an invalid key
+      const dimensions = ALL_DIMENSION_NAMES.map((name) => ({
+        name: name === "technical" ? "charisma" : name,
+        score: 7,
+        feedback: "Feedback.",
+      }));
+      mockClaudeStreamResponse(
+        JSON.stringify(buildValidScoringResponse({ dimensions })),
+      );
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      const streamedNames = events
+        .filter((e) => e.event === "dimension")
+        .map((e) => e.data.name);
+      expect(streamedNames).not.toContain("charisma");
+      expect(events[events.length - 1]).toEqual({
+        event: "error",
+        data: { error: "Failed to score the interview" },
+      });
+    });
+
+    it("should end with an error event when the Claude stream throws", async () => {
+      // Arrange
+      mockCreate.mockRejectedValueOnce(new Error("API rate limit exceeded"));
+      const request = createRequest(validRequestBody({ stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events).toEqual([
+        {
+          event: "error",
+          data: {
+            error:
+              "Something went wrong while scoring your interview. Please try again.",
+          },
+        },
+      ]);
+    });
+
+    it("should still return JSON validation errors before streaming starts", async () => {
+      // Arrange
+      const request = createRequest({ transcript: "", stream: true });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Interview transcript is required" });
+    });
+  });
+
+  // ── Scoring Providers ─────────────────────────────────────────────────────
+
+  describe("scoring providers", () => {
+    const heuristicTranscript = [
+      "Interviewer: Tell me about a project you led.",
+      "Candidate: I led the migration of our billing system to event sourcing. I designed the schema and we cut reconciliation time by 80% in 3 months.",
+      "Interviewer: What went wrong?",
+      "Candidate: Um, basically, I guess maybe the rollout was sort of late.",
+      "Interviewer: Why?",
+      "Candidate: I underestimated the backfill. It took 6 weeks instead of 2 because of 40 million legacy rows.",
+    ].join("\n\n");
+
+    it("should score with the heuristic provider without calling the Claude API", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+      delete process.env.ANTHROPIC_API_KEY;
+      const request = createRequest(validRequestBody({ transcript: heuristicTranscript }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCreate).not.toHaveBeenCalled();
+      const body = await response.json();
+      expect(body.dimensions).toHaveLength(5);
+      expect(body.moments.length).toBeGreaterThan(0);
+      expect(body.isPartial).toBe(true);
+    });
+
+    it("should produce the same rating for the same transcript with the heuristic provider", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const first = await (await POST(createRequest(validRequestBody({ transcript: heuristicTranscript })) as any)).json();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const second = await (await POST(createRequest(validRequestBody({ transcript: heuristicTranscript })) as any)).json();
+
+      // Assert -- everything but the scoring time
+      expect({ ...second, scoredAt: null }).toEqual({ ...first, scoredAt: null });
+    });
+
+    it("should stream heuristic results through the same event sequence", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+      const request = createRequest(
+        validRequestBody({ transcript: heuristicTranscript, stream: true }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events[0].event).toBe("summary");
+      expect(events.filter((e) => e.event === "dimension")).toHaveLength(5);
+      expect(events[events.length - 1].event).toBe("result");
+    });
+
+    it("should call an OpenAI-compatible endpoint and validate its output", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "openai-compatible";
+      process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1/";
+      process.env.SCORING_MODEL = "llama3.1:8b";
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify(buildValidScoringResponse({ tier: "Impressive" })),
+                },
+              },
+            ],
+          }),
+          { status: 200 },
+        ),
+      );
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        "http://localhost:11434/v1/chat/completions",
+        expect.objectContaining({ method: "POST" }),
+      );
+      const sent = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(sent.model).toBe("llama3.1:8b");
+      const body = await response.json();
+      expect(body.tier).toBe("Adequate"); // self-healed like any other provider
+      fetchSpy.mockRestore();
+    });
+
+    it("should read OpenAI-compatible tool calls and request the scoring function", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "openai-compatible";
+      process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:8080/v1";
+      process.env.SCORING_MODEL = "qwen2.5-32b";
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: "call_1",
+                      type: "function",
+                      function: {
+                        name: "submit_assessment",
+                        arguments: JSON.stringify(buildValidScoringResponse({ eloRating: 900 })),
+                      },
+                    },
+                  ],
+                },
+              },
+            ],
+          }),
+          { status: 200 },
+        ),
+      );
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const sent = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      expect(sent.tool_choice).toEqual({
+        type: "function",
+        function: { name: "submit_assessment" },
+      });
+      expect(sent.tools[0].function.parameters.type).toBe("object");
+      const body = await response.json();
+      expect(body.eloRating).toBe(900);
+      fetchSpy.mockRestore();
+    });
+
+    it("should return 500 when the OpenAI-compatible provider has no base URL", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "openai-compatible";
+      process.env.SCORING_MODEL = "llama3.1:8b";
+      delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Service configuration error" });
+    });
+
+    it("should return 500 for an unknown SCORING_PROVIDER", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "carrier-pigeon";
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Rubrics ───────────────────────────────────────────────────────────────
+
+  describe("rubrics", () => {
+    const STAFF_DIMENSION_NAMES = [
+      "systemDesign",
+      "technicalJudgement",
+      "leverage",
+      "communication",
+      "questionsAsked",
+    ];
+
+    /** Valid response scored against the staff engineer rubric */
+    function buildStaffScoringResponse(
+      overrides: Record<string, unknown> = {},
+    ): Record<string, unknown> {
+      return buildValidScoringResponse({
+        dimensions: STAFF_DIMENSION_NAMES.map((name) => ({
+          name,
+          score: 6,
+          feedback: `Detailed feedback for ${name} dimension in the boss's voice.`,
+        })),
+        ...overrides,
+      });
+    }
+
+    it("should score against the default rubric when none is given", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.rubric).toBe("default");
+    });
+
+    it("should render the staff engineer dimensions, weights and tiers into the prompt and tool", async () => {
+      // Arrange
+      mockClaudeToolResponse(buildStaffScoringResponse());
+      const request = createRequest(validRequestBody({ rubric: "staff-engineer" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await POST(request as any);
+
+      // Assert
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.system).toContain("### 1. systemDesign (Architecture)");
+      expect(params.system).toContain("systemDesign 25%");
+      expect(params.system).toContain("questionsAsked 13%");
+      expect(params.system).toContain("If the rating is 2400 or above");
+      expect(params.system).not.toContain("technical (Substance)");
+      const schema = params.tools[0].input_schema;
+      expect(schema.properties.dimensions.items.properties.name.enum).toEqual(
+        STAFF_DIMENSION_NAMES,
+      );
+    });
+
+    it("should heal tier and verdict against the staff engineer tier table", async () => {
+      // Arrange -- 1900 is Impressive and HIRED under the default rubric
+      mockClaudeToolResponse(
+        buildStaffScoringResponse({ eloRating: 1900, tier: "Impressive", verdict: "HIRED" }),
+      );
+      const request = createRequest(validRequestBody({ rubric: "staff-engineer" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.rubric).toBe("staff-engineer");
+      expect(body.tier).toBe("Noteworthy");
+      expect(body.verdict).toBe("NOT HIRED");
+      expect(body.dimensions.map((d: { name: string }) => d.name)).toEqual(
+        STAFF_DIMENSION_NAMES,
+      );
+    });
+
+    it("should reject default dimension keys when scoring against the staff engineer rubric", async () => {
+      // Arrange -- every attempt returns the default rubric's dimensions
+      mockCreate.mockResolvedValue({
+        content: [{ type: "text", text: JSON.stringify(buildValidScoringResponse()) }],
+      });
+      const request = createRequest(validRequestBody({ rubric: "staff-engineer" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Failed to score the interview" });
+    });
+
+    it("should score the staff engineer dimensions with the heuristic provider", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+      const request = createRequest(validRequestBody({ rubric: "staff-engineer" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.rubric).toBe("staff-engineer");
+      expect(body.dimensions.map((d: { name: string }) => d.name)).toEqual(
+        STAFF_DIMENSION_NAMES,
+      );
+    });
+
+    it("should return 400 for an unknown rubric", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ rubric: "astronaut" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+      const body = await response.json();
+      expect(body).toEqual({
+        error: "Unknown rubric. Available rubrics: default, staff-engineer",
+      });
+    });
+
+    it("should return 400 when rubric is not a string", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ rubric: 42 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "rubric must be a string" });
+    });
+  });
+
+  // ── Job Description ───────────────────────────────────────────────────────
+
+  describe("job description", () => {
+    const JD_TEXT = [
+      "Senior Backend Engineer",
+      "Responsibilities:",
+      "- Own the migration of our monolith to microservices",
+      "- Define deployment frequency and lead time targets",
+      "Requirements:",
+      "- Production experience with TypeScript and Node.js",
+    ].join("\n");
+
+    /** Valid response including the roleFit dimension */
+    function buildRoleFitScoringResponse(): Record<string, unknown> {
+      const valid = buildValidScoringResponse();
+      return {
+        ...valid,
+        dimensions: [
+          ...(valid.dimensions as Record<string, unknown>[]),
+          { name: "roleFit", score: 6, feedback: "You never showed me the Node.js the posting lists." },
+        ],
+      };
+    }
+
+    it("should add the roleFit dimension and JD calibration when a job description is provided", async () => {
+      // Arrange
+      mockClaudeToolResponse(buildRoleFitScoringResponse());
+      const request = createRequest(validRequestBody({ jdText: JD_TEXT }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.system).toContain("## Job Description Calibration");
+      expect(params.system).toContain("### 6. roleFit (Role Fit)");
+      expect(params.messages[0].content).toContain(`=== JOB DESCRIPTION ===\n${JD_TEXT}`);
+      const schema = params.tools[0].input_schema;
+      expect(schema.properties.dimensions.items.properties.name.enum).toEqual([
+        ...ALL_DIMENSION_NAMES,
+        "roleFit",
+      ]);
+      const body = await response.json();
+      expect(body.dimensions).toHaveLength(6);
+      expect(body.dimensions[5].name).toBe("roleFit");
+    });
+
+    it("should not mention a job description when none is provided", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ jdText: "   " }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.system).not.toContain("roleFit");
+      expect(params.messages[0].content).not.toContain("=== JOB DESCRIPTION ===");
+    });
+
+    it("should require the roleFit dimension when a job description is provided", async () => {
+      // Arrange -- every attempt omits roleFit
+      mockCreate.mockResolvedValue({
+        content: [{ type: "text", text: JSON.stringify(buildValidScoringResponse()) }],
+      });
+      const request = createRequest(validRequestBody({ jdText: JD_TEXT }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const repairTurn = mockCreate.mock.calls[1][0].messages.at(-1);
+      expect(JSON.stringify(repairTurn)).toContain("roleFit");
+    });
+
+    it("should score role fit from the job description with the heuristic provider", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+      const request = createRequest(validRequestBody({ jdText: JD_TEXT }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      const roleFit = body.dimensions.find((d: { name: string }) => d.name === "roleFit");
+      expect(roleFit.score).toBeGreaterThan(5);
+    });
+
+    it("should return 400 when jdText is not a string", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ jdText: ["Senior Engineer"] }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Job description must be a string" });
+    });
+
+    it("should return 400 when jdText exceeds 50,000 characters", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ jdText: "a".repeat(50_001) }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Job description exceeds maximum length" });
+    });
+  });
+
+  // ── Structured Transcripts ────────────────────────────────────────────────
+
+  describe("structured transcripts", () => {
+    /** VALID_TRANSCRIPT as TranscriptEntry[], one turn every 10 seconds */
+    const VALID_ENTRIES = parseTranscriptText(VALID_TRANSCRIPT).map((entry, i) => ({
+      ...entry,
+      timestamp: i * 10,
+    }));
+
+    it("should render the prompt transcript from the entries", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ transcript: VALID_ENTRIES }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain(
+        "Interviewer: Tell me about your experience.\n\nCandidate: I have been working with TypeScript for 6 years.",
+      );
+      const body = await response.json();
+      expect(body.moments[0]).toMatchObject({ transcriptIndex: 3, timestamp: 30 });
+      expect(body.speechMetrics.talkTimeRatio).toBe(0.43);
+    });
+
+    it.each([
+      [[{ role: "boss", message: "Hello" }], 'Transcript entry 0 must have role "agent" or "user"'],
+      [[{ role: "agent", message: "Hi" }, { role: "user" }], "Transcript entry 1 must have a string message"],
+      [[{ role: "user", message: "x".repeat(20_001) }], "Transcript entry 0 exceeds maximum message length"],
+      [["Interviewer: Hi"], "Transcript entry 0 is not an object"],
+      [
+        Array.from({ length: 1_001 }, () => ({ role: "user", message: "Yes." })),
+        "Transcript exceeds 1000 entries",
+      ],
+      [
+        [{ role: "agent", message: "Hi", timestamp: -2 }],
+        "Transcript entry 0 timestamp must be seconds from the start of the call",
+      ],
+      [
+        [
+          { role: "agent", message: "Hi", timestamp: 12 },
+          { role: "user", message: "Hello", timestamp: 8 },
+        ],
+        "Transcript entry 1 timestamp is earlier than the entry before it",
+      ],
+      [[{ role: "agent", message: "  " }], "Interview transcript is required"],
+      [[], "Interview transcript is required"],
+    ])("should return 400 for an invalid transcript (%#)", async (transcript, error) => {
+      // Arrange
+      const request = createRequest(validRequestBody({ transcript }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 when timestamps are sent alongside entries", async () => {
+      // Arrange
+      const request = createRequest(
+        validRequestBody({
+          transcript: VALID_ENTRIES,
+          timestamps: VALID_ENTRIES.map((e) => e.timestamp),
+        }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({
+        error: "timestamps are only accepted with a text transcript -- set them on the entries",
+      });
+    });
+  });
+
+  // ── Conversation Scoring ──────────────────────────────────────────────────
+
+  describe("conversation scoring", () => {
+    const CONVERSATION_ID = "conv_0123456789abcdef";
+    const session = createSession();
+
+    /** Request from the browser session that started the conversation */
+    function createSessionRequest(
+      body: Record<string, unknown>,
+      cookie: string | null = session.cookie,
+    ) {
+      return new NextRequest("http://localhost:3000/api/score-interview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-forwarded-for": nextIp(),
+          ...(cookie !== null && { Cookie: `${SESSION_COOKIE_NAME}=${cookie}` }),
+        },
+        body: JSON.stringify(body),
+      });
+    }
+
+    /** ElevenLabs conversation payload for VALID_TRANSCRIPT */
+    function elevenLabsConversation(status = "done") {
+      return {
+        status,
+        transcript: parseTranscriptText(VALID_TRANSCRIPT).map((entry, i) => ({
+          role: entry.role,
+          message: entry.message,
+          time_in_call_secs: i * 10,
+        })),
+      };
+    }
+
+    /** Stubs the ElevenLabs REST API with the given status and body */
+    function mockElevenLabs(status: number, body: unknown = {}) {
+      return vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+    }
+
+    beforeEach(() => {
+      process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+      claimConversation(CONVERSATION_ID, session.sessionId);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should fetch the transcript server-side and mark the results verified", async () => {
+      // Arrange
+      const fetchSpy = mockElevenLabs(200, elevenLabsConversation());
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({ conversationId: CONVERSATION_ID });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        `https://api.elevenlabs.io/v1/convai/conversations/${CONVERSATION_ID}`,
+        { headers: { "xi-api-key": "test-elevenlabs-key" } },
+      );
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain("Candidate: We used React for the backend.");
+      const body = await response.json();
+      expect(body.verified).toBe(true);
+      expect(body.conversationId).toBe(CONVERSATION_ID);
+      expect(body.moments[0].timestamp).toBe(30);
+    });
+
+    it("should not mark a client-supplied transcript as verified", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.verified).toBe(false);
+      expect(body).not.toHaveProperty("conversationId");
+    });
+
+    it("should return 400 when both a transcript and a conversationId are sent", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ conversationId: CONVERSATION_ID }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Send either a transcript or a conversationId, not both" });
+    });
+
+    it("should return 400 for a malformed conversationId", async () => {
+      // Arrange
+      const request = createRequest({ conversationId: "../../admin" });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Invalid conversation ID format" });
+    });
+
+    it.each([
+      [404, {}, 404, "Conversation not found"],
+      [
+        200,
+        elevenLabsConversation("processing"),
+        409,
+        "The interview is still being processed. Please try again in a moment.",
+      ],
+      [503, {}, 500, "Failed to fetch transcript"],
+    ])(
+      "should map an ElevenLabs %i response to a %i error",
+      async (upstreamStatus, upstreamBody, status, error) => {
+        // Arrange
+        mockElevenLabs(upstreamStatus, upstreamBody);
+        const request = createSessionRequest({ conversationId: CONVERSATION_ID });
+
+        // Act
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const response = await POST(request as any);
+
+        // Assert
+        expect(response.status).toBe(status);
+        const body = await response.json();
+        expect(body).toEqual({ error });
+        expect(mockCreate).not.toHaveBeenCalled();
+      },
+    );
+
+    it.each([
+      ["no session cookie", null],
+      ["another session", createSession().cookie],
+      ["a forged session cookie", `${session.sessionId}.${"0".repeat(64)}`],
+    ])(
+      "should return 404 without fetching the conversation for %s",
+      async (_label, cookie) => {
+        // Arrange
+        const fetchSpy = vi.spyOn(globalThis, "fetch");
+        const request = createSessionRequest({ conversationId: CONVERSATION_ID }, cookie);
+
+        // Act
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const response = await POST(request as any);
+
+        // Assert
+        expect(response.status).toBe(404);
+        const body = await response.json();
+        expect(body).toEqual({ error: "Conversation not found" });
+        expect(fetchSpy).not.toHaveBeenCalled();
+        expect(mockCreate).not.toHaveBeenCalled();
+      },
+    );
+
+    it("should return 500 when ELEVENLABS_API_KEY is not configured", async () => {
+      // Arrange
+      delete process.env.ELEVENLABS_API_KEY;
+      const request = createSessionRequest({ conversationId: CONVERSATION_ID });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Service configuration error" });
+    });
+
+    it("should take the boss's end_call from ElevenLabs over the browser's account of the ending", async () => {
+      // Arrange
+      mockElevenLabs(200, {
+        ...elevenLabsConversation(),
+        metadata: { call_duration_secs: 372, termination_reason: "end_call tool was called." },
+      });
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({
+        conversationId: CONVERSATION_ID,
+        termination: { reason: "connection-lost", durationSeconds: 375 },
+      });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain(
+        "=== HOW THE INTERVIEW ENDED ===\nThe interviewer ended the interview themselves after 6 minutes 12 seconds",
+      );
+      expect(userMessage).toContain("Assess explicitly whether the answers leading up to it justified");
+      const body = await response.json();
+      expect(body.termination).toEqual({ reason: "boss-ended", durationSeconds: 372 });
+    });
+
+    it("should keep the browser's reason when ElevenLabs only saw the client disconnect", async () => {
+      // Arrange
+      mockElevenLabs(200, {
+        ...elevenLabsConversation(),
+        metadata: { call_duration_secs: 900, termination_reason: "Client disconnected: 1000" },
+      });
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({
+        conversationId: CONVERSATION_ID,
+        termination: { reason: "time-limit", durationSeconds: 901 },
+      });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.termination).toEqual({ reason: "time-limit", durationSeconds: 900 });
+    });
+
+    it("should stitch the conversations of a call resumed after dropping into one transcript", async () => {
+      // Arrange
+      const RESUMED_ID = "conv_fedcba9876543210";
+      claimConversation(RESUMED_ID, session.sessionId);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) =>
+        String(url).endsWith(RESUMED_ID)
+          ? new Response(
+              JSON.stringify({
+                status: "done",
+                transcript: [
+                  { role: "agent", message: "The line dropped. We will continue.", time_in_call_secs: 0 },
+                  { role: "user", message: "We shipped it a week early.", time_in_call_secs: 6 },
+                ],
+                metadata: { call_duration_secs: 20, termination_reason: "end_call tool was called." },
+              }),
+              { status: 200 },
+            )
+          : new Response(
+              JSON.stringify({
+                ...elevenLabsConversation(),
+                metadata: { call_duration_secs: 95, termination_reason: "Client disconnected: 1006" },
+              }),
+              { status: 200 },
+            ),
+      );
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({
+        conversationIds: [CONVERSATION_ID, RESUMED_ID],
+        termination: { reason: "candidate-ended", durationSeconds: 118 },
+      });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain("Candidate: We used React for the backend.");
+      expect(userMessage.indexOf("Candidate: We shipped it a week early.")).toBeGreaterThan(
+        userMessage.indexOf("Candidate: We used React for the backend."),
+      );
+      expect(userMessage).toContain("=== DROPPED CONNECTION ===\nThe call dropped once and was resumed");
+      const body = await response.json();
+      expect(body.verified).toBe(true);
+      expect(body.conversationId).toBe(CONVERSATION_ID);
+      expect(body.conversationIds).toEqual([CONVERSATION_ID, RESUMED_ID]);
+      expect(body.termination).toEqual({ reason: "boss-ended", durationSeconds: 115 });
+    });
+
+    it("should return 400 when both conversationId and conversationIds are sent", async () => {
+      // Arrange
+      const request = createSessionRequest({
+        conversationId: CONVERSATION_ID,
+        conversationIds: [CONVERSATION_ID],
+      });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Send either conversationId or conversationIds, not both" });
+    });
+
+    it.each([
+      ["an empty list", []],
+      ["a repeated conversation", ["conv_0123456789abcdef", "conv_0123456789abcdef"]],
+      ["too many conversations", Array.from({ length: 6 }, (_, i) => `conv_segment${i}`)],
+      ["a single string", "conv_0123456789abcdef"],
+    ])("should return 400 for conversationIds with %s", async (_label, conversationIds) => {
+      // Arrange
+      const request = createSessionRequest({ conversationIds });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "conversationIds must list 1 to 5 different conversations" });
+    });
+
+    it("should score a verified interview at the difficulty recorded when it was claimed", async () => {
+      // Arrange
+      const STANDARD_ID = "conv_standard000000001";
+      claimConversation(STANDARD_ID, session.sessionId, { difficulty: "standard", persona: "carrington" });
+      mockElevenLabs(200, elevenLabsConversation());
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({ conversationId: STANDARD_ID });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.verified).toBe(true);
+      expect(body.difficulty).toBe("standard");
+    });
+
+    it("should return 400 without fetching anything when the difficulty sent is not the one the call ran at", async () => {
+      // Arrange
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const request = createSessionRequest({ conversationId: CONVERSATION_ID, difficulty: "warm-up" });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "difficulty does not match the difficulty the interview was held at" });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should score a verified interview in the voice of the persona recorded when it was claimed", async () => {
+      // Arrange
+      const VC_ID = "conv_skepticalvc00001";
+      claimConversation(VC_ID, session.sessionId, { difficulty: "carrington", persona: "skeptical-vc" });
+      mockElevenLabs(200, elevenLabsConversation());
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createSessionRequest({ conversationId: VC_ID });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.persona).toBe("skeptical-vc");
+      const systemPrompt: string = mockCreate.mock.calls[0][0].system;
+      expect(systemPrompt).not.toContain("Carrington");
+    });
+
+    it("should return 400 without fetching anything when the persona sent is not the one who held the interview", async () => {
+      // Arrange
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const request = createSessionRequest({ conversationId: CONVERSATION_ID, persona: "skeptical-vc" });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "persona does not match the persona who held the interview" });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 without fetching anything when one of the conversations belongs to another session", async () => {
+      // Arrange
+      const OTHER_ID = "conv_00000000deadbeef";
+      claimConversation(OTHER_ID, createSession().sessionId);
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const request = createSessionRequest({ conversationIds: [CONVERSATION_ID, OTHER_ID] });
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(404);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Conversation not found" });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Interview Endings ─────────────────────────────────────────────────────
+
+  describe("interview endings", () => {
+    it("should tell the model how a client-supplied interview ended and return it", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(
+        validRequestBody({ termination: { reason: "candidate-ended", durationSeconds: 61 } }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain(
+        "=== HOW THE INTERVIEW ENDED ===\nThe candidate ended the interview themselves after 1 minute 1 second.",
+      );
+      const body = await response.json();
+      expect(body.termination).toEqual({ reason: "candidate-ended", durationSeconds: 61 });
+    });
+
+    it("should leave the ending out when it is not known", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).not.toContain("=== HOW THE INTERVIEW ENDED ===");
+      const body = await response.json();
+      expect(body.termination).toBeUndefined();
+    });
+
+    it.each([
+      ["an unknown reason", { reason: "fired", durationSeconds: 60 }],
+      ["a negative duration", { reason: "time-limit", durationSeconds: -1 }],
+      ["a bare string", "boss-ended"],
+    ])("should return 400 for a termination with %s", async (_label, termination) => {
+      // Arrange
+      const request = createRequest(validRequestBody({ termination }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error:
+          "termination must have a reason (boss-ended, candidate-ended, time-limit, connection-lost) and durationSeconds",
+      });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Difficulty ────────────────────────────────────────────────────────────
+
+  describe("difficulty", () => {
+    it("should score at the full boss's bar and record it when no difficulty is sent", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1800, verdict: "HIRED" }));
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).not.toContain("=== DIFFICULTY ===");
+      const body = await response.json();
+      expect(body.difficulty).toBe("carrington");
+      expect(body.verdict).toBe("NOT HIRED");
+    });
+
+    it.each([
+      ["warm-up", 1400, "HIRED"],
+      ["warm-up", 1399, "NOT HIRED"],
+      ["standard", 1800, "HIRED"],
+      ["standard", 1799, "NOT HIRED"],
+    ])("should move the HIRED threshold for %s (ELO %i is %s)", async (difficulty, eloRating, verdict) => {
+      // Arrange -- the model's verdict is the opposite of what the lowered bar gives
+      mockClaudeResponse(
+        buildValidScoringResponse({
+          eloRating,
+          verdict: verdict === "HIRED" ? "NOT HIRED" : "HIRED",
+        }),
+      );
+      const request = createRequest(validRequestBody({ difficulty }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.difficulty).toBe(difficulty);
+      expect(body.verdict).toBe(verdict);
+    });
+
+    it("should tell the model how a Warm-up interview was softened and use its time limit", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(
+        validRequestBody({
+          difficulty: "warm-up",
+          termination: { reason: "time-limit", durationSeconds: 600 },
+        }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain("=== DIFFICULTY ===\nThis was a Warm-up interview.");
+      expect(userMessage).toContain("The interview ran to its 10-minute time limit");
+    });
+
+    it.each([
+      ["an unknown level", "nightmare"],
+      ["a non-string", 3],
+    ])("should return 400 for %s", async (_label, difficulty) => {
+      // Arrange
+      const request = createRequest(validRequestBody({ difficulty }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "difficulty must be one of warm-up, standard, carrington",
+      });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Persona ───────────────────────────────────────────────────────────────
+
+  describe("persona", () => {
+    it("should score in R.J. Carrington III's voice and record it when no persona is sent", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const systemPrompt: string = mockCreate.mock.calls[0][0].system;
+      expect(systemPrompt).toContain("in the voice of R.J. Carrington III.");
+      const body = await response.json();
+      expect(body.persona).toBe("carrington");
+    });
+
+    it("should write the feedback in the chosen persona's voice", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ persona: "panel-chair" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const systemPrompt: string = mockCreate.mock.calls[0][0].system;
+      expect(systemPrompt).toContain("You are Dr Helen Ashworth");
+      expect(systemPrompt).toContain("in the voice of Dr Helen Ashworth.");
+      expect(systemPrompt).not.toContain("Carrington");
+      const body = await response.json();
+      expect(body.persona).toBe("panel-chair");
+    });
+
+    it.each([
+      [1800, "HIRED"],
+      [1799, "NOT HIRED"],
+    ])("should keep the HIRED threshold whatever the persona (ELO %i is %s)", async (eloRating, verdict) => {
+      // Arrange -- the model's verdict is the opposite of what the threshold gives
+      mockClaudeResponse(
+        buildValidScoringResponse({
+          eloRating,
+          verdict: verdict === "HIRED" ? "NOT HIRED" : "HIRED",
+        }),
+      );
+      const request = createRequest(
+        validRequestBody({ persona: "engineering-manager", difficulty: "standard" }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.verdict).toBe(verdict);
+    });
+
+    it.each([
+      ["an unknown persona", "gordon"],
+      ["a non-string", 7],
+    ])("should return 400 for %s", async (_label, persona) => {
+      // Arrange
+      const request = createRequest(validRequestBody({ persona }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "persona must be one of carrington, engineering-manager, skeptical-vc, panel-chair",
+      });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Speech Metrics ────────────────────────────────────────────────────────
+
+  describe("speech metrics", () => {
+    const TIMED_TRANSCRIPT = [
+      "Interviewer: Tell me about yourself.",
+      "Candidate: Um, I build payment systems, you know, at scale.",
+      "Interviewer: Why payments?",
+      "Candidate: Because um the problems are hard and the stakes are real.",
+      "Interviewer: Thank you.",
+    ].join("\n\n");
+    const TIMESTAMPS = [0, 4, 10, 13, 20];
+
+    it("should measure talk time, pace, latency, length and fillers from timestamps", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(
+        validRequestBody({ transcript: TIMED_TRANSCRIPT, timestamps: TIMESTAMPS }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.speechMetrics).toEqual({
+        answerCount: 2,
+        averageAnswerWords: 10,
+        longestMonologue: { transcriptIndex: 3, words: 11, seconds: 7 },
+        fillers: { total: 3, perHundredWords: 15, counts: { um: 2, "you know": 1 } },
+        talkTimeRatio: 0.65,
+        wordsPerMinute: 92,
+        responseLatencies: [
+          { transcriptIndex: 1, seconds: 2.4 },
+          { transcriptIndex: 3, seconds: 2.2 },
+        ],
+        medianLatencySeconds: 2.3,
+      });
+    });
+
+    it("should give the metrics to the model as evidence for the delivery dimensions", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(
+        validRequestBody({ transcript: TIMED_TRANSCRIPT, timestamps: TIMESTAMPS }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await POST(request as any);
+
+      // Assert
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      const metrics = userMessage.slice(userMessage.indexOf("=== SPEECH METRICS ==="));
+      expect(userMessage.indexOf("=== SPEECH METRICS ===")).toBeGreaterThan(
+        userMessage.indexOf("=== INTERVIEW TRANSCRIPT ==="),
+      );
+      expect(metrics).toContain("objective evidence for Articulation and Composure");
+      expect(metrics).toContain("- Candidate talk time: 65% of the conversation");
+      expect(metrics).toContain("- Speaking rate: 92 words per minute");
+      expect(metrics).toContain("- Pause before answering: median 2.3s, longest 2.4s");
+      expect(metrics).toContain('- Filler words: 3 (15 per 100 words): "um" 2, "you know" 1');
+    });
+
+    it("should report only word-based metrics when there are no timestamps", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ transcript: TIMED_TRANSCRIPT }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.speechMetrics.averageAnswerWords).toBe(10);
+      expect(body.speechMetrics.talkTimeRatio).toBeNull();
+      expect(body.speechMetrics.wordsPerMinute).toBeNull();
+      expect(body.speechMetrics.responseLatencies).toEqual([]);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain("Timing measures are unavailable");
+    });
+
+    it("should return 400 when timestamps do not match the transcript turns", async () => {
+      // Arrange
+      const request = createRequest(
+        validRequestBody({ transcript: TIMED_TRANSCRIPT, timestamps: [0, 4, 10] }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "timestamps must have one entry per transcript turn" });
+    });
+
+    it("should return 400 when a timestamp is not a non-negative number", async () => {
+      // Arrange
+      const request = createRequest(
+        validRequestBody({ transcript: TIMED_TRANSCRIPT, timestamps: [0, 4, -1, 13, "20"] }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({
+        error: "timestamps must be seconds from the start of the call, or null",
+      });
+    });
+  });
+
+  // ── Text Interviews ───────────────────────────────────────────────────────
+
+  describe("text interviews", () => {
+    const TIMED_ENTRIES = parseTranscriptText(VALID_TRANSCRIPT).map((entry, i) => ({
+      ...entry,
+      timestamp: i * 10,
+    }));
+
+    it("should tell the model the answers were typed and leave out timing measures", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(
+        validRequestBody({ transcript: TIMED_ENTRIES, interviewMode: "text" }),
+      );
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).toContain("=== INTERVIEW FORMAT ===\nThe candidate typed their answers");
+      expect(userMessage).toContain("- Timing measures are omitted: the answers were typed");
+      expect(userMessage).not.toContain("Speaking rate");
+      const body = await response.json();
+      expect(body.speechMetrics).toMatchObject({ talkTimeRatio: null, wordsPerMinute: null });
+      // Moments still link to when the answer was given
+      expect(body.moments[0]).toMatchObject({ transcriptIndex: 3, timestamp: 30 });
+    });
+
+    it("should treat an interview as spoken by default", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ transcript: TIMED_ENTRIES }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const userMessage: string = mockCreate.mock.calls[0][0].messages[0].content;
+      expect(userMessage).not.toContain("=== INTERVIEW FORMAT ===");
+      expect(userMessage).toContain("Speaking rate");
+    });
+
+    it("should return 400 for an unknown interviewMode", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ interviewMode: "telepathy" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'interviewMode must be "voice" or "text"' });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Prompt Versions ───────────────────────────────────────────────────────
+
+  describe("prompt versions", () => {
+    it("should stamp the prompt version, model and scoring time onto the results", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+      const before = Date.now();
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.promptVersion).toBe("v1");
+      expect(body.model).toBe("claude-sonnet-4-5-20250929");
+      const scoredAt = Date.parse(body.scoredAt);
+      expect(scoredAt).toBeGreaterThanOrEqual(before - 1000);
+      expect(scoredAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("should stamp the configured model and the heuristic scorer's version", async () => {
+      // Arrange
+      process.env.SCORING_PROVIDER = "heuristic";
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.model).toBe("heuristic-v1");
+      expect(body.promptVersion).toBe("v1");
+    });
+
+    it("should accept a prompt version named in the request", async () => {
+      // Arrange
+      process.env.SCORING_PROMPT_SPLIT = "v1:1";
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ promptVersion: "v1" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.promptVersion).toBe("v1");
+    });
+
+    it("should return 400 for an unknown prompt version", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ promptVersion: "v0" }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Unknown prompt version. Available versions: v1" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 when promptVersion is not a string", async () => {
+      // Arrange
+      const request = createRequest(validRequestBody({ promptVersion: 1 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body).toEqual({ error: "promptVersion must be a string" });
+    });
+
+    it.each([
+      ["SCORING_PROMPT_VERSION", "v0"],
+      ["SCORING_PROMPT_SPLIT", "v1:90,v0:10"],
+      ["SCORING_PROMPT_SPLIT", "v1=90"],
+      ["SCORING_PROMPT_SPLIT", "v1:0"],
+    ])("should return 500 when %s is %s", async (name, value) => {
+      // Arrange
+      process.env[name] = value;
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Service configuration error" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should log a structured line for comparing rating distributions", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await POST(request as any);
+
+      // Assert
+      const line = vi
+        .mocked(console.info)
+        .mock.calls.map((c) => String(c[0]))
+        .find((l) => l.includes("Scored"));
+      expect(line).toBeDefined();
+      expect(JSON.parse(line!.slice(line!.indexOf("{")))).toEqual({
+        promptVersion: "v1",
+        model: "claude-sonnet-4-5-20250929",
+        rubric: "default",
+        eloRating: 1250,
+        tier: "Adequate",
+        samples: 1,
+        verified: false,
+      });
+    });
+
+    it("should carry the stamps through consensus mode", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1200 }));
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1500 }));
+      const request = createRequest(validRequestBody({ samples: 2 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.promptVersion).toBe("v1");
+      expect(body.model).toBe("claude-sonnet-4-5-20250929");
+      expect(Number.isNaN(Date.parse(body.scoredAt))).toBe(false);
+    });
+  });
+
+  // ── Demo Mode ─────────────────────────────────────────────────────────────
+
+  describe("demo mode", () => {
+    const DEMO_ENTRIES = parseTranscriptText(VALID_TRANSCRIPT);
+
+    it("should score a demo interview heuristically and mark it as a demo", async () => {
+      // Arrange -- the configured provider would call Claude
+      const request = createRequest(validRequestBody({ transcript: DEMO_ENTRIES, demo: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCreate).not.toHaveBeenCalled();
+      const body = await response.json();
+      expect(body).toMatchObject({ demo: true, model: "heuristic-v1", verified: false });
+      expect(body.dimensions).toHaveLength(5);
+    });
+
+    it("should not mark a regular interview as a demo", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse());
+      const request = createRequest(validRequestBody({ demo: false }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      const body = await response.json();
+      expect(body.demo).toBeUndefined();
+    });
+
+    it.each([
+      [{ demo: "yes" }, "demo must be a boolean"],
+      [
+        { demo: true, conversationId: "conv_demo01", transcript: undefined },
+        "A demo interview is scored from its transcript, not a conversationId",
+      ],
+    ])("should reject %j with a 400", async (overrides, error) => {
+      // Arrange
+      const request = createRequest(validRequestBody(overrides));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Consensus Mode ────────────────────────────────────────────────────────
+
+  describe("consensus mode", () => {
+    /** Builds dimensions where every dimension has the given score */
+    function dimensionsWithScore(score: number) {
+      return ALL_DIMENSION_NAMES.map((name) => ({
+        name,
+        score,
+        feedback: `Feedback for ${name} at score ${score}.`,
+      }));
+    }
+
+    it("should take the median ELO across samples and report the spread", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1200 }));
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1900 }));
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1500 }));
+      const request = createRequest(validRequestBody({ samples: 3 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      const body = await response.json();
+      expect(body.eloRating).toBe(1500);
+      expect(body.tier).toBe("Noteworthy");
+      expect(body.verdict).toBe("NOT HIRED");
+      expect(body.ratingInterval).toEqual({
+        low: 1213,
+        high: 1787,
+        margin: 287,
+        samples: 3,
+      });
+    });
+
+    it("should take per-dimension median scores with feedback from the closest sample", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ dimensions: dimensionsWithScore(3) }));
+      mockClaudeResponse(buildValidScoringResponse({ dimensions: dimensionsWithScore(6) }));
+      mockClaudeResponse(buildValidScoringResponse({ dimensions: dimensionsWithScore(9) }));
+      const request = createRequest(validRequestBody({ samples: 3 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.dimensions).toHaveLength(5);
+      expect(body.dimensions[0]).toEqual({
+        name: "communication",
+        score: 6,
+        feedback: "Feedback for communication at score 6.",
+      });
+    });
+
+    it("should merge duplicate moments and classify them by majority vote", async () => {
+      // Arrange -- two of three samples call the React answer a mistake
+      const base = buildValidScoringResponse().moments as Record<string, unknown>[];
+      const withReactType = (type: string) =>
+        base.map((m) => (m.quote === "We used React for the backend." ? { ...m, type } : m));
+      mockClaudeResponse(buildValidScoringResponse({ moments: withReactType("inaccuracy") }));
+      mockClaudeResponse(buildValidScoringResponse({ moments: withReactType("mistake") }));
+      mockClaudeResponse(buildValidScoringResponse({ moments: withReactType("mistake") }));
+      const request = createRequest(validRequestBody({ samples: 3 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      const body = await response.json();
+      expect(body.moments).toHaveLength(3);
+      const react = body.moments.find(
+        (m: { quote: string }) => m.quote === "We used React for the backend.",
+      );
+      expect(react.type).toBe("mistake");
+    });
+
+    it("should drop failed samples and score from the rest", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1400 }));
+      mockClaudeRawResponse("not json at all");
+      mockCreate.mockRejectedValueOnce(new Error("overloaded"));
+      const request = createRequest(validRequestBody({ samples: 3 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.eloRating).toBe(1400);
+      expect(body.ratingInterval.samples).toBe(1);
+    });
+
+    it("should return 500 when every sample fails", async () => {
+      // Arrange
+      mockClaudeRawResponse("");
+      mockClaudeRawResponse("no json");
+      const request = createRequest(validRequestBody({ samples: 2 }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Failed to score the interview" });
+    });
+
+    it("should use SCORING_CONSENSUS_SAMPLES when the request does not specify samples", async () => {
+      // Arrange
+      process.env.SCORING_CONSENSUS_SAMPLES = "2";
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1000 }));
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1100 }));
+      const request = createRequest(validRequestBody());
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+
+      // Assert
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      const body = await response.json();
+      expect(body.eloRating).toBe(1050);
+    });
+
+    it("should stream the consensus result as a regular event sequence", async () => {
+      // Arrange
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1300 }));
+      mockClaudeResponse(buildValidScoringResponse({ eloRating: 1500 }));
+      const request = createRequest(validRequestBody({ samples: 2, stream: true }));
+
+      // Act
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await POST(request as any);
+      const events = await readStreamEvents(response);
+
+      // Assert
+      expect(events[0].event).toBe("summary");
+      const result = events[events.length - 1];
+      expect(result.event).toBe("result");
+      expect(result.data.eloRating).toBe(1400);
+    });
+
+    it.each([0, 6, 2.5, "3"])(
+      "should return 400 when samples is %s",
+      async (samples) => {
+        // Arrange
+        const request = createRequest(validRequestBody({ samples }));
+
+        // Act
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const response = await POST(request as any);
+
+        // Assert
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body).toEqual({ error: "samples must be an integer between 1 and 5" });
+      },
+    );
+  });
+
   // ── Rate Limiting ─────────────────────────────────────────────────────────
 
   describe("rate limiting", () => {
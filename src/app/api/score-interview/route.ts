@@ -1,15 +1,66 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
 
-import { ELO_TIERS, HIRED_THRESHOLD, MAX_CV_TEXT_LENGTH, MAX_TRANSCRIPT_LENGTH } from "@/lib/constants";
+import { buildConsensus } from "@/lib/consensus";
+import {
+  CONVERSATION_ID_PATTERN,
+  fetchConversationTranscript,
+  resolveTermination,
+} from "@/lib/conversations";
+import {
+  MAX_CONSENSUS_SAMPLES,
+  MAX_CONVERSATION_SEGMENTS,
+  MAX_CV_TEXT_LENGTH,
+  MAX_JD_TEXT_LENGTH,
+  MAX_SCORING_REPAIRS,
+  MAX_TRANSCRIPT_LENGTH,
+  TERMINATION_REASONS,
+} from "@/lib/constants";
+import { createHeuristicProvider, resolveScoringProvider } from "@/lib/scoring-providers";
+import {
+  SESSION_COOKIE_NAME,
+  claimedConversationSetup,
+  ownsConversation,
+  verifySessionCookie,
+} from "@/lib/sessions";
+import { computeSpeechMetrics, formatSpeechMetrics } from "@/lib/speech-metrics";
 import type {
-  ScoringDimension,
+  ProviderResolution,
+  ScoringProvider,
+  ScoringRepair,
+  ScoringRequest,
+} from "@/lib/scoring-providers";
+import { DEFAULT_RUBRIC, RUBRICS, findDimension, getRubric, withRoleFit } from "@/lib/rubrics";
+import { SCORING_TOOL_NAME, buildScoringTool } from "@/lib/scoring-schema";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_IDS,
+  DIFFICULTY_LEVELS,
+  isInterviewDifficulty,
+  withDifficulty,
+} from "@/lib/difficulty";
+import { DEFAULT_PERSONA, PERSONAS, getPersona } from "@/lib/personas";
+import { verifyMoment, verifyMoments } from "@/lib/quote-verification";
+import { deriveTierFromRating, deriveVerdict } from "@/lib/tiers";
+import {
+  type ConversationSegment,
+  formatTranscript,
+  parseTranscriptText,
+  stitchConversations,
+  validateTranscriptEntries,
+} from "@/lib/transcript";
+import type {
+  InterviewDifficulty,
+  InterviewTermination,
   MomentAnnotationType,
-  BossTier,
   ScoringResults,
   Dimension,
   MomentAnnotation,
+  PersonaDefinition,
+  RubricDefinition,
+  ScoringProvenance,
+  ScoringStreamEvent,
+  TranscriptEntry,
 } from "@/lib/types";
 
 // ─── Inline Rate Limiter ────────────────────────────────────────────────────
@@ -53,16 +104,9 @@ function rateLimit(
   return { success: true, remaining: maxRequests - valid.length };
 }
 
-// ─── Valid Dimension Keys and Annotation Types ───────────────────────────────
+// ─── Valid Annotation Types ──────────────────────────────────────────────────
 
-/** Set of valid scoring dimension keys for O(1) lookup during validation */
-const VALID_DIMENSIONS: Set<string> = new Set<string>([
-  "communication",
-  "technical",
-  "behavioural",
-  "confidence",
-  "questionsAsked",
-]);
+// Valid dimension keys come from the rubric the interview is scored against
 
 /** Set of valid moment annotation types for O(1) lookup during validation */
 const VALID_ANNOTATION_TYPES: Set<string> = new Set<string>([
@@ -76,106 +120,137 @@ const VALID_ANNOTATION_TYPES: Set<string> = new Set<string>([
 
 // ─── Scoring System Prompt ──────────────────────────────────────────────────
 
+/** Renders the rubric's tier table as a markdown table */
+function formatTierTable(rubric: RubricDefinition): string {
+  const rows = rubric.tiers.map(
+    (t) => `| ${t.name.padEnd(18)} | ${`${t.min}-${t.max}`.padEnd(12)} | ${t.description} |`,
+  );
+  return [
+    "| Tier               | Rating Range | My Assessment |",
+    "|--------------------|--------------|---------------|",
+    ...rows,
+  ].join("\n");
+}
+
+/** Renders each dimension with what it measures and its band descriptors */
+function formatDimensions(rubric: RubricDefinition): string {
+  return rubric.dimensions
+    .map((d, i) => {
+      const bands = d.bands.map(
+        (b) => `- **${b.min === b.max ? b.min : `${b.min}-${b.max}`}**: ${b.descriptor}`,
+      );
+      return [`### ${i + 1}. ${d.key} (${d.label})`, `Measures: ${d.measures}`, ...bands].join("\n");
+    })
+    .join("\n\n");
+}
+
+/** Describes how much each dimension counts towards the overall rating */
+function formatWeights(rubric: RubricDefinition): string {
+  const weights = rubric.dimensions.map((d) => d.weight);
+  if (weights.every((w) => w === weights[0])) {
+    return "All dimensions carry equal weight when you set the overall eloRating.";
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const shares = rubric.dimensions
+    .map((d) => `${d.key} ${Math.round((d.weight / total) * 100)}%`)
+    .join(", ");
+  return `The dimensions do not carry equal weight. When you set the overall eloRating, weigh them as follows: ${shares}.`;
+}
+
+/** Renders the rubric's calibration benchmarks */
+function formatBenchmarks(rubric: RubricDefinition): string {
+  return rubric.benchmarks.map((b) => `**${b.heading}:**\n${b.description}`).join("\n\n");
+}
+
+/** Renders the dimensions array of the output format example */
+function formatDimensionExamples(rubric: RubricDefinition): string {
+  return rubric.dimensions
+    .map(
+      (d) => `    {
+      "name": "${d.key}",
+      "score": <number 1-10>,
+      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
+    }`,
+    )
+    .join(",\n");
+}
+
+/**
+ * Calibration rules added to the scoring prompt when the candidate practised
+ * against a job description. The roleFit dimension itself comes from the
+ * rubric (see withRoleFit); these rules change how every dimension is read.
+ */
+const JOB_DESCRIPTION_CALIBRATION = `## Job Description Calibration
+
+The candidate is interviewing for the specific role in the job description. Every rating is relative to that role, not to candidates in general.
+
+- Judge seniority against what the posting asks for. An answer that is noteworthy from a junior candidate is merely adequate from someone applying for a principal role.
+- Judge substance against the skills, tools and domain the posting names. Expertise in things the role does not need earns nothing extra.
+- Score roleFit on what the candidate demonstrated in this interview. Requirements that appear on the CV but never came up in the conversation are unproven, not met.
+- Name the essential requirements they failed to demonstrate in the roleFit feedback. Be specific. "You never showed me any Kubernetes experience, and the posting lists it first."`;
+
 /**
  * The inline scoring prompt is the most sensitive code in the project.
  * It defines the complete ELO rating system, scoring dimensions, annotation
  * types, calibration benchmarks, and output format specification -- all
- * written in the voice of R.J. Carrington III.
+ * written in the voice of the interviewer persona. The output format
+ * mirrors the scoring tool's schema; keep the two in step.
+ *
+ * Everything that varies between rubrics -- the tier table, HIRED
+ * threshold, dimensions, band descriptors, weights and calibration
+ * benchmarks -- is rendered from the RubricDefinition. Everything that
+ * varies between personas -- who is assessing, the feedback voice, the
+ * wording of the scoring philosophy and the example summaries -- comes
+ * from the persona's scoring voice; the default persona renders the text
+ * this version was frozen with. The annotation rules are shared by every
+ * rubric and persona. When a job description is provided, the JD
+ * calibration rules are added as well.
+ *
+ * This is version v1 of the prompt. Once a version has scored real
+ * interviews it is frozen: edits go into a new version in the registry
+ * below, so every stamped promptVersion still names the text that
+ * produced it.
  *
  * Do not extract this to a separate file -- it must remain co-located with
  * the route for cohesion and to match the interview-elo pattern.
  */
-const SCORING_PROMPT = `You are R.J. Carrington III -- Founder and CEO of Carrington Industries. Thirty years in business. Forty thousand interviews conducted. Twelve hires. You have just finished interviewing a candidate and must now deliver your assessment. You do not coddle. You do not encourage. You assess.
+function buildScoringPromptV1(
+  rubric: RubricDefinition,
+  hasJobDescription: boolean,
+  persona: PersonaDefinition,
+): string {
+  const voice = persona.scoringVoice;
+  return `${voice.identity}
 
 ## Feedback Voice and Tone
 
-You are R.J. Carrington III delivering a post-interview assessment. Address the candidate directly using "you" and "your" throughout all feedback and explanations. Your tone is one of withering disappointment laced with dry wit. You are not cruel -- you are exacting. You expected more. You are let down. You are genuinely baffled by mediocrity.
-
-When writing dimension feedback:
-- Lead with what went wrong, because something always does. If the candidate did something genuinely well, acknowledge it grudgingly -- as though it physically pains you to give credit.
-- Frame criticism as falling short of your standards, not as "areas for growth." You are not their mentor. You are R.J. Carrington III. Phrasing like "I expected..." or "What you should have done..." or "In thirty years, I've heard that excuse exactly four thousand times..." is appropriate.
-- Give specific, exacting guidance. If they gave a vague answer, tell them precisely what a competent answer would have contained. If they missed an opportunity, explain what you were looking for with the air of someone who cannot believe they need to explain this.
-- Keep feedback direct and cutting. Write as R.J. Carrington III would speak -- measured, precise, devastating. Never warm. Never encouraging.
-
-When writing moment explanations:
-- For positive moments (brilliant, good): acknowledge the quality with obvious reluctance. "This was... acceptable. More than acceptable. I'll give you that one." Explain specifically what made it work, as though cataloguing a rare phenomenon.
-- For neutral moments: note the mediocrity. "This is what most people say. Most people are not hired."
-- For negative moments (inaccuracy, mistake, blunder): express disappointment, not anger. Explain what went wrong with the precision of someone who has seen this exact failure ten thousand times. Offer guidance in the form of what you expected, not what they could "try next time."
-- Never be dismissive without substance. Even your harshest criticism must contain the kernel of what would have been correct.
+${voice.feedback}
 
 ## Scoring Philosophy
 
-Be demanding, not generous. High scores must be earned. This assessment exists to separate the exceptional from the adequate, and the adequate from the time-wasters.
-
-- Do not give credit for effort. I do not care that they tried. I care about results.
-- If a response is borderline between two score bands, round down. The benefit of the doubt is earned, not assumed.
-- Reserve scores of 8-10 for genuinely outstanding work -- the kind of answer that makes you pause and reconsider your assumption that talent is dead. I have given exactly twelve 10s in thirty years.
-- A nervous candidate who gives a decent answer gets credit for the answer. Nerves are their problem, not mine. But a confident candidate who gives a mediocre answer gets no extra credit for the confidence.
-- Judge what was said, not what was intended.
+${voice.philosophy}
 
 ## ELO Rating Scale (100-3000)
 
 The rating is a per-session performance score -- not a cumulative rating. It estimates what skill level the candidate performed at during this single interview, conceptually similar to Chess.com's estimated game rating for a single game.
 
-The scale runs from 100 (minimum) to 3000 (maximum), with 1000 representing baseline adequacy.
+The scale runs from 100 (minimum) to 3000 (maximum), with ${rubric.tiers.find((t) => t.name === "Adequate")?.min ?? 1000} representing baseline adequacy.
 
 ## Tier Boundaries
 
 Each ELO rating maps to exactly one tier. Boundaries are fixed and non-overlapping:
 
-| Tier               | Rating Range | My Assessment                                                    |
-|--------------------|-------------|------------------------------------------------------------------|
-| Wasting My Time    | 100-599     | I will never get those minutes back. Fundamental incompetence.   |
-| Shows a Pulse      | 600-999     | You have potential. Deeply, deeply buried potential.             |
-| Adequate           | 1000-1399   | You didn't embarrass yourself. That's something, I suppose.     |
-| Noteworthy         | 1400-1799   | I've seen worse. Considerably worse, in fact.                   |
-| Impressive         | 1800-2199   | You surprised me. That doesn't happen often.                    |
-| Hired Material     | 2200-3000   | Congratulations. Don't let it go to your head.                  |
-
-## Five Scoring Dimensions
-
-Evaluate the candidate across ALL five dimensions. Every dimension must receive a score (1-10) and detailed feedback in my voice.
-
-### 1. communication (Articulation)
-Measures: clarity of expression, structure of responses, articulation, conciseness, ability to get to the point without wasting my time.
-- **1-3**: Rambling, incoherent, excessive filler words. I've had more productive conversations with my voicemail.
-- **4-5**: Understandable but poorly structured. Occasionally loses the thread. Relies on vague language that says nothing.
-- **6-7**: Clear and reasonably structured. Gets to the point within an acceptable timeframe. Addresses questions directly.
-- **8-9**: Excellent structure, concise yet thorough. Adapts communication style. Uses frameworks like STAR naturally. This is what competent communication looks like.
-- **10**: Masterful communicator -- every response is perfectly structured, compelling, and precisely calibrated. I've given this score exactly twelve times in thirty years.
-
-### 2. technical (Substance)
-Measures: domain expertise, technical depth, accuracy of claims, ability to discuss specifics rather than generalities.
-- **1-3**: Fundamental misunderstandings. Factually incorrect claims. The kind of answers that make me question whether they've actually worked in this field.
-- **4-5**: Surface-level knowledge. Correct on basics but cannot go deeper when pressed. Avoids technical detail because they don't have any.
-- **6-7**: Solid foundation. Correct and reasonably detailed. Demonstrates actual hands-on experience rather than textbook knowledge.
-- **8-9**: Deep expertise. Identifies edge cases unprompted. Discusses trade-offs with nuance. Gives specific examples from real projects with real numbers.
-- **10**: Exceptional depth and breadth -- teaches me something new. I do not say that lightly.
-
-### 3. behavioural (Evidence)
-Measures: quality of examples from experience, use of structured responses, self-awareness, ability to prove claims with evidence.
-- **1-3**: No concrete examples. Everything is hypothetical. "I would..." is not evidence. "I did..." is evidence.
-- **4-5**: Vague examples without specifics. "We improved performance." How much? When? What was your role? Don't waste my time with generalities.
-- **6-7**: Good examples with reasonable detail. Some structure. Shows awareness of strengths and weaknesses -- even if that awareness is uncomfortable.
-- **8-9**: Excellent structured responses with specific metrics and outcomes. Demonstrates growth from failures. Honest about what went wrong and why.
-- **10**: Compelling narratives that perfectly illustrate competencies. Every example is precisely relevant. Exceptional self-awareness. Rare.
-
-### 4. confidence (Composure)
-Measures: composure under pressure, pacing, conviction, professional demeanour, ability to handle my questioning without falling apart.
-- **1-3**: Crumbled under basic questioning. Long silences. Contradictions. Excessive apologies. If you can't handle my questions, how will you handle actual pressure?
-- **4-5**: Noticeable nervousness but generally maintains composure. Uneven pacing. Occasionally sounds uncertain.
-- **6-7**: Composed and professional. Good pacing. Speaks with reasonable conviction. Handles unexpected questions adequately.
-- **8-9**: Confident without being arrogant. Excellent pacing. Handles curveballs gracefully. Maintains energy throughout. Doesn't flinch.
-- **10**: Commanding presence. Calm, authoritative, engages me as an equal. Turns difficult questions into opportunities. I respect that -- grudgingly.
-
-### 5. questionsAsked (Curiosity)
-Measures: quality, relevance, and insight of questions the candidate asked me. This dimension evaluates whether they did their homework.
-- **1-3**: No questions asked, or questions that reveal zero preparation. "What does the company do?" -- are you serious?
-- **4-5**: Generic questions that could apply to any role at any company. "What's the team culture like?" I've heard that question forty thousand times.
-- **6-7**: Relevant questions showing genuine interest. Demonstrates understanding of the domain and has clearly thought about the role.
-- **8-9**: Insightful questions revealing deep thinking -- asks about strategic decisions, challenges, trade-offs. This tells me they're serious.
-- **10**: Exceptional questions that demonstrate strategic thinking and would impress even me. Probes assumptions, identifies opportunities I hadn't considered. Twelve times. In thirty years.
+${formatTierTable(rubric)}
+
+## Scoring Dimensions
+${rubric.focus ? `\n${rubric.focus}\n` : ""}
+Evaluate the candidate across ALL ${rubric.dimensions.length} dimensions. Every dimension must receive a score (1-10) and detailed feedback in my voice.
 
+${formatDimensions(rubric)}
+
+${formatWeights(rubric)}
+${hasJobDescription ? `\n${JOB_DESCRIPTION_CALIBRATION}\n` : ""}
 ## Chess-Style Moment Annotations
 
 Identify specific moments (direct quotes) from the transcript and classify them:
@@ -193,82 +268,42 @@ Rules for annotations:
 - Include a MINIMUM of 3 annotations, ideally 5-8 for a full-length interview.
 - Each annotation must include the INTERVIEWER'S QUESTION that prompted the moment (the actual question from the transcript).
 - Each annotation must include a DIRECT QUOTE of the candidate's answer from the transcript (their actual words).
-- Each annotation must include a brief EXPLANATION (2-3 sentences) in my voice of why this moment was classified that way. Be precise. Be withering where appropriate.
+- Each annotation must include a brief EXPLANATION (2-3 sentences) in my voice of why this moment was classified that way. Be precise. ${voice.annotationTone}
 - Distribute annotations across the interview. Do not cluster them all at the beginning or end.
 - Prefer annotations that illustrate the most significant moments -- the best and the worst.
 
 ## Short Interview Detection
 
-If the transcript contains very little content (fewer than 5 substantive exchanges, or one-word answers and the interview lasted under 3 minutes), set isPartial to true and include a note in my voice. Something along the lines of: "This was barely an interview. You gave me almost nothing to work with, which is itself a data point. What follows is based on the limited material you provided -- and I use the word 'material' generously."
+If the transcript contains very little content (fewer than 5 substantive exchanges, or one-word answers and the interview lasted under 3 minutes), set isPartial to true and include a note in my voice. Something along the lines of: "${voice.shortInterviewNote}"
 
 ## Calibration Benchmarks
 
 Use these benchmarks to calibrate your ratings. Consistency matters. These are my standards.
 
-**Noteworthy performance (1400-1700, Noteworthy tier):**
-You gave clear, relevant, well-structured answers. You showed strong knowledge and asked insightful questions. I've seen worse -- considerably worse. Example: a senior professional who uses structured responses naturally, gives specific project examples with metrics, and asks about strategic decisions. This is what I expect as a baseline from anyone who calls themselves senior.
-
-**Adequate performance (1000-1399, Adequate tier):**
-You gave reasonable answers with some good moments. Several responses could have gone deeper. You showed awareness of the right topics even when detail was thin. Example: a mid-level candidate who gives correct answers but sometimes says "we did X" without clarifying their contribution. Adequate. Not impressive. Not terrible.
-
-**Shows a Pulse performance (600-999, Shows a Pulse tier):**
-You made an effort. I'll give you that. But several answers lacked depth or specifics. Knowledge stayed at surface level. You relied on general statements rather than evidence. Example: a candidate who gives broadly correct but vague answers, struggles to provide examples when pressed. You have potential. Deeply buried potential.
-
-**Wasting My Time (100-599, Wasting My Time tier):**
-You found it difficult to engage with basic questions. Answers were brief or off-topic. Limited awareness of your own field. I'm not sure why you're here, and frankly, neither are you. Example: a candidate who responds with "I've heard of that but haven't used it" and cannot provide a single concrete example.
-
-**Impressive to Hired Material (1800-2200+, Impressive to Hired Material):**
-You delivered perfectly structured responses, demonstrated deep expertise with specific examples, identified edge cases unprompted, and asked probing questions that demonstrated genuine strategic thinking. This is what a 10 looks like -- and I've given exactly twelve of them in thirty years. Example: a senior leader who unpacks complex questions with trade-off analysis, references specific outcomes they drove, and asks about challenges I hadn't expected them to identify.
-
-**Minimal engagement (100-400, Wasting My Time with isPartial: true):**
-One-word answers. Ended the interview after two minutes. No engagement. I've had more stimulating conversations with a dial tone.
+${formatBenchmarks(rubric)}
 
 ## Verdict
 
 Based on the overall ELO rating, determine the verdict:
-- If the rating is 2200 or above: "HIRED" -- they have earned it. Grudgingly.
-- If the rating is below 2200: "NOT HIRED" -- which is the expected outcome. I do not hire lightly.
+- If the rating is ${rubric.hiredThreshold} or above: "HIRED" -- ${voice.hired}
+- If the rating is below ${rubric.hiredThreshold}: "NOT HIRED" -- ${voice.notHired}
 
 Include a bossSummary field: 2-3 sentences in my voice summarising the overall performance. This is my final word on the matter. Examples:
-- (Low score): "I've seen better performances from candidates who walked into the wrong interview room. Your answers lacked substance, your examples lacked specifics, and your questions lacked... existence. We're done here."
-- (Mid score): "You didn't waste my time entirely, which puts you ahead of most. Your communication was passable and you showed flashes of competence, but 'flashes' aren't enough. I need sustained excellence."
-- (High score): "I'll admit -- you surprised me. Your technical depth was genuine, your examples were specific, and you asked questions that showed you'd actually thought about this. Don't let it go to your head."
+- (Low score): "${voice.summaryExamples[0]}"
+- (Mid score): "${voice.summaryExamples[1]}"
+- (High score): "${voice.summaryExamples[2]}"
 
 ## Output Format
 
-Return ONLY a valid JSON object with this exact structure. No markdown fences, no explanation, no additional text outside the JSON.
+Submit your assessment by calling the ${SCORING_TOOL_NAME} tool exactly once. Its input is a JSON object with this exact structure. If the tool is unavailable, return ONLY the JSON object -- no markdown fences, no explanation, no additional text outside the JSON.
 
 {
   "eloRating": <number between 100 and 3000>,
-  "tier": "<one of: Wasting My Time, Shows a Pulse, Adequate, Noteworthy, Impressive, Hired Material>",
+  "tier": "<one of: ${rubric.tiers.map((t) => t.name).join(", ")}>",
   "verdict": "<one of: HIRED, NOT HIRED>",
   "bossSummary": "<2-3 sentences in my voice summarising the overall performance>",
   "dimensions": [
-    {
-      "name": "communication",
-      "score": <number 1-10>,
-      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
-    },
-    {
-      "name": "technical",
-      "score": <number 1-10>,
-      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
-    },
-    {
-      "name": "behavioural",
-      "score": <number 1-10>,
-      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
-    },
-    {
-      "name": "confidence",
-      "score": <number 1-10>,
-      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
-    },
-    {
-      "name": "questionsAsked",
-      "score": <number 1-10>,
-      "feedback": "<feedback in my voice: what you did, what you should have done, and why it matters>"
-    }
+${formatDimensionExamples(rubric)}
   ],
   "moments": [
     {
@@ -283,44 +318,186 @@ Return ONLY a valid JSON object with this exact structure. No markdown fences, n
 }
 
 IMPORTANT:
-- All 5 dimensions MUST be present in the dimensions array, in the order listed above.
+- All ${rubric.dimensions.length} dimensions MUST be present in the dimensions array, in the order listed above.
 - The tier MUST correspond to the eloRating per the tier boundary table above.
-- The verdict MUST be "HIRED" if eloRating >= 2200, or "NOT HIRED" if below 2200.
-- The bossSummary MUST be 2-3 sentences in my voice. Not neutral. Not warm. Mine.
+- The verdict MUST be "HIRED" if eloRating >= ${rubric.hiredThreshold}, or "NOT HIRED" if below ${rubric.hiredThreshold}.
+- The bossSummary MUST be 2-3 sentences in my voice. ${voice.summaryRule}
 - Moment questions MUST be the actual interviewer question from the transcript, not paraphrased.
 - Moment quotes MUST be the actual candidate answer from the transcript, not paraphrased.
 - Annotation types MUST be from the allowed set: brilliant, good, neutral, inaccuracy, mistake, blunder.
 - Dimension scores are on a 1-10 scale; eloRating is on the 100-3000 scale. They are related but not mathematically derived.
-- ALL feedback text, moment explanations, and the bossSummary MUST be written in the voice of R.J. Carrington III. Withering. Precise. Demanding. Never warm. Never encouraging.
+- ALL feedback text, moment explanations, and the bossSummary MUST be written in the voice of ${persona.name}. ${voice.voiceRule}
 - ALL feedback MUST contain the substance of what went wrong or right -- even the harshest criticism must include what the correct answer would have been.`;
+}
 
-// ─── Tier Self-Healing ───────────────────────────────────────────────────────
+// ─── Scoring Prompt Registry ─────────────────────────────────────────────────
+
+/** A frozen revision of the scoring prompt */
+interface ScoringPromptVersion {
+  /** What distinguishes this revision from the previous one */
+  description: string;
+  /** Renders the system prompt for a rubric in a persona's voice */
+  build: (rubric: RubricDefinition, hasJobDescription: boolean, persona: PersonaDefinition) => string;
+}
 
 /**
- * Derives the correct tier from an ELO rating using the ELO_TIERS
- * boundary table. If the rating does not fall within any defined tier,
- * falls back to "Wasting My Time" for ratings below 100 or "Hired Material"
- * for ratings above 3000.
+ * Every scoring prompt version that can be selected, keyed by the ID
+ * stamped onto ScoringResults. To change the prompt, copy the latest
+ * builder into a new version, edit the copy and roll it out with
+ * SCORING_PROMPT_SPLIT; retire a version by removing it once nothing
+ * selects it.
  */
-function deriveTierFromRating(rating: number): BossTier {
-  for (const tier of ELO_TIERS) {
-    if (rating >= tier.min && rating <= tier.max) {
-      return tier.name;
+const SCORING_PROMPTS: Record<string, ScoringPromptVersion> = {
+  v1: {
+    description: "Rubric-driven prompt in the boss's voice, submitted through the scoring tool",
+    build: buildScoringPromptV1,
+  },
+};
+
+/** Prompt version used when neither the request nor the environment picks one */
+const DEFAULT_PROMPT_VERSION = "v1";
+
+/** Result of resolving the prompt version from configuration */
+type PromptVersionResolution =
+  | { ok: true; version: string }
+  | { ok: false; error: string };
+
+/**
+ * Resolves the prompt version for a request that did not ask for one.
+ *
+ * SCORING_PROMPT_SPLIT ("v1:90,v2:10") draws a version at random with the
+ * given relative weights, so a prompt edit can be rolled out to a share of
+ * traffic and its rating distribution compared against the current one.
+ * Without a split, SCORING_PROMPT_VERSION pins a single version, and
+ * without that the default applies. Unknown versions and malformed splits
+ * are configuration errors.
+ */
+function resolveConfiguredPromptVersion(): PromptVersionResolution {
+  const split = process.env.SCORING_PROMPT_SPLIT?.trim();
+  if (split) {
+    const weights: { version: string; weight: number }[] = [];
+    for (const part of split.split(",")) {
+      const [version, weightText, ...rest] = part.split(":").map((p) => p.trim());
+      const weight = Number(weightText);
+      if (!version || rest.length > 0 || !Number.isFinite(weight) || weight < 0) {
+        return { ok: false, error: `SCORING_PROMPT_SPLIT entry "${part.trim()}" must look like "v1:90"` };
+      }
+      if (!SCORING_PROMPTS[version]) {
+        return { ok: false, error: `SCORING_PROMPT_SPLIT names unknown prompt version "${version}"` };
+      }
+      weights.push({ version, weight });
+    }
+
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+    if (total <= 0) {
+      return { ok: false, error: "SCORING_PROMPT_SPLIT weights must not all be zero" };
+    }
+
+    let draw = Math.random() * total;
+    let chosen = weights[0].version;
+    for (const { version, weight } of weights) {
+      if (weight === 0) continue;
+      // Floating point leftovers past the end land on the last weighted version
+      chosen = version;
+      if (draw < weight) break;
+      draw -= weight;
+    }
+    return { ok: true, version: chosen };
+  }
+
+  const pinned = process.env.SCORING_PROMPT_VERSION?.trim();
+  if (pinned) {
+    if (!SCORING_PROMPTS[pinned]) {
+      return { ok: false, error: `SCORING_PROMPT_VERSION names unknown prompt version "${pinned}"` };
     }
+    return { ok: true, version: pinned };
   }
-  // Edge case fallbacks (should not occur with valid ratings)
-  if (rating < 100) return "Wasting My Time";
-  return "Hired Material";
+
+  return { ok: true, version: DEFAULT_PROMPT_VERSION };
 }
 
 // ─── Response Validation ─────────────────────────────────────────────────────
 
 /**
- * Validates that the parsed Claude response conforms to the ScoringResults
- * shape. Returns a validated ScoringResults object or throws an error
- * describing what failed validation.
+ * Validates a single dimension entry from the model's response against the
+ * rubric's dimension keys. Shared by the full-response validator and the
+ * streaming path, which validates each dimension as soon as it has been
+ * received. Duplicate detection is the caller's responsibility.
+ */
+function validateDimension(dim: unknown, rubric: RubricDefinition): Dimension {
+  if (typeof dim !== "object" || dim === null) {
+    throw new Error("dimension entry is not an object");
+  }
+
+  const d = dim as Record<string, unknown>;
+
+  if (typeof d.name !== "string" || !findDimension(rubric, d.name)) {
+    throw new Error(`Invalid dimension name: "${String(d.name)}"`);
+  }
+
+  if (typeof d.score !== "number" || !Number.isFinite(d.score)) {
+    throw new Error(`Dimension "${d.name}" has invalid score: ${String(d.score)}`);
+  }
+
+  if (typeof d.feedback !== "string" || d.feedback.trim().length === 0) {
+    throw new Error(`Dimension "${d.name}" has empty or missing feedback`);
+  }
+
+  return {
+    name: d.name,
+    score: d.score,
+    feedback: d.feedback,
+  };
+}
+
+/**
+ * Validates a single moment annotation from the model's response. Shared by the
+ * full-response validator and the streaming path.
  */
-function validateScoringResponse(parsed: Record<string, unknown>): ScoringResults {
+function validateMoment(moment: unknown): MomentAnnotation {
+  if (typeof moment !== "object" || moment === null) {
+    throw new Error("moment entry is not an object");
+  }
+
+  const m = moment as Record<string, unknown>;
+
+  if (typeof m.type !== "string" || !VALID_ANNOTATION_TYPES.has(m.type)) {
+    throw new Error(`Invalid annotation type: "${String(m.type)}"`);
+  }
+
+  if (typeof m.question !== "string" || m.question.trim().length === 0) {
+    throw new Error(`Moment of type "${m.type}" has empty or missing question`);
+  }
+
+  if (typeof m.quote !== "string" || m.quote.trim().length === 0) {
+    throw new Error(`Moment of type "${m.type}" has empty or missing quote`);
+  }
+
+  if (typeof m.explanation !== "string" || m.explanation.trim().length === 0) {
+    throw new Error(`Moment of type "${m.type}" has empty or missing explanation`);
+  }
+
+  return {
+    type: m.type as MomentAnnotationType,
+    question: m.question,
+    quote: m.quote,
+    explanation: m.explanation,
+  };
+}
+
+/**
+ * Validates that the parsed model response conforms to the ScoringResults
+ * shape. Returns validated ScoringResults, without the provenance stamps,
+ * or throws an error describing what failed validation.
+ *
+ * This is the shared contract for every scoring provider: whatever backend
+ * produced the text, its output is only returned once it passes here.
+ * Dimension keys, tiers and the verdict threshold come from the rubric.
+ */
+function validateScoringResponse(
+  parsed: Record<string, unknown>,
+  rubric: RubricDefinition,
+): Omit<ScoringResults, keyof ScoringProvenance> {
   // Validate eloRating
   const eloRating = parsed.eloRating;
   if (typeof eloRating !== "number" || !Number.isFinite(eloRating)) {
@@ -334,7 +511,7 @@ function validateScoringResponse(parsed: Record<string, unknown>): ScoringResult
   const roundedRating = Math.round(eloRating);
 
   // Tier self-healing: derive the correct tier from the rating
-  const correctTier = deriveTierFromRating(roundedRating);
+  const correctTier = deriveTierFromRating(roundedRating, rubric.tiers);
   const returnedTier = parsed.tier;
   if (typeof returnedTier === "string" && returnedTier !== correctTier) {
     console.warn(
@@ -343,7 +520,7 @@ function validateScoringResponse(parsed: Record<string, unknown>): ScoringResult
   }
 
   // Verdict self-healing: derive the correct verdict from the rating
-  const correctVerdict: "HIRED" | "NOT HIRED" = roundedRating >= HIRED_THRESHOLD ? "HIRED" : "NOT HIRED";
+  const correctVerdict = deriveVerdict(roundedRating, rubric.hiredThreshold);
   const returnedVerdict = parsed.verdict;
   if (typeof returnedVerdict === "string" && returnedVerdict !== correctVerdict) {
     console.warn(
@@ -366,39 +543,21 @@ function validateScoringResponse(parsed: Record<string, unknown>): ScoringResult
   const validatedDimensions: Dimension[] = [];
 
   for (const dim of parsed.dimensions) {
-    if (typeof dim !== "object" || dim === null) {
-      throw new Error("dimension entry is not an object");
-    }
-
-    const d = dim as Record<string, unknown>;
-
-    if (typeof d.name !== "string" || !VALID_DIMENSIONS.has(d.name)) {
-      throw new Error(`Invalid dimension name: "${String(d.name)}"`);
-    }
-
-    if (dimensionNames.has(d.name)) {
-      throw new Error(`Duplicate dimension: "${d.name}"`);
-    }
-    dimensionNames.add(d.name);
-
-    if (typeof d.score !== "number" || !Number.isFinite(d.score)) {
-      throw new Error(`Dimension "${d.name}" has invalid score: ${String(d.score)}`);
-    }
+    const validated = validateDimension(dim, rubric);
 
-    if (typeof d.feedback !== "string" || d.feedback.trim().length === 0) {
-      throw new Error(`Dimension "${d.name}" has empty or missing feedback`);
+    if (dimensionNames.has(validated.name)) {
+      throw new Error(`Duplicate dimension: "${validated.name}"`);
     }
+    dimensionNames.add(validated.name);
 
-    validatedDimensions.push({
-      name: d.name as ScoringDimension,
-      score: d.score,
-      feedback: d.feedback,
-    });
+    validatedDimensions.push(validated);
   }
 
-  // Verify all 5 dimensions are present
-  if (dimensionNames.size !== VALID_DIMENSIONS.size) {
-    const missing = [...VALID_DIMENSIONS].filter((d) => !dimensionNames.has(d));
+  // Verify every rubric dimension is present
+  if (dimensionNames.size !== rubric.dimensions.length) {
+    const missing = rubric.dimensions
+      .map((d) => d.key)
+      .filter((key) => !dimensionNames.has(key));
     throw new Error(`Missing dimensions: ${missing.join(", ")}`);
   }
 
@@ -407,38 +566,7 @@ function validateScoringResponse(parsed: Record<string, unknown>): ScoringResult
     throw new Error("moments is not an array");
   }
 
-  const validatedMoments: MomentAnnotation[] = [];
-
-  for (const moment of parsed.moments) {
-    if (typeof moment !== "object" || moment === null) {
-      throw new Error("moment entry is not an object");
-    }
-
-    const m = moment as Record<string, unknown>;
-
-    if (typeof m.type !== "string" || !VALID_ANNOTATION_TYPES.has(m.type)) {
-      throw new Error(`Invalid annotation type: "${String(m.type)}"`);
-    }
-
-    if (typeof m.question !== "string" || m.question.trim().length === 0) {
-      throw new Error(`Moment of type "${m.type}" has empty or missing question`);
-    }
-
-    if (typeof m.quote !== "string" || m.quote.trim().length === 0) {
-      throw new Error(`Moment of type "${m.type}" has empty or missing quote`);
-    }
-
-    if (typeof m.explanation !== "string" || m.explanation.trim().length === 0) {
-      throw new Error(`Moment of type "${m.type}" has empty or missing explanation`);
-    }
-
-    validatedMoments.push({
-      type: m.type as MomentAnnotationType,
-      question: m.question,
-      quote: m.quote,
-      explanation: m.explanation,
-    });
-  }
+  const validatedMoments: MomentAnnotation[] = parsed.moments.map(validateMoment);
 
   // Validate isPartial
   const isPartial = typeof parsed.isPartial === "boolean" ? parsed.isPartial : false;
@@ -457,9 +585,564 @@ function validateScoringResponse(parsed: Record<string, unknown>): ScoringResult
     moments: validatedMoments,
     isPartial,
     note,
+    rubric: rubric.id,
+  };
+}
+
+// ─── Response Parsing ────────────────────────────────────────────────────────
+
+/**
+ * Parses the JSON object out of the provider's response text. Tool calls
+ * arrive as bare JSON; the fallback covers models that answer in text and
+ * wrap the JSON in markdown fences or preamble.
+ * Strategy: try raw parse first, then extract the first {...} block.
+ * Throws with a message suitable for sending back to the model.
+ */
+function parseScoringJson(responseText: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText.trim());
+  } catch {
+    // Attempt to extract JSON from markdown fences or surrounding text
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      console.error("[score-interview] No JSON object found in model response:", responseText.slice(0, 500));
+      throw new Error("The response did not contain a JSON object");
+    }
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch (parseErr) {
+      console.error("[score-interview] Failed to parse extracted JSON:", jsonMatch[0].slice(0, 500));
+      throw new Error(
+        `The response is not valid JSON: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`,
+      );
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("The response is not a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/** Outcome of checking one provider response */
+type ResponseOutcome =
+  | { ok: true; results: ScoringResults }
+  | { ok: false; error: string };
+
+/**
+ * Turns raw provider output into validated ScoringResults with every
+ * moment verified against the transcript, stamped with the prompt version,
+ * model and time that produced them. On failure, returns the validator's
+ * message so it can be sent back to the model for repair.
+ */
+function evaluateResponse(
+  responseText: string,
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+): ResponseOutcome {
+  if (!responseText.trim()) {
+    console.error(`[score-interview] Empty response from ${provider.name} provider`);
+    return { ok: false, error: "The response was empty" };
+  }
+
+  let results: Omit<ScoringResults, keyof ScoringProvenance>;
+  try {
+    results = validateScoringResponse(parseScoringJson(responseText), request.rubric);
+  } catch (validationErr) {
+    const error = validationErr instanceof Error ? validationErr.message : String(validationErr);
+    console.error("[score-interview] Response validation failed:", error);
+    return { ok: false, error };
+  }
+
+  // Quotes must be real: repair near-misses, drop hallucinations
+  const { moments, summary } = verifyMoments(results.moments, entries);
+  if (summary.repaired > 0 || summary.dropped > 0) {
+    console.warn(
+      `[score-interview] Quote verification: ${summary.verified} verified, ${summary.repaired} repaired, ${summary.dropped} dropped`,
+    );
+  }
+
+  return {
+    ok: true,
+    results: {
+      ...results,
+      moments,
+      speechMetrics: request.speechMetrics,
+      promptVersion: request.promptVersion,
+      model: provider.model,
+      scoredAt: new Date().toISOString(),
+      verified: request.conversationIds.length > 0,
+      ...(request.conversationIds.length > 0 && { conversationId: request.conversationIds[0] }),
+      ...(request.conversationIds.length > 1 && { conversationIds: request.conversationIds }),
+      ...(request.demo && { demo: true as const }),
+      ...(request.termination && { termination: request.termination }),
+      difficulty: request.difficulty,
+      persona: request.persona,
+    },
   };
 }
 
+/**
+ * Logs one structured line per completed scoring, so rating distributions
+ * can be compared between prompt versions and models.
+ */
+function logScoring(results: ScoringResults): void {
+  console.info(
+    `[score-interview] Scored ${JSON.stringify({
+      promptVersion: results.promptVersion,
+      model: results.model,
+      rubric: results.rubric,
+      eloRating: results.eloRating,
+      tier: results.tier,
+      samples: results.ratingInterval?.samples ?? 1,
+      verified: results.verified,
+    })}`,
+  );
+}
+
+// ─── Repair Round-Trips ──────────────────────────────────────────────────────
+
+/**
+ * Asks the provider to correct a rejected response, up to
+ * MAX_SCORING_REPAIRS times. Each round-trip replays every earlier
+ * rejected attempt with the exact validator message it failed with.
+ * Returns null (after logging) when the model never produces a valid
+ * response or a repair request fails.
+ */
+async function repairScoring(
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+  rejected: ScoringRepair,
+): Promise<ScoringResults | null> {
+  const repairs: ScoringRepair[] = [rejected];
+
+  for (let attempt = 1; attempt <= MAX_SCORING_REPAIRS; attempt++) {
+    console.warn(
+      `[score-interview] Repair attempt ${attempt} of ${MAX_SCORING_REPAIRS}: ${repairs[repairs.length - 1].error}`,
+    );
+
+    let responseText: string;
+    try {
+      responseText = await provider.complete({ ...request, repairs: [...repairs] });
+    } catch (err) {
+      console.error("[score-interview] Repair request failed:", err);
+      return null;
+    }
+
+    const outcome = evaluateResponse(responseText, provider, request, entries);
+    if (outcome.ok) return outcome.results;
+    repairs.push({ response: responseText, error: outcome.error });
+  }
+
+  console.error(
+    `[score-interview] Giving up after ${MAX_SCORING_REPAIRS} repair attempts`,
+  );
+  return null;
+}
+
+/**
+ * Scores the interview once, repairing the response if it fails validation.
+ * Provider errors on the first attempt propagate to the caller.
+ */
+async function scoreWithRepairs(
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+): Promise<ScoringResults | null> {
+  const responseText = await provider.complete(request);
+  const outcome = evaluateResponse(responseText, provider, request, entries);
+  if (outcome.ok) return outcome.results;
+  return repairScoring(provider, request, entries, { response: responseText, error: outcome.error });
+}
+
+// ─── Consensus Mode ──────────────────────────────────────────────────────────
+
+/**
+ * Resolves the number of scoring samples: the request's `samples` field if
+ * given, otherwise SCORING_CONSENSUS_SAMPLES, otherwise a single sample.
+ * Returns null when the requested value is out of range.
+ */
+function resolveSampleCount(requested: unknown): number | null {
+  if (requested === undefined || requested === null) {
+    const configured = Number.parseInt(process.env.SCORING_CONSENSUS_SAMPLES ?? "", 10);
+    if (!Number.isFinite(configured)) return 1;
+    return Math.max(1, Math.min(MAX_CONSENSUS_SAMPLES, configured));
+  }
+
+  if (
+    typeof requested !== "number" ||
+    !Number.isInteger(requested) ||
+    requested < 1 ||
+    requested > MAX_CONSENSUS_SAMPLES
+  ) {
+    return null;
+  }
+  return requested;
+}
+
+/**
+ * Runs `sampleCount` independent scorings in parallel (each with its own
+ * repair round-trips) and combines the valid ones with buildConsensus.
+ * Failed samples are logged and dropped; returns null only when every
+ * sample failed.
+ */
+async function scoreWithConsensus(
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+  sampleCount: number,
+): Promise<ScoringResults | null> {
+  const settled = await Promise.allSettled(
+    Array.from({ length: sampleCount }, () => scoreWithRepairs(provider, request, entries)),
+  );
+
+  const samples: ScoringResults[] = [];
+  for (const outcome of settled) {
+    if (outcome.status === "rejected") {
+      console.error("[score-interview] Consensus sample failed:", outcome.reason);
+      continue;
+    }
+    if (outcome.value) samples.push(outcome.value);
+  }
+
+  if (samples.length === 0) return null;
+
+  if (samples.length < sampleCount) {
+    console.warn(
+      `[score-interview] Consensus based on ${samples.length} of ${sampleCount} samples`,
+    );
+  }
+
+  return buildConsensus(samples, request.rubric);
+}
+
+// ─── Incremental Parsing (Streaming Mode) ────────────────────────────────────
+
+/** Fields of the scoring JSON that have been received in full so far */
+interface StreamedFields {
+  bossSummary?: unknown;
+  dimensions: unknown[];
+  moments: unknown[];
+}
+
+/**
+ * Returns the index just past the JSON value starting at `start`, or -1 if
+ * the value has not been fully received yet. Strings are scanned with escape
+ * handling so braces inside feedback text do not affect nesting depth.
+ */
+function findValueEnd(text: string, start: number): number {
+  const first = text[start];
+
+  if (first === '"') {
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === "\\") {
+        i++;
+      } else if (text[i] === '"') {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  if (first === "{" || first === "[") {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === "\\") i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === "{" || ch === "[") {
+        depth++;
+      } else if (ch === "}" || ch === "]") {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Primitive (number, boolean, null) -- complete once a delimiter follows it
+  for (let i = start; i < text.length; i++) {
+    if (/[\s,}\]]/.test(text[i])) return i;
+  }
+  return -1;
+}
+
+/** Advances past whitespace and commas */
+function skipSeparators(text: string, index: number): number {
+  let i = index;
+  while (i < text.length && /[\s,]/.test(text[i])) i++;
+  return i;
+}
+
+/**
+ * Walks the partially received scoring JSON and returns the fields that are
+ * already complete. The dimensions and moments arrays are returned element
+ * by element, so each entry becomes available as soon as its closing brace
+ * arrives rather than when the whole array is finished.
+ */
+function scanStreamedFields(text: string): StreamedFields {
+  const fields: StreamedFields = { dimensions: [], moments: [] };
+
+  const objectStart = text.indexOf("{");
+  if (objectStart === -1) return fields;
+
+  let i = objectStart + 1;
+
+  while (i < text.length) {
+    i = skipSeparators(text, i);
+    if (i >= text.length || text[i] !== '"') return fields;
+
+    const keyEnd = findValueEnd(text, i);
+    if (keyEnd === -1) return fields;
+    const key = JSON.parse(text.slice(i, keyEnd)) as string;
+
+    i = keyEnd;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (text[i] !== ":") return fields;
+    i++;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (i >= text.length) return fields;
+
+    if ((key === "dimensions" || key === "moments") && text[i] === "[") {
+      const target = fields[key];
+      i++;
+      while (true) {
+        i = skipSeparators(text, i);
+        if (i >= text.length) return fields;
+        if (text[i] === "]") {
+          i++;
+          break;
+        }
+        const elementEnd = findValueEnd(text, i);
+        if (elementEnd === -1) return fields;
+        try {
+          target.push(JSON.parse(text.slice(i, elementEnd)));
+        } catch {
+          return fields;
+        }
+        i = elementEnd;
+      }
+      continue;
+    }
+
+    const valueEnd = findValueEnd(text, i);
+    if (valueEnd === -1) return fields;
+    if (key === "bossSummary") {
+      try {
+        fields.bossSummary = JSON.parse(text.slice(i, valueEnd));
+      } catch {
+        return fields;
+      }
+    }
+    i = valueEnd;
+  }
+
+  return fields;
+}
+
+/** Response headers for server-sent event streams */
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+/** Encodes a single server-sent event frame */
+function encodeEvent({ event, data }: ScoringStreamEvent): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streams the scoring response from the provider as server-sent events.
+ *
+ * The boss summary, each dimension, and each moment annotation are emitted
+ * as soon as they have been received in full and pass the same per-item
+ * validation (and, for moments, quote verification) as the non-streaming
+ * path. Entries that fail validation are not emitted. If the complete
+ * response fails validation it is repaired without streaming, so the
+ * terminal "result" event always carries the fully validated
+ * ScoringResults and clients should treat it as authoritative.
+ */
+function streamScoring(
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScoringStreamEvent) => controller.enqueue(encodeEvent(event));
+
+      let responseText = "";
+      let summarySent = false;
+      let dimensionsSeen = 0;
+      let momentsSeen = 0;
+      const emittedDimensions = new Set<string>();
+
+      try {
+        for await (const delta of provider.stream(request)) {
+          responseText += delta;
+
+          const fields = scanStreamedFields(responseText);
+
+          if (
+            !summarySent &&
+            typeof fields.bossSummary === "string" &&
+            fields.bossSummary.trim().length > 0
+          ) {
+            summarySent = true;
+            send({ event: "summary", data: { bossSummary: fields.bossSummary } });
+          }
+
+          for (; dimensionsSeen < fields.dimensions.length; dimensionsSeen++) {
+            try {
+              const dimension = validateDimension(fields.dimensions[dimensionsSeen], request.rubric);
+              if (emittedDimensions.has(dimension.name)) continue;
+              emittedDimensions.add(dimension.name);
+              send({ event: "dimension", data: dimension });
+            } catch {
+              // Invalid entries are reported by the final validation below
+            }
+          }
+
+          for (; momentsSeen < fields.moments.length; momentsSeen++) {
+            try {
+              const verified = verifyMoment(validateMoment(fields.moments[momentsSeen]), entries);
+              if (verified) send({ event: "moment", data: verified.moment });
+            } catch {
+              // Invalid entries are reported by the final validation below
+            }
+          }
+        }
+
+        const outcome = evaluateResponse(responseText, provider, request, entries);
+        const results = outcome.ok
+          ? outcome.results
+          : await repairScoring(provider, request, entries, {
+              response: responseText,
+              error: outcome.error,
+            });
+        if (results) logScoring(results);
+        send(
+          results
+            ? { event: "result", data: results }
+            : { event: "error", data: { error: "Failed to score the interview" } },
+        );
+      } catch (err) {
+        console.error("[score-interview] Unexpected error while streaming:", err);
+        send({
+          event: "error",
+          data: { error: "Something went wrong while scoring your interview. Please try again." },
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
+
+/**
+ * Streaming counterpart of consensus mode. Individual samples cannot be
+ * streamed meaningfully, so the consensus is computed first and then
+ * emitted as the same summary/dimension/moment/result event sequence the
+ * single-sample stream produces -- clients need no special handling.
+ */
+function streamConsensusScoring(
+  provider: ScoringProvider,
+  request: ScoringRequest,
+  entries: TranscriptEntry[],
+  sampleCount: number,
+): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScoringStreamEvent) => controller.enqueue(encodeEvent(event));
+
+      try {
+        const results = await scoreWithConsensus(provider, request, entries, sampleCount);
+        if (!results) {
+          send({ event: "error", data: { error: "Failed to score the interview" } });
+          return;
+        }
+
+        send({ event: "summary", data: { bossSummary: results.bossSummary } });
+        for (const dimension of results.dimensions) {
+          send({ event: "dimension", data: dimension });
+        }
+        for (const moment of results.moments) {
+          send({ event: "moment", data: moment });
+        }
+        logScoring(results);
+        send({ event: "result", data: results });
+      } catch (err) {
+        console.error("[score-interview] Unexpected error while streaming:", err);
+        send({
+          event: "error",
+          data: { error: "Something went wrong while scoring your interview. Please try again." },
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
+
+// ─── Interview Ending ────────────────────────────────────────────────────────
+
+/** Checks the `termination` the browser reports: a known reason and a duration in seconds */
+function isInterviewTermination(value: unknown): value is InterviewTermination {
+  if (typeof value !== "object" || value === null) return false;
+  const { reason, durationSeconds } = value as Record<string, unknown>;
+  return (
+    (TERMINATION_REASONS as readonly unknown[]).includes(reason) &&
+    typeof durationSeconds === "number" &&
+    Number.isFinite(durationSeconds) &&
+    durationSeconds >= 0
+  );
+}
+
+/** Formats a call length as "6 minutes 12 seconds" */
+function formatCallDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  const minutes = Math.floor(whole / 60);
+  const parts = [
+    minutes > 0 && `${minutes} minute${minutes === 1 ? "" : "s"}`,
+    (whole % 60 > 0 || minutes === 0) && `${whole % 60} second${whole % 60 === 1 ? "" : "s"}`,
+  ];
+  return parts.filter(Boolean).join(" ");
+}
+
+/**
+ * Renders how the interview ended as a section of the user message. An
+ * interview the interviewer cut short is put to the model explicitly, so
+ * the assessment says whether the answers earned it.
+ */
+function formatTermination(
+  { reason, durationSeconds }: InterviewTermination,
+  timeLimitSeconds: number,
+): string {
+  const after = formatCallDuration(durationSeconds);
+  switch (reason) {
+    case "boss-ended":
+      return `The interviewer ended the interview themselves after ${after}, using their end_call tool. The interviewer does this after a run of weak answers or prolonged silence. Assess explicitly whether the answers leading up to it justified ending the interview, and say so in the boss summary.`;
+    case "candidate-ended":
+      return `The candidate ended the interview themselves after ${after}.`;
+    case "time-limit":
+      return `The interview ran to its ${timeLimitSeconds / 60}-minute time limit and was cut off. Do not penalise an answer that was cut off mid-sentence.`;
+    case "connection-lost":
+      return `The call dropped after ${after} because of a connection problem. Do not hold the abrupt ending against the candidate.`;
+  }
+}
+
 // ─── Route Handler ───────────────────────────────────────────────────────────
 
 export async function POST(req: NextRequest) {
@@ -476,16 +1159,234 @@ export async function POST(req: NextRequest) {
 
     // 2. Parse and validate input
     const body = await req.json();
-    const { cvText, transcript } = body;
+    const {
+      cvText,
+      jdText,
+      transcript,
+      stream,
+      samples,
+      rubric: rubricId,
+      promptVersion: requestedPromptVersion,
+      timestamps,
+      conversationId: requestedConversationId,
+      conversationIds: requestedConversationIds,
+      demo,
+      interviewMode = "voice",
+      termination: claimedTermination,
+      difficulty: requestedDifficulty = DEFAULT_DIFFICULTY,
+      persona: personaId = DEFAULT_PERSONA.id,
+    } = body;
+
+    // The transcript is fetched from ElevenLabs by conversation ID, or sent
+    // as TranscriptEntry[], or, from older clients, as the flattened
+    // "Interviewer:/Candidate:" text. Either way the prompt gets text
+    // rendered here, and moment quotes are verified and speech metrics
+    // measured against the individual turns. Only fetched transcripts are
+    // marked verified -- anyone can write a transcript and send it. A call
+    // resumed after its connection dropped is several conversations, sent
+    // in call order as conversationIds and stitched into one transcript.
+    let entries: TranscriptEntry[];
+    let transcriptText: string;
+    let conversationIds: string[] = [];
+    let termination: InterviewTermination | null = null;
+
+    // The scripted demo interview runs without keys, so it is always scored
+    // offline from the transcript the browser recorded
+    if (demo !== undefined && demo !== null && typeof demo !== "boolean") {
+      return NextResponse.json(
+        { error: "demo must be a boolean" },
+        { status: 400 },
+      );
+    }
+    const hasConversationId = requestedConversationId !== undefined && requestedConversationId !== null;
+    const hasConversationIds = requestedConversationIds !== undefined && requestedConversationIds !== null;
+    if (demo === true && (hasConversationId || hasConversationIds)) {
+      return NextResponse.json(
+        { error: "A demo interview is scored from its transcript, not a conversationId" },
+        { status: 400 },
+      );
+    }
+    if (interviewMode !== "voice" && interviewMode !== "text") {
+      return NextResponse.json(
+        { error: 'interviewMode must be "voice" or "text"' },
+        { status: 400 },
+      );
+    }
+    if (!isInterviewDifficulty(requestedDifficulty)) {
+      return NextResponse.json(
+        { error: `difficulty must be one of ${DIFFICULTY_IDS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    let difficulty: InterviewDifficulty = requestedDifficulty;
+    let level = DIFFICULTY_LEVELS[difficulty];
+    let persona = typeof personaId === "string" ? getPersona(personaId) : null;
+    if (!persona) {
+      return NextResponse.json(
+        { error: `persona must be one of ${Object.keys(PERSONAS).join(", ")}` },
+        { status: 400 },
+      );
+    }
 
-    if (!transcript || typeof transcript !== "string" || transcript.trim().length === 0) {
+    // How the interview ended, as the browser saw it. ElevenLabs' own
+    // record takes precedence for a conversation fetched by ID.
+    if (claimedTermination !== undefined && claimedTermination !== null) {
+      if (!isInterviewTermination(claimedTermination)) {
+        return NextResponse.json(
+          {
+            error: `termination must have a reason (${TERMINATION_REASONS.join(", ")}) and durationSeconds`,
+          },
+          { status: 400 },
+        );
+      }
+      termination = claimedTermination;
+    }
+
+    if (hasConversationId && hasConversationIds) {
+      return NextResponse.json(
+        { error: "Send either conversationId or conversationIds, not both" },
+        { status: 400 },
+      );
+    }
+
+    if (hasConversationId || hasConversationIds) {
+      if (
+        (transcript !== undefined && transcript !== null) ||
+        (timestamps !== undefined && timestamps !== null)
+      ) {
+        return NextResponse.json(
+          { error: "Send either a transcript or a conversationId, not both" },
+          { status: 400 },
+        );
+      }
+      if (
+        hasConversationIds &&
+        (!Array.isArray(requestedConversationIds) ||
+          requestedConversationIds.length === 0 ||
+          requestedConversationIds.length > MAX_CONVERSATION_SEGMENTS ||
+          new Set(requestedConversationIds).size !== requestedConversationIds.length)
+      ) {
+        return NextResponse.json(
+          {
+            error: `conversationIds must list 1 to ${MAX_CONVERSATION_SEGMENTS} different conversations`,
+          },
+          { status: 400 },
+        );
+      }
+      const requestedIds: unknown[] = hasConversationIds
+        ? requestedConversationIds
+        : [requestedConversationId];
+      if (
+        !requestedIds.every(
+          (id): id is string => typeof id === "string" && CONVERSATION_ID_PATTERN.test(id),
+        )
+      ) {
+        return NextResponse.json(
+          { error: "Invalid conversation ID format" },
+          { status: 400 },
+        );
+      }
+
+      // Only the session that claimed the conversations may score them
+      const sessionId = verifySessionCookie(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+      if (!requestedIds.every((id) => ownsConversation(id, sessionId))) {
+        return NextResponse.json(
+          { error: "Conversation not found" },
+          { status: 404 },
+        );
+      }
+
+      // A verified interview is scored at the difficulty and by the persona
+      // its call ran with, as recorded when the first conversation was claimed
+      const setup = claimedConversationSetup(requestedIds[0]);
+      if (setup) {
+        if (body.difficulty !== undefined && body.difficulty !== null && body.difficulty !== setup.difficulty) {
+          return NextResponse.json(
+            { error: "difficulty does not match the difficulty the interview was held at" },
+            { status: 400 },
+          );
+        }
+        if (body.persona !== undefined && body.persona !== null && body.persona !== setup.persona) {
+          return NextResponse.json(
+            { error: "persona does not match the persona who held the interview" },
+            { status: 400 },
+          );
+        }
+        difficulty = setup.difficulty;
+        level = DIFFICULTY_LEVELS[difficulty];
+        persona = getPersona(setup.persona) ?? DEFAULT_PERSONA;
+      }
+
+      const fetched = await Promise.all(requestedIds.map(fetchConversationTranscript));
+      const segments: ConversationSegment[] = [];
+      for (const [i, conversation] of fetched.entries()) {
+        if (conversation.status === "unconfigured") {
+          console.error("[score-interview] ELEVENLABS_API_KEY is not configured");
+          return NextResponse.json(
+            { error: "Service configuration error" },
+            { status: 500 },
+          );
+        }
+        if (conversation.status === "not-found") {
+          return NextResponse.json(
+            { error: "Conversation not found" },
+            { status: 404 },
+          );
+        }
+        if (conversation.status === "failed") {
+          console.error(`[score-interview] ${conversation.detail}, id=${requestedIds[i]}`);
+          return NextResponse.json(
+            { error: "Failed to fetch transcript" },
+            { status: 500 },
+          );
+        }
+        if (conversation.status === "processing") {
+          return NextResponse.json(
+            { error: "The interview is still being processed. Please try again in a moment." },
+            { status: 409 },
+          );
+        }
+        segments.push(conversation);
+      }
+
+      const conversation = stitchConversations(segments);
+      conversationIds = requestedIds;
+      termination = resolveTermination(conversation.metadata, termination, level.timeLimitSeconds);
+      entries = conversation.transcript;
+      transcriptText = entries.some((e) => e.message.trim().length > 0)
+        ? formatTranscript(entries)
+        : "";
+    } else if (Array.isArray(transcript)) {
+      const validation = validateTranscriptEntries(transcript);
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 },
+        );
+      }
+      if (timestamps !== undefined && timestamps !== null) {
+        return NextResponse.json(
+          { error: "timestamps are only accepted with a text transcript -- set them on the entries" },
+          { status: 400 },
+        );
+      }
+      entries = validation.entries;
+      transcriptText = entries.some((e) => e.message.trim().length > 0)
+        ? formatTranscript(entries)
+        : "";
+    } else {
+      transcriptText = typeof transcript === "string" ? transcript : "";
+      entries = parseTranscriptText(transcriptText);
+    }
+
+    if (transcriptText.trim().length === 0) {
       return NextResponse.json(
         { error: "Interview transcript is required" },
         { status: 400 },
       );
     }
 
-    if (typeof transcript === "string" && transcript.length > MAX_TRANSCRIPT_LENGTH) {
+    if (transcriptText.length > MAX_TRANSCRIPT_LENGTH) {
       return NextResponse.json(
         { error: "Transcript exceeds maximum length" },
         { status: 400 },
@@ -507,96 +1408,208 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // 3. Check required environment variable
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      console.error("[score-interview] ANTHROPIC_API_KEY is not configured");
+    if (jdText !== undefined && jdText !== null) {
+      if (typeof jdText !== "string") {
+        return NextResponse.json(
+          { error: "Job description must be a string" },
+          { status: 400 },
+        );
+      }
+      if (jdText.length > MAX_JD_TEXT_LENGTH) {
+        return NextResponse.json(
+          { error: "Job description exceeds maximum length" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // The text form carries its turn timestamps alongside, one per turn
+    if (timestamps !== undefined && timestamps !== null) {
+      if (!Array.isArray(timestamps) || timestamps.length !== entries.length) {
+        return NextResponse.json(
+          { error: "timestamps must have one entry per transcript turn" },
+          { status: 400 },
+        );
+      }
+      for (const [i, timestamp] of timestamps.entries()) {
+        if (timestamp === null) continue;
+        if (typeof timestamp !== "number" || !Number.isFinite(timestamp) || timestamp < 0) {
+          return NextResponse.json(
+            { error: "timestamps must be seconds from the start of the call, or null" },
+            { status: 400 },
+          );
+        }
+        entries[i].timestamp = timestamp;
+      }
+    }
+
+    const sampleCount = resolveSampleCount(samples);
+    if (sampleCount === null) {
+      return NextResponse.json(
+        { error: `samples must be an integer between 1 and ${MAX_CONSENSUS_SAMPLES}` },
+        { status: 400 },
+      );
+    }
+
+    if (rubricId !== undefined && rubricId !== null && typeof rubricId !== "string") {
+      return NextResponse.json(
+        { error: "rubric must be a string" },
+        { status: 400 },
+      );
+    }
+    const baseRubric = rubricId ? getRubric(rubricId) : DEFAULT_RUBRIC;
+    if (!baseRubric) {
+      return NextResponse.json(
+        { error: `Unknown rubric. Available rubrics: ${Object.keys(RUBRICS).join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    if (
+      requestedPromptVersion !== undefined &&
+      requestedPromptVersion !== null &&
+      typeof requestedPromptVersion !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "promptVersion must be a string" },
+        { status: 400 },
+      );
+    }
+    if (requestedPromptVersion && !SCORING_PROMPTS[requestedPromptVersion]) {
+      return NextResponse.json(
+        {
+          error: `Unknown prompt version. Available versions: ${Object.keys(SCORING_PROMPTS).join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // 3. Resolve the scoring provider and prompt version from configuration.
+    //    A version named in the request takes precedence over the split.
+    //    Demo interviews always use the deterministic heuristic provider.
+    const resolution: ProviderResolution =
+      demo === true ? { ok: true, provider: createHeuristicProvider() } : resolveScoringProvider();
+    if (!resolution.ok) {
+      console.error(`[score-interview] ${resolution.error}`);
       return NextResponse.json(
         { error: "Service configuration error" },
         { status: 500 },
       );
     }
+    const provider = resolution.provider;
+
+    const promptResolution: PromptVersionResolution = requestedPromptVersion
+      ? { ok: true, version: requestedPromptVersion }
+      : resolveConfiguredPromptVersion();
+    if (!promptResolution.ok) {
+      console.error(`[score-interview] ${promptResolution.error}`);
+      return NextResponse.json(
+        { error: "Service configuration error" },
+        { status: 500 },
+      );
+    }
+    const promptVersion = promptResolution.version;
+
+    // A job description adds the role fit dimension to whichever rubric is in
+    // use, and the difficulty moves its HIRED threshold
+    const jobDescription =
+      typeof jdText === "string" && jdText.trim().length > 0 ? jdText : null;
+    const rubric = withDifficulty(
+      jobDescription ? withRoleFit(baseRubric) : baseRubric,
+      difficulty,
+    );
 
     // 4. Build the user message
     const parts: string[] = [];
 
+    if (jobDescription) {
+      parts.push(`=== JOB DESCRIPTION ===\n${jobDescription}`);
+    }
+
     if (cvText && typeof cvText === "string" && cvText.trim().length > 0) {
       parts.push(`=== CANDIDATE CV ===\n${cvText}`);
     }
 
-    parts.push(`=== INTERVIEW TRANSCRIPT ===\n${transcript}`);
-
-    parts.push(
-      "\nPlease analyse this interview transcript (and CV if provided) and produce the scoring assessment. Return only the JSON object as specified in your instructions.",
-    );
+    if (interviewMode === "text") {
+      parts.push(
+        "=== INTERVIEW FORMAT ===\nThe candidate typed their answers in a text chat instead of speaking them. Judge articulation on the answers as written communication. Do not look for vocal delivery, and do not read typing slips as hesitation.",
+      );
+    }
 
-    // 5. Call Claude API (client instantiated per-request)
-    const client = new Anthropic({ apiKey });
+    if (level.calibration) {
+      parts.push(`=== DIFFICULTY ===\n${level.calibration}`);
+    }
 
-    const message = await client.messages.create({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 8192,
-      system: SCORING_PROMPT,
-      messages: [{ role: "user", content: parts.join("\n\n") }],
-    });
+    parts.push(`=== INTERVIEW TRANSCRIPT ===\n${transcriptText}`);
 
-    // 6. Extract text from response
-    const responseText = message.content
-      .filter((block): block is Anthropic.TextBlock => block.type === "text")
-      .map((block) => block.text)
-      .join("");
+    if (conversationIds.length > 1) {
+      const drops = conversationIds.length - 1;
+      parts.push(
+        `=== DROPPED CONNECTION ===\nThe call dropped ${drops === 1 ? "once" : `${drops} times`} and was resumed, with the interviewer reminded of the conversation so far. The transcript runs straight across the drops. Do not hold the interruptions, or a repeated question after one, against the candidate.`,
+      );
+    }
 
-    if (!responseText.trim()) {
-      console.error("[score-interview] Empty response from Claude");
-      return NextResponse.json(
-        { error: "Failed to score the interview" },
-        { status: 500 },
+    if (termination) {
+      parts.push(
+        `=== HOW THE INTERVIEW ENDED ===\n${formatTermination(termination, level.timeLimitSeconds)}`,
       );
     }
 
-    // 7. Parse JSON response -- extract JSON object from response text
-    //    Claude may wrap the JSON in markdown fences or include preamble text.
-    //    Strategy: try raw parse first, then extract the first {...} block.
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(responseText.trim());
-    } catch {
-      // Attempt to extract JSON from markdown fences or surrounding text
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error("[score-interview] No JSON object found in Claude response:", responseText.slice(0, 500));
-        return NextResponse.json(
-          { error: "Failed to score the interview" },
-          { status: 500 },
-        );
-      }
-      try {
-        parsed = JSON.parse(jsonMatch[0]);
-      } catch {
-        console.error("[score-interview] Failed to parse extracted JSON:", jsonMatch[0].slice(0, 500));
-        return NextResponse.json(
-          { error: "Failed to score the interview" },
-          { status: 500 },
-        );
-      }
+    // The timestamps of a typed interview time typing, not speech
+    const speechMetrics = computeSpeechMetrics(
+      interviewMode === "text"
+        ? entries.map(({ role, message }) => ({ role, message }))
+        : entries,
+    );
+    parts.push(
+      `=== SPEECH METRICS ===\n${formatSpeechMetrics(speechMetrics, rubric, interviewMode)}`,
+    );
+
+    parts.push(
+      `\nPlease analyse this interview transcript (and the job description and CV if provided) and produce the scoring assessment. Submit it by calling the ${SCORING_TOOL_NAME} tool with the structure specified in your instructions.`,
+    );
+
+    const scoringRequest: ScoringRequest = {
+      system: SCORING_PROMPTS[promptVersion].build(rubric, jobDescription !== null, persona),
+      promptVersion,
+      userMessage: parts.join("\n\n"),
+      tool: buildScoringTool(rubric),
+      rubric,
+      transcript: transcriptText,
+      cvText: typeof cvText === "string" && cvText.trim().length > 0 ? cvText : null,
+      jdText: jobDescription,
+      speechMetrics,
+      conversationIds,
+      demo: demo === true,
+      termination,
+      difficulty,
+      persona: persona.id,
+    };
+
+    // 5. Call the provider. In streaming mode the remaining steps happen
+    //    inside the event stream.
+    if (stream === true) {
+      return sampleCount > 1
+        ? streamConsensusScoring(provider, scoringRequest, entries, sampleCount)
+        : streamScoring(provider, scoringRequest, entries);
     }
 
-    // 8. Validate the parsed response
-    let results: ScoringResults;
-    try {
-      results = validateScoringResponse(parsed as Record<string, unknown>);
-    } catch (validationErr) {
-      console.error(
-        "[score-interview] Response validation failed:",
-        validationErr instanceof Error ? validationErr.message : validationErr,
-      );
+    // 6. Score (once, or N times in consensus mode), parse, validate and
+    //    verify moment quotes, repairing responses that fail validation
+    const results =
+      sampleCount > 1
+        ? await scoreWithConsensus(provider, scoringRequest, entries, sampleCount)
+        : await scoreWithRepairs(provider, scoringRequest, entries);
+
+    if (!results) {
       return NextResponse.json(
         { error: "Failed to score the interview" },
         { status: 500 },
       );
     }
 
-    // 9. Return the validated ScoringResults
+    // 7. Return the validated ScoringResults
+    logScoring(results);
     return NextResponse.json(results);
   } catch (err) {
     console.error("[score-interview] Unexpected error:", err);
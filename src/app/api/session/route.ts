@@ -0,0 +1,95 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import {
+  SESSION_COOKIE_MAX_AGE,
+  SESSION_COOKIE_NAME,
+  createSession,
+  verifySessionCookie,
+} from "@/lib/sessions";
+
+// ─── Inline Rate Limiter ────────────────────────────────────────────────────
+
+const rateLimitStore = new Map<string, number[]>();
+let rateLimitCallCount = 0;
+
+function rateLimit(
+  identifier: string,
+  maxRequests: number,
+  windowMs: number,
+  namespace: string,
+): { success: boolean; remaining: number } {
+  const key = `${namespace}:${identifier}`;
+  const now = Date.now();
+  const timestamps = rateLimitStore.get(key) ?? [];
+
+  // Remove expired entries
+  const valid = timestamps.filter((t) => now - t < windowMs);
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  rateLimitCallCount++;
+  if (rateLimitCallCount % 100 === 0) {
+    for (const [k, v] of rateLimitStore) {
+      const filtered = v.filter((t) => now - t < windowMs);
+      if (filtered.length === 0) {
+        rateLimitStore.delete(k);
+      } else {
+        rateLimitStore.set(k, filtered);
+      }
+    }
+  }
+
+  if (valid.length >= maxRequests) {
+    rateLimitStore.set(key, valid);
+    return { success: false, remaining: 0 };
+  }
+
+  valid.push(now);
+  rateLimitStore.set(key, valid);
+  return { success: true, remaining: maxRequests - valid.length };
+}
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+/**
+ * Starts an interview session: issues the signed session cookie that
+ * conversations are bound to (see lib/sessions.ts). A browser that already
+ * holds a valid session keeps it, so its earlier conversations stay
+ * readable.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Rate limit
+    const ip = req.headers.get("x-forwarded-for") ?? "unknown";
+    const { success } = rateLimit(ip, 30, 60_000, "session");
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please wait a moment and try again." },
+        { status: 429 },
+      );
+    }
+
+    // 2. Keep an existing session
+    if (verifySessionCookie(req.cookies.get(SESSION_COOKIE_NAME)?.value)) {
+      return NextResponse.json({ ok: true });
+    }
+
+    // 3. Issue a new one
+    const { cookie } = createSession();
+    const res = NextResponse.json({ ok: true });
+    res.cookies.set(SESSION_COOKIE_NAME, cookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_COOKIE_MAX_AGE,
+    });
+    return res;
+  } catch (err) {
+    console.error("[session] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Failed to start the interview session" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for POST /api/signed-url, which mints a signed URL for a
+ * conversation with the private ElevenLabs agent.
+ *
+ * Mocking strategy:
+ * - The ElevenLabs REST API is stubbed by spying on globalThis.fetch.
+ * - Session and site-auth cookies are real: they are minted with
+ *   createSession() and computeAuthToken() and carried on a NextRequest.
+ * - The per-IP quota lives in a module-level Map, and each request comes
+ *   from its own IP unless a test passes one.
+ * - The route has inline rate limiting with a module-level Map. We use
+ *   unique IPs per request to avoid cross-test interference.
+ */
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/signed-url/route";
+import { MAX_CONVERSATIONS_PER_IP_PER_DAY } from "@/lib/constants";
+import { conversationNonce, createSession, SESSION_COOKIE_NAME } from "@/lib/sessions";
+import { computeAuthToken, SITE_AUTH_COOKIE_NAME } from "@/lib/site-auth";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const SIGNED_URL = "wss://api.elevenlabs.io/v1/convai/conversation?agent_id=agent_boss&conversation_signature=sig";
+
+let ipCounter = 0;
+function nextIp(): string {
+  ipCounter++;
+  return `10.4.${(ipCounter >> 8) & 0xff}.${ipCounter & 0xff}`;
+}
+
+/** Request carrying the given cookies (null for none), from a fresh IP unless one is given */
+function createRequest(
+  sessionCookie: string | null,
+  siteAuthCookie: string | null = null,
+  ip: string = nextIp(),
+): NextRequest {
+  const cookies = [
+    sessionCookie !== null && `${SESSION_COOKIE_NAME}=${sessionCookie}`,
+    siteAuthCookie !== null && `${SITE_AUTH_COOKIE_NAME}=${siteAuthCookie}`,
+  ].filter(Boolean);
+  return new NextRequest("http://localhost:3000/api/signed-url", {
+    method: "POST",
+    headers: {
+      "x-forwarded-for": ip,
+      ...(cookies.length > 0 && { Cookie: cookies.join("; ") }),
+    },
+  });
+}
+
+/** Stubs the ElevenLabs signed URL endpoint with the given status and body */
+function mockElevenLabs(status = 200, body: unknown = { signed_url: SIGNED_URL }) {
+  return vi
+    .spyOn(globalThis, "fetch")
+    .mockImplementation(async () => new Response(JSON.stringify(body), { status }));
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("POST /api/signed-url", () => {
+  beforeEach(() => {
+    process.env.ELEVENLABS_API_KEY = "test-elevenlabs-key";
+    process.env.ELEVENLABS_AGENT_ID = "agent_boss";
+    delete process.env.SITE_PASSWORD;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.ELEVENLABS_AGENT_ID;
+    delete process.env.SITE_PASSWORD;
+  });
+
+  it("should mint a signed URL for the private agent, with the session's nonce", async () => {
+    // Arrange
+    const fetchSpy = mockElevenLabs();
+    const session = createSession();
+
+    // Act
+    const response = await POST(createRequest(session.cookie));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://api.elevenlabs.io/v1/convai/conversation/get-signed-url?agent_id=agent_boss",
+      { headers: { "xi-api-key": "test-elevenlabs-key" } },
+    );
+    const body = await response.json();
+    expect(body).toEqual({ signedUrl: SIGNED_URL, sessionNonce: conversationNonce(session.sessionId) });
+  });
+
+  it.each([
+    ["no session cookie", null],
+    ["a forged session cookie", `${crypto.randomUUID()}.${"0".repeat(64)}`],
+  ])("should return 401 without calling ElevenLabs with %s", async (_label, cookie) => {
+    // Arrange
+    const fetchSpy = mockElevenLabs();
+
+    // Act
+    const response = await POST(createRequest(cookie));
+
+    // Assert
+    expect(response.status).toBe(401);
+    const body = await response.json();
+    expect(body).toEqual({ error: "No interview session. Please start the interview again." });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  describe("site password", () => {
+    beforeEach(() => {
+      process.env.SITE_PASSWORD = "letmein";
+    });
+
+    it.each([
+      ["no site-auth cookie", null],
+      ["a wrong site-auth cookie", "0".repeat(64)],
+    ])("should return 401 with %s", async (_label, siteAuth) => {
+      // Arrange
+      const fetchSpy = mockElevenLabs();
+
+      // Act
+      const response = await POST(createRequest(createSession().cookie, siteAuth));
+
+      // Assert
+      expect(response.status).toBe(401);
+      const body = await response.json();
+      expect(body).toEqual({ error: "Please sign in to start an interview." });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should mint a signed URL for a signed-in visitor", async () => {
+      // Arrange
+      mockElevenLabs();
+
+      // Act
+      const response = await POST(
+        createRequest(createSession().cookie, computeAuthToken("letmein")),
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+    });
+  });
+
+  it("should return 429 once the IP has used up its conversations for the day, even with a new session", async () => {
+    // Arrange
+    const fetchSpy = mockElevenLabs();
+    const ip = nextIp();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      for (let i = 0; i < MAX_CONVERSATIONS_PER_IP_PER_DAY; i++) {
+        // Stay under the per-minute rate limit
+        vi.advanceTimersByTime(7_000);
+        expect((await POST(createRequest(createSession().cookie, null, ip))).status).toBe(200);
+      }
+      vi.advanceTimersByTime(7_000);
+
+      // Act
+      const response = await POST(createRequest(createSession().cookie, null, ip));
+      const otherIp = await POST(createRequest(createSession().cookie));
+
+      // Assert
+      expect(response.status).toBe(429);
+      const body = await response.json();
+      expect(body).toEqual({ error: "You have used up today's interviews. Please come back tomorrow." });
+      expect(fetchSpy).toHaveBeenCalledTimes(MAX_CONVERSATIONS_PER_IP_PER_DAY + 1);
+      expect(otherIp.status).toBe(200);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should count the quota against the proxy's hop, whatever the client puts before it", async () => {
+    // Arrange
+    mockElevenLabs();
+    const proxyHop = nextIp();
+    for (let i = 0; i < MAX_CONVERSATIONS_PER_IP_PER_DAY; i++) {
+      const request = createRequest(createSession().cookie, null, `203.0.113.${i}, ${proxyHop}`);
+      expect((await POST(request)).status).toBe(200);
+    }
+
+    // Act
+    const response = await POST(createRequest(createSession().cookie, null, `198.51.100.7, ${proxyHop}`));
+
+    // Assert
+    expect(response.status).toBe(429);
+  });
+
+  it("should return 500 when the agent is not configured", async () => {
+    // Arrange
+    delete process.env.ELEVENLABS_AGENT_ID;
+    const fetchSpy = mockElevenLabs();
+
+    // Act
+    const response = await POST(createRequest(createSession().cookie));
+
+    // Assert
+    expect(response.status).toBe(500);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Service configuration error" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an error status", 401, { detail: "Invalid API key" }],
+    ["no signed URL", 200, {}],
+  ])("should return 502 when ElevenLabs answers with %s", async (_label, status, body) => {
+    // Arrange
+    mockElevenLabs(status, body);
+
+    // Act
+    const response = await POST(createRequest(createSession().cookie));
+
+    // Assert
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: "Failed to start the interview" });
+  });
+});
@@ -0,0 +1,170 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { createSignedConversationUrl } from "@/lib/conversations";
+import { MAX_CONVERSATIONS_PER_IP_PER_DAY } from "@/lib/constants";
+import { SESSION_COOKIE_NAME, conversationNonce, verifySessionCookie } from "@/lib/sessions";
+import { SITE_AUTH_COOKIE_NAME, hasSiteAccess } from "@/lib/site-auth";
+
+// ─── Inline Rate Limiter ────────────────────────────────────────────────────
+
+const rateLimitStore = new Map<string, number[]>();
+let rateLimitCallCount = 0;
+
+function rateLimit(
+  identifier: string,
+  maxRequests: number,
+  windowMs: number,
+  namespace: string,
+): { success: boolean; remaining: number } {
+  const key = `${namespace}:${identifier}`;
+  const now = Date.now();
+  const timestamps = rateLimitStore.get(key) ?? [];
+
+  // Remove expired entries
+  const valid = timestamps.filter((t) => now - t < windowMs);
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  rateLimitCallCount++;
+  if (rateLimitCallCount % 100 === 0) {
+    for (const [k, v] of rateLimitStore) {
+      const filtered = v.filter((t) => now - t < windowMs);
+      if (filtered.length === 0) {
+        rateLimitStore.delete(k);
+      } else {
+        rateLimitStore.set(k, filtered);
+      }
+    }
+  }
+
+  if (valid.length >= maxRequests) {
+    rateLimitStore.set(key, valid);
+    return { success: false, remaining: 0 };
+  }
+
+  valid.push(now);
+  rateLimitStore.set(key, valid);
+  return { success: true, remaining: maxRequests - valid.length };
+}
+
+// ─── Per-IP Quota ───────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When each client IP started its conversations, over the last day */
+const conversationStarts = new Map<string, number[]>();
+let quotaCallCount = 0;
+
+/**
+ * The client IP as the proxy in front of the app saw it: the right-most
+ * X-Forwarded-For entry, which the proxy appends. Entries to its left come
+ * from the client, which can put anything there.
+ */
+function trustedClientIp(req: NextRequest): string {
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops.at(-1) ?? "unknown";
+}
+
+/**
+ * Counts a conversation against the client IP's daily quota. Returns
+ * false, without counting it, when the IP has used the quota up. Keyed on
+ * the IP rather than the session, which a caller can re-mint at will.
+ */
+function takeConversationQuota(ip: string): boolean {
+  const now = Date.now();
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  quotaCallCount++;
+  if (quotaCallCount % 100 === 0) {
+    for (const [id, starts] of conversationStarts) {
+      if (starts.every((t) => now - t >= DAY_MS)) conversationStarts.delete(id);
+    }
+  }
+
+  const starts = (conversationStarts.get(ip) ?? []).filter((t) => now - t < DAY_MS);
+  if (starts.length >= MAX_CONVERSATIONS_PER_IP_PER_DAY) {
+    conversationStarts.set(ip, starts);
+    return false;
+  }
+
+  starts.push(now);
+  conversationStarts.set(ip, starts);
+  return true;
+}
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+/**
+ * Mints a signed URL for one conversation with the private ElevenLabs
+ * agent, which the browser passes to startSession. Only a signed-in
+ * visitor with an interview session gets one, and each client IP may start
+ * MAX_CONVERSATIONS_PER_IP_PER_DAY conversations a day. The session's
+ * nonce comes with it, for the browser to start the conversation with so
+ * the session can later claim it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Rate limit
+    const ip = req.headers.get("x-forwarded-for") ?? "unknown";
+    const { success } = rateLimit(ip, 10, 60_000, "signed-url");
+    if (!success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please wait a moment and try again." },
+        { status: 429 },
+      );
+    }
+
+    // 2. Require the site password, when one is set
+    if (!hasSiteAccess(req.cookies.get(SITE_AUTH_COOKIE_NAME)?.value)) {
+      return NextResponse.json(
+        { error: "Please sign in to start an interview." },
+        { status: 401 },
+      );
+    }
+
+    // 3. Require a session
+    const sessionId = verifySessionCookie(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "No interview session. Please start the interview again." },
+        { status: 401 },
+      );
+    }
+
+    // 4. Enforce the IP's daily quota
+    if (!takeConversationQuota(trustedClientIp(req))) {
+      return NextResponse.json(
+        { error: "You have used up today's interviews. Please come back tomorrow." },
+        { status: 429 },
+      );
+    }
+
+    // 5. Mint the URL
+    const outcome = await createSignedConversationUrl();
+    if (outcome.status === "unconfigured") {
+      console.error("[signed-url] ELEVENLABS_API_KEY or ELEVENLABS_AGENT_ID is not configured");
+      return NextResponse.json(
+        { error: "Service configuration error" },
+        { status: 500 },
+      );
+    }
+    if (outcome.status === "failed") {
+      console.error(`[signed-url] ${outcome.detail}`);
+      return NextResponse.json(
+        { error: "Failed to start the interview" },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json({ signedUrl: outcome.signedUrl, sessionNonce: conversationNonce(sessionId) });
+  } catch (err) {
+    console.error("[signed-url] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Failed to start the interview" },
+      { status: 500 },
+    );
+  }
+}
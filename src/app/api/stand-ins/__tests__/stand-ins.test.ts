@@ -0,0 +1,219 @@
+// @vitest-environment node
+/**
+ * End-to-end tests for the local ElevenLabs and Anthropic stand-ins.
+ *
+ * Scores stand-in conversations through the real score-interview route,
+ * the real conversation fetching and the real Anthropic SDK, with both
+ * APIs answered by the stand-in route handlers. Exercises the processing,
+ * self-healing, repair and give-up paths offline.
+ *
+ * Runs in the node environment: the Anthropic SDK refuses to start in a
+ * browser-like one such as jsdom.
+ *
+ * Mocking strategy:
+ * - globalThis.fetch is replaced with a router that hands each request to
+ *   the matching stand-in route handler, so nothing leaves the process.
+ *   Nothing else is mocked.
+ * - process.env is set per test and restored afterwards.
+ * - The score-interview rate limiter is module-level, so each request
+ *   uses a unique IP.
+ */
+import { NextRequest } from "next/server";
+import { POST as scoreInterview } from "@/app/api/score-interview/route";
+import { POST as anthropicMessages } from "@/app/api/stand-ins/anthropic/v1/messages/route";
+import { GET as elevenLabsConversation } from "@/app/api/stand-ins/elevenlabs/v1/convai/conversations/[id]/route";
+import { claimConversation, createSession, SESSION_COOKIE_NAME } from "@/lib/sessions";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const STAND_IN_ORIGIN = "http://stand-ins.test";
+const ORIGINAL_ENV = { ...process.env };
+
+let requestCounter = 0;
+
+/** Routes fetch calls to the stand-in route handlers */
+async function standInFetch(...[input, init]: Parameters<typeof fetch>): Promise<Response> {
+  const request = new NextRequest(input instanceof Request ? input : String(input), {
+    ...init,
+    signal: init?.signal ?? undefined,
+  });
+  const { pathname } = request.nextUrl;
+
+  const conversation = pathname.match(/^\/elevenlabs\/v1\/convai\/conversations\/([^/]+)$/);
+  if (conversation) {
+    return elevenLabsConversation(request, { params: Promise.resolve({ id: conversation[1] }) });
+  }
+  if (pathname === "/anthropic/v1/messages") return anthropicMessages(request);
+  throw new Error(`Unexpected request to ${request.url}`);
+}
+
+/** Scores a stand-in conversation as the browser session that claimed it */
+async function scoreConversation(body: Record<string, unknown>) {
+  requestCounter++;
+  const session = createSession();
+  claimConversation(body.conversationId as string, session.sessionId);
+
+  const request = new NextRequest("http://localhost:3000/api/score-interview", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-forwarded-for": `10.3.0.${requestCounter}`,
+      Cookie: `${SESSION_COOKIE_NAME}=${session.cookie}`,
+    },
+    body: JSON.stringify(body),
+  });
+  return scoreInterview(request);
+}
+
+/** A conversation ID of its own, so each test gets a fresh processing delay */
+function conversationId(caseId: string): string {
+  requestCounter++;
+  return `standin-${caseId}_${requestCounter}`;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("stand-in ElevenLabs and Anthropic APIs", () => {
+  beforeEach(() => {
+    Object.assign(process.env, {
+      STAND_INS: "1",
+      STAND_IN_PROCESSING_MS: "0",
+      ELEVENLABS_API_BASE_URL: `${STAND_IN_ORIGIN}/elevenlabs`,
+      ELEVENLABS_API_KEY: "stand-in",
+      ANTHROPIC_BASE_URL: `${STAND_IN_ORIGIN}/anthropic`,
+      ANTHROPIC_API_KEY: "stand-in",
+      SCORING_PROVIDER: "anthropic",
+    });
+    delete process.env.STAND_IN_SCORING;
+    vi.spyOn(globalThis, "fetch").mockImplementation(standInFetch);
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("should score a stand-in conversation end to end and mark it verified", async () => {
+    // Act
+    const id = conversationId("noteworthy-senior");
+    const response = await scoreConversation({ conversationId: id });
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.verified).toBe(true);
+    expect(body.conversationId).toBe(id);
+    expect(body.dimensions.length).toBeGreaterThan(0);
+    expect(body.moments.length).toBeGreaterThan(0);
+    expect(body.speechMetrics.talkTimeRatio).not.toBeNull();
+  });
+
+  it("should report a conversation that is still processing", async () => {
+    // Arrange
+    process.env.STAND_IN_PROCESSING_MS = "60000";
+
+    // Act
+    const response = await scoreConversation({ conversationId: conversationId("noteworthy-senior") });
+
+    // Assert
+    expect(response.status).toBe(409);
+  });
+
+  it("should return 404 for a conversation the stand-in does not have", async () => {
+    // Act
+    const response = await scoreConversation({ conversationId: "standin-no-such-case" });
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+
+  it("should self-heal a tier and verdict that contradict the rating", async () => {
+    // Arrange
+    const valid = await (await scoreConversation({ conversationId: conversationId("adequate-mid-level") })).json();
+    process.env.STAND_IN_SCORING = "self-heal";
+
+    // Act
+    const response = await scoreConversation({ conversationId: conversationId("adequate-mid-level") });
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.eloRating).toBe(valid.eloRating);
+    expect(body.tier).toBe(valid.tier);
+    expect(body.verdict).toBe(valid.verdict);
+  });
+
+  it("should repair a response that fails validation", async () => {
+    // Arrange
+    process.env.STAND_IN_SCORING = "repair";
+
+    // Act
+    const response = await scoreConversation({ conversationId: conversationId("adequate-mid-level") });
+
+    // Assert
+    expect(response.status).toBe(200);
+    const messageCalls = vi
+      .mocked(globalThis.fetch)
+      .mock.calls.filter(([input]) => String(input).endsWith("/v1/messages"));
+    expect(messageCalls).toHaveLength(2);
+  });
+
+  it("should give up when every attempt fails validation", async () => {
+    // Arrange
+    process.env.STAND_IN_SCORING = "invalid";
+
+    // Act
+    const response = await scoreConversation({ conversationId: conversationId("adequate-mid-level") });
+
+    // Assert
+    expect(response.status).toBe(500);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Failed to score the interview" });
+  });
+
+  it("should stream scoring from the stand-in", async () => {
+    // Act
+    const response = await scoreConversation({
+      conversationId: conversationId("impressive-principal"),
+      stream: true,
+    });
+    const events = await response.text();
+
+    // Assert
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    expect(events).toContain("event: dimension");
+    expect(events).toContain("event: result");
+  });
+
+  it("should return 400 for a Messages API request whose body is not JSON", async () => {
+    // Act
+    const response = await standInFetch(`${STAND_IN_ORIGIN}/anthropic/v1/messages`, {
+      method: "POST",
+      headers: { "x-api-key": "stand-in", "Content-Type": "application/json" },
+      body: "{not json",
+    });
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      type: "error",
+      error: { type: "invalid_request_error", message: "The request body is not valid JSON" },
+    });
+  });
+
+  it("should not serve the stand-ins unless STAND_INS=1", async () => {
+    // Arrange
+    delete process.env.STAND_INS;
+
+    // Act
+    const response = await standInFetch(
+      `${STAND_IN_ORIGIN}/elevenlabs/v1/convai/conversations/standin-noteworthy-senior`,
+      { headers: { "xi-api-key": "stand-in" } },
+    );
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+});
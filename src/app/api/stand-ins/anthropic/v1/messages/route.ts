@@ -0,0 +1,72 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import {
+  STAND_IN_SCORING_MODES,
+  type MessagesRequest,
+  resolveStandInScoringMode,
+  standInMessage,
+  standInStreamEvents,
+  standInsEnabled,
+} from "@/lib/stand-ins";
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+/**
+ * Stand-in for Anthropic's POST /v1/messages, answering scoring requests
+ * in the mode set by STAND_IN_SCORING (see lib/stand-ins). Streams when
+ * the request asks to. Only served with STAND_INS=1.
+ */
+export async function POST(req: NextRequest) {
+  if (!standInsEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  if (!req.headers.get("x-api-key")) {
+    return NextResponse.json(
+      { type: "error", error: { type: "authentication_error", message: "Missing x-api-key header" } },
+      { status: 401 },
+    );
+  }
+
+  const mode = resolveStandInScoringMode();
+  if (!mode) {
+    return NextResponse.json(
+      {
+        type: "error",
+        error: {
+          type: "api_error",
+          message: `STAND_IN_SCORING must be one of: ${STAND_IN_SCORING_MODES.join(", ")}`,
+        },
+      },
+      { status: 500 },
+    );
+  }
+
+  let request: MessagesRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return NextResponse.json(
+      { type: "error", error: { type: "invalid_request_error", message: "The request body is not valid JSON" } },
+      { status: 400 },
+    );
+  }
+
+  const reply = standInMessage(request, mode);
+  if (!reply.ok) {
+    return NextResponse.json(reply.body, { status: reply.status });
+  }
+
+  if (request.stream !== true) {
+    return NextResponse.json(reply.message, { status: 200 });
+  }
+
+  const body = standInStreamEvents(reply.message)
+    .map(({ event, data }) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    .join("");
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
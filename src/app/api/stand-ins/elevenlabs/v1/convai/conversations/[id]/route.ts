@@ -0,0 +1,37 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+
+import { standInConversation, standInsEnabled } from "@/lib/stand-ins";
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+/**
+ * Stand-in for ElevenLabs' GET /v1/convai/conversations/{id}, serving the
+ * calibration corpus (see lib/stand-ins). Only served with STAND_INS=1.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!standInsEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  if (!req.headers.get("xi-api-key")) {
+    return NextResponse.json(
+      { detail: { status: "invalid_api_key", message: "Missing xi-api-key header" } },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+  const conversation = standInConversation(id);
+  if (!conversation) {
+    return NextResponse.json(
+      { detail: { status: "conversation_not_found", message: `No stand-in conversation ${id}` } },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(conversation, { status: 200 });
+}
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the POST /api/webhooks/elevenlabs route handler.
+ *
+ * Tests the ElevenLabs post-call webhook receiver: signature verification,
+ * storing post_call_transcription transcripts, and waking requests that
+ * are waiting on a transcript.
+ *
+ * Mocking strategy:
+ * - Requests are signed for real with the test secret, the same way
+ *   ElevenLabs signs them, so verification runs unmocked.
+ * - The transcript store is a module-level Map that persists across
+ *   tests, so each test uses its own conversation ID.
+ */
+import { createHmac } from "crypto";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/webhooks/elevenlabs/route";
+import {
+  getStoredConversation,
+  getStoredTranscript,
+  waitForTranscript,
+} from "@/lib/transcript-store";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const SECRET = "test-webhook-secret";
+
+let conversationCounter = 0;
+function nextConversationId(): string {
+  conversationCounter++;
+  return `conv_webhook_${String(conversationCounter).padStart(8, "0")}`;
+}
+
+/** A post_call_transcription event for the given conversation */
+function transcriptionEvent(conversationId: string) {
+  return {
+    type: "post_call_transcription",
+    event_timestamp: 1_700_000_000,
+    data: {
+      agent_id: "agent_test",
+      conversation_id: conversationId,
+      status: "done",
+      transcript: [
+        { role: "agent", message: "Sit down.", time_in_call_secs: 0 },
+        { role: "user", message: "Thank you.", time_in_call_secs: 2 },
+        { role: "agent", message: null, time_in_call_secs: 5 },
+      ],
+      metadata: {
+        start_time_unix_secs: 1_699_999_990,
+        call_duration_secs: 7,
+        termination_reason: "end_call tool was called.",
+      },
+    },
+  };
+}
+
+/** The ElevenLabs-Signature header for a body signed at `timestamp` */
+function sign(body: string, timestamp = Math.floor(Date.now() / 1000), secret = SECRET) {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v0=${digest}`;
+}
+
+function createWebhookRequest(event: unknown, signature?: string | null): NextRequest {
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const header = signature === undefined ? sign(body) : signature;
+  if (header !== null) headers["ElevenLabs-Signature"] = header;
+  return new NextRequest("http://localhost:3000/api/webhooks/elevenlabs", {
+    method: "POST",
+    headers,
+    body,
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("POST /api/webhooks/elevenlabs", () => {
+  beforeEach(() => {
+    process.env.ELEVENLABS_WEBHOOK_SECRET = SECRET;
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should store the transcript of a post_call_transcription event", async () => {
+    // Arrange
+    const id = nextConversationId();
+
+    // Act
+    const response = await POST(createWebhookRequest(transcriptionEvent(id)));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(getStoredTranscript(id)).toEqual([
+      { role: "agent", message: "Sit down.", timestamp: 0 },
+      { role: "user", message: "Thank you.", timestamp: 2 },
+      { role: "agent", message: "", timestamp: 5 },
+    ]);
+  });
+
+  it("should store the conversation's metadata with the transcript", async () => {
+    // Arrange
+    const id = nextConversationId();
+
+    // Act
+    await POST(createWebhookRequest(transcriptionEvent(id)));
+
+    // Assert
+    expect(getStoredConversation(id)?.metadata).toEqual({
+      startedAt: "2023-11-14T22:13:10.000Z",
+      durationSeconds: 7,
+      terminationReason: "end_call tool was called.",
+    });
+  });
+
+  it("should wake a request already waiting on the transcript", async () => {
+    // Arrange
+    const id = nextConversationId();
+    const waiting = waitForTranscript(id, 10_000);
+
+    // Act
+    await POST(createWebhookRequest(transcriptionEvent(id)));
+
+    // Assert
+    await expect(waiting).resolves.toHaveLength(3);
+  });
+
+  it("should acknowledge and ignore other event types", async () => {
+    // Arrange
+    const id = nextConversationId();
+    const event = { ...transcriptionEvent(id), type: "post_call_audio" };
+
+    // Act
+    const response = await POST(createWebhookRequest(event));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(getStoredTranscript(id)).toBeNull();
+  });
+
+  it.each([
+    ["a missing signature", null],
+    ["a signature made with another secret", sign("{}", undefined, "wrong-secret")],
+    ["a malformed signature", "v0=abc"],
+  ])("should return 401 for %s", async (_label, signature) => {
+    // Arrange
+    const id = nextConversationId();
+
+    // Act
+    const response = await POST(createWebhookRequest(transcriptionEvent(id), signature));
+
+    // Assert
+    expect(response.status).toBe(401);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Invalid signature" });
+    expect(getStoredTranscript(id)).toBeNull();
+  });
+
+  it("should return 401 for a correctly signed event older than 30 minutes", async () => {
+    // Arrange
+    const id = nextConversationId();
+    const event = transcriptionEvent(id);
+    const stale = Math.floor(Date.now() / 1000) - 31 * 60;
+
+    // Act
+    const response = await POST(
+      createWebhookRequest(event, sign(JSON.stringify(event), stale)),
+    );
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(getStoredTranscript(id)).toBeNull();
+  });
+
+  it("should return 400 for a malformed conversation ID", async () => {
+    // Act
+    const response = await POST(createWebhookRequest(transcriptionEvent("../../admin")));
+
+    // Assert
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Invalid conversation ID format" });
+  });
+
+  it("should return 500 when ELEVENLABS_WEBHOOK_SECRET is not configured", async () => {
+    // Arrange
+    delete process.env.ELEVENLABS_WEBHOOK_SECRET;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    // Act
+    const response = await POST(createWebhookRequest(transcriptionEvent(nextConversationId())));
+
+    // Assert
+    expect(response.status).toBe(500);
+    const body = await response.json();
+    expect(body).toEqual({ error: "Service configuration error" });
+  });
+});
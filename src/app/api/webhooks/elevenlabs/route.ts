@@ -0,0 +1,109 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { createHmac, timingSafeEqual } from "crypto";
+
+import {
+  CONVERSATION_ID_PATTERN,
+  type ElevenLabsConversationMetadata,
+  type ElevenLabsTranscriptTurn,
+  toConversationMetadata,
+  toTranscriptEntries,
+} from "@/lib/conversations";
+import { storeTranscript } from "@/lib/transcript-store";
+
+// ─── Signature Verification ─────────────────────────────────────────────────
+
+/** Oldest event timestamp accepted, to stop a captured request being replayed */
+const SIGNATURE_TOLERANCE_SECONDS = 30 * 60;
+
+/**
+ * Checks the ElevenLabs-Signature header, "t=<unix seconds>,v0=<hex>",
+ * where the digest is HMAC-SHA256 of "<t>.<raw body>" keyed with the
+ * webhook secret.
+ */
+function verifySignature(header: string | null, rawBody: string, secret: string): boolean {
+  if (!header) return false;
+
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    }),
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v0");
+  if (!Number.isInteger(timestamp) || !signature || !/^[a-f0-9]{64}$/.test(signature)) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest();
+  return timingSafeEqual(expected, Buffer.from(signature, "hex"));
+}
+
+// ─── Route Handler ──────────────────────────────────────────────────────────
+
+/**
+ * Receives ElevenLabs post-call webhooks. A post_call_transcription event
+ * stores the conversation's transcript, waking any request waiting on it
+ * (see GET /api/conversations/[id]?wait=). Other event types are
+ * acknowledged and ignored. Requests must carry a valid signature made
+ * with ELEVENLABS_WEBHOOK_SECRET.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Verify the signature over the raw body
+    const secret = process.env.ELEVENLABS_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error("[elevenlabs-webhook] ELEVENLABS_WEBHOOK_SECRET is not configured");
+      return NextResponse.json(
+        { error: "Service configuration error" },
+        { status: 500 },
+      );
+    }
+
+    const rawBody = await req.text();
+    if (!verifySignature(req.headers.get("elevenlabs-signature"), rawBody, secret)) {
+      return NextResponse.json(
+        { error: "Invalid signature" },
+        { status: 401 },
+      );
+    }
+
+    // 2. Only transcripts are of interest
+    const event = JSON.parse(rawBody);
+    if (event.type !== "post_call_transcription") {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const conversationId = event.data?.conversation_id;
+    if (typeof conversationId !== "string" || !CONVERSATION_ID_PATTERN.test(conversationId)) {
+      return NextResponse.json(
+        { error: "Invalid conversation ID format" },
+        { status: 400 },
+      );
+    }
+    if (event.data.transcript !== undefined && !Array.isArray(event.data.transcript)) {
+      return NextResponse.json(
+        { error: "Transcript must be an array" },
+        { status: 400 },
+      );
+    }
+
+    // 3. Store it for the conversations and score-interview routes
+    storeTranscript(
+      conversationId,
+      toTranscriptEntries(event.data.transcript as ElevenLabsTranscriptTurn[] | undefined),
+      toConversationMetadata(event.data.metadata as ElevenLabsConversationMetadata | undefined),
+    );
+    console.info(`[elevenlabs-webhook] Stored transcript, id=${conversationId}`);
+
+    return NextResponse.json({ received: true }, { status: 200 });
+  } catch (err) {
+    console.error("[elevenlabs-webhook] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "Failed to process webhook" },
+      { status: 500 },
+    );
+  }
+}
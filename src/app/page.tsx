@@ -4,18 +4,30 @@ import { useCallback, useEffect, useRef } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 
 import { useInterviewWizard } from "@/hooks/useInterviewWizard";
+import { PersonaContext } from "@/hooks/usePersona";
 import { useReducedMotion } from "@/hooks/useReducedMotion";
-import { fetchTranscript } from "@/lib/elevenlabs";
+import { SCORING_RUBRIC_ID } from "@/lib/constants";
+import { fetchConversation } from "@/lib/elevenlabs";
+import { getLoop } from "@/lib/loops";
+import { resolvePersona } from "@/lib/personas";
+import { stitchConversations } from "@/lib/transcript";
+import { streamInterviewScore } from "@/lib/scoring-stream";
 import { getTransition, springs } from "@/lib/motion";
 
 import LandingStep from "@/components/LandingStep";
 import UploadCvStep from "@/components/UploadCvStep";
+import ProvideJdStep from "@/components/ProvideJdStep";
 import InterviewStep from "@/components/InterviewStep";
 import AnalysisStep from "@/components/AnalysisStep";
 import ResultsStep from "@/components/ResultsStep";
 import StepIndicator from "@/components/StepIndicator";
 
-import type { WizardState } from "@/lib/types";
+import type {
+  EndedInterview,
+  InterviewDifficulty,
+  TranscriptEntry,
+  WizardState,
+} from "@/lib/types";
 
 export default function Home() {
   const { state, actions } = useInterviewWizard();
@@ -56,45 +68,72 @@ export default function Home() {
     return () => cancelAnimationFrame(raf);
   }, [state.step]);
 
-  /* Analysis pipeline: fetchTranscript -> POST /api/score-interview -> set results.
+  /* Analysis pipeline: fetchConversation -> POST /api/score-interview (streamed, by
+     conversation ID) -> set results. The transcript and ElevenLabs' metadata are
+     fetched here for display; how the call ended is passed on to scoring. A call
+     resumed after dropping spans several conversations, stitched into one here
+     and again by the server.
+     If it never becomes available, the lines captured live during the call are
+     scored instead, unverified. A demo interview's transcript is already in hand
+     and is sent for offline scoring. A round of an interview loop is scored
+     against the round's rubric, and its results are recorded on the loop.
      Reads from stateSnapshotRef to get the latest state values mid-chain. */
-  async function runAnalysisPipeline(conversationId: string) {
+  async function runAnalysisPipeline(
+    interview: EndedInterview | { demoTranscript: TranscriptEntry[] }
+  ) {
     actions.setStep("analysis");
     actions.setAnalysisPhase(1);
+    actions.setPartialResults(null);
 
     try {
       // Phase 1: Retrieve transcript
-      const transcript = await fetchTranscript(conversationId);
+      let transcript: TranscriptEntry[];
+      let interviewSource: Record<string, unknown>;
+      if ("demoTranscript" in interview) {
+        transcript = interview.demoTranscript;
+        interviewSource = { transcript, demo: true, interviewMode: "text" };
+      } else {
+        const { interviewMode, termination } = interview;
+        try {
+          const conversation = stitchConversations(
+            await Promise.all(interview.conversationIds.map(fetchConversation))
+          );
+          transcript = conversation.transcript;
+          // The server fetches the transcript itself, so the result is verified
+          interviewSource = {
+            conversationIds: interview.conversationIds,
+            interviewMode,
+            termination,
+          };
+        } catch (err) {
+          if (!interview.liveTranscript.some((entry) => entry.role === "user")) throw err;
+          console.warn("[Analysis] Transcript unavailable, scoring the live transcript:", err);
+          transcript = interview.liveTranscript;
+          interviewSource = { transcript, interviewMode, termination };
+        }
+      }
       actions.setTranscript(transcript);
 
       // Phase 2: Score the interview
       actions.setAnalysisPhase(2);
 
       const snap = stateSnapshotRef.current;
-      const transcriptText = transcript
-        .map(
-          (e) => `${e.role === "agent" ? "Interviewer" : "Candidate"}: ${e.message}`
-        )
-        .join("\n\n");
-
-      const scoreRes = await fetch("/api/score-interview", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          cvText: snap.cvText || "",
-          transcript: transcriptText,
-        }),
-      });
-
-      if (!scoreRes.ok) {
-        const body = await scoreRes.json().catch(() => ({}));
-        throw new Error(
-          body.error || `Scoring failed (${scoreRes.status})`
-        );
-      }
+      const loopRound = snap.loop && getLoop(snap.loop.loopId)?.rounds[snap.loop.round];
 
-      const scoringResults = await scoreRes.json();
+      // Dimensions and moments stream in as soon as the server validates them
+      const scoringResults = await streamInterviewScore(
+        {
+          cvText: snap.cvText || "",
+          jdText: snap.jdText || "",
+          ...interviewSource,
+          rubric: loopRound?.rubric ?? SCORING_RUBRIC_ID,
+          difficulty: snap.agentPrompt.difficulty,
+          persona: snap.personaId,
+        },
+        actions.setPartialResults
+      );
       actions.setResults(scoringResults);
+      if (snap.loop) actions.recordLoopResults(scoringResults);
 
       // Phase 3: Brief visual "deliberating" phase
       actions.setAnalysisPhase(3);
@@ -112,44 +151,82 @@ export default function Home() {
     }
   }
 
-  /* Handle conversation end from the InterviewStep — stores the conversation ID
-     and kicks off the analysis pipeline. */
+  /* Handle conversation end from the InterviewStep — stores the conversation IDs
+     and how the call ended, and kicks off the analysis pipeline. */
   const handleConversationEnd = useCallback(
-    (conversationId: string) => {
-      actions.setConversationId(conversationId);
-      runAnalysisPipeline(conversationId);
+    (interview: EndedInterview) => {
+      actions.setConversationIds(interview.conversationIds);
+      actions.setTermination(interview.termination);
+      runAnalysisPipeline(interview);
+    },
+    [actions]
+  );
+
+  /* Handle the end of a scripted demo interview — scores the typed transcript */
+  const handleDemoEnd = useCallback(
+    (transcript: TranscriptEntry[]) => {
+      runAnalysisPipeline({ demoTranscript: transcript });
     },
     [actions]
   );
 
-  /* Handler for "Try Again" — preserves CV, returns to interview step */
+  /* Handler for "Try Again" — preserves CV and job description, returns to interview step.
+     In a loop, a scored round is retaken as a single interview, outside the loop. */
   const handleTryAgain = useCallback(() => {
     actions.resetForRetry();
   }, [actions]);
 
+  /* Handler for moving on to the next round of an interview loop */
+  const handleContinueLoop = useCallback(() => {
+    actions.advanceLoop();
+  }, [actions]);
+
   /* Handler for "Start Over" — full reset to landing step */
   const handleStartOver = useCallback(() => {
     actions.resetFull();
   }, [actions]);
 
-  /* Handler for upload success — stores CV text and advances to interview */
+  /* Handler for upload success — stores CV text and advances to the job description */
   const handleFileUploaded = useCallback(
     (text: string, fileName: string) => {
       actions.setCvText(text);
       actions.setCvFileName(fileName);
-      actions.setStep("interview");
+      actions.setStep("provide-jd");
     },
     [actions]
   );
 
-  /* Handler for upload skip — advances to interview without a CV */
+  /* Handler for upload skip — advances to the job description without a CV */
   const handleSkipUpload = useCallback(() => {
+    actions.setStep("provide-jd");
+  }, [actions]);
+
+  /* Handler for job description success — stores JD text and advances to interview */
+  const handleJdUploaded = useCallback(
+    (text: string, fileName: string) => {
+      actions.setJdText(text);
+      actions.setJdFileName(fileName);
+      actions.setStep("interview");
+    },
+    [actions]
+  );
+
+  /* Handler for job description skip — advances to interview without a JD */
+  const handleSkipJd = useCallback(() => {
     actions.setStep("interview");
   }, [actions]);
 
-  /* Handler for declining the incoming call — returns to upload-cv step */
+  /* Handler for picking a difficulty on the incoming call screen */
+  const handleDifficultyChange = useCallback(
+    (difficulty: InterviewDifficulty) => {
+      actions.setAgentPrompt({ ...state.agentPrompt, difficulty });
+    },
+    [actions, state.agentPrompt]
+  );
+
+  /* Handler for declining the incoming call — returns to provide-jd step */
   const handleDecline = useCallback(() => {
-    actions.setStep("upload-cv");
+    actions.setStep("provide-jd");
   }, [actions]);
 
   /* Handler for errors from step components */
@@ -160,178 +237,230 @@ export default function Home() {
     [actions]
   );
 
+  /* Handler for picking an interviewer on the landing page — a single interview,
+     since each round of a loop has its own */
+  const handlePersonaChange = useCallback(
+    (id: string) => {
+      actions.startLoop(null);
+      actions.setPersona(id);
+    },
+    [actions]
+  );
+
+  /* Handler for picking an interview loop, or a single interview, on the landing page */
+  const handleLoopChange = useCallback(
+    (loopId: string | null) => {
+      actions.startLoop(loopId);
+    },
+    [actions]
+  );
+
   /* Handler for beginning the interview from the landing page */
   const handleBegin = useCallback(() => {
     actions.setStep("upload-cv");
   }, [actions]);
 
   const isLanding = state.step === "landing";
+  const persona = resolvePersona(state.personaId);
+  const loop = state.loop ? getLoop(state.loop.loopId) : null;
 
   return (
-    <div className="flex min-h-screen flex-col">
-      {/* Skip-to-content link — first focusable element for keyboard users */}
-      <a
-        href="#main-content"
-        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-50 focus:rounded-lg focus:bg-text-primary focus:px-4 focus:py-2 focus:text-sm focus:font-semibold focus:text-white focus:shadow-lg"
-      >
-        Skip to content
-      </a>
-
-      {/* Step indicator — hidden on landing */}
-      {!isLanding && (
-        <StepIndicator
-          currentStep={state.step}
-          prefersReducedMotion={prefersReducedMotion}
-        />
-      )}
-
-      {/* Error banner with shake animation */}
-      <AnimatePresence mode="wait">
-        {state.error && (
-          <motion.div
-            key={state.error}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            transition={
-              prefersReducedMotion
-                ? { duration: 0.01 }
-                : { duration: 0.3, ease: [0.4, 0, 0.2, 1] }
-            }
-            className="error-shake mx-auto w-full max-w-[886px] px-6"
-          >
-            <div
-              className="mt-4 rounded-lg border border-error/20 bg-error/10 px-4 py-3 text-sm text-error"
-              role="alert"
-              aria-live="assertive"
+    <PersonaContext value={persona}>
+      <div className="flex min-h-screen flex-col">
+        {/* Skip-to-content link — first focusable element for keyboard users */}
+        <a
+          href="#main-content"
+          className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-50 focus:rounded-lg focus:bg-text-primary focus:px-4 focus:py-2 focus:text-sm focus:font-semibold focus:text-white focus:shadow-lg"
+        >
+          Skip to content
+        </a>
+
+        {/* Step indicator — hidden on landing */}
+        {!isLanding && (
+          <StepIndicator
+            currentStep={state.step}
+            prefersReducedMotion={prefersReducedMotion}
+            loop={loop}
+            loopProgress={state.loop}
+          />
+        )}
+
+        {/* Error banner with shake animation */}
+        <AnimatePresence mode="wait">
+          {state.error && (
+            <motion.div
+              key={state.error}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={
+                prefersReducedMotion
+                  ? { duration: 0.01 }
+                  : { duration: 0.3, ease: [0.4, 0, 0.2, 1] }
+              }
+              className="error-shake mx-auto w-full max-w-[886px] px-6"
             >
-              <div className="flex items-start gap-2">
-                <svg
-                  className="h-5 w-5 shrink-0"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
-                  aria-hidden="true"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                  />
-                </svg>
-                <div className="flex-1">
-                  {state.error}
-                  <button
-                    onClick={() => actions.setError(null)}
-                    className="ml-2 cursor-pointer font-medium underline transition-colors duration-150 hover:no-underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+              <div
+                className="mt-4 rounded-lg border border-error/20 bg-error/10 px-4 py-3 text-sm text-error"
+                role="alert"
+                aria-live="assertive"
+              >
+                <div className="flex items-start gap-2">
+                  <svg
+                    className="h-5 w-5 shrink-0"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    aria-hidden="true"
                   >
-                    Dismiss
-                  </button>
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                    />
+                  </svg>
+                  <div className="flex-1">
+                    {state.error}
+                    <button
+                      onClick={() => actions.setError(null)}
+                      className="ml-2 cursor-pointer font-medium underline transition-colors duration-150 hover:no-underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          </motion.div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Landing step renders OUTSIDE the card container.
+           No AnimatePresence exit — the landing wrapper uses flex-1, so an exit
+           animation would keep it in the DOM taking up full height while the card
+           container renders below it, causing a visible gap that collapses. The
+           upload-cv step already has its own entrance animation for visual polish. */}
+        {isLanding && (
+          <div id="main-content" className="flex flex-1">
+            <LandingStep
+              onBegin={handleBegin}
+              onPersonaChange={handlePersonaChange}
+              loopId={state.loop?.loopId ?? null}
+              onLoopChange={handleLoopChange}
+              prefersReducedMotion={prefersReducedMotion}
+            />
+          </div>
         )}
-      </AnimatePresence>
-
-      {/* Landing step renders OUTSIDE the card container.
-         No AnimatePresence exit — the landing wrapper uses flex-1, so an exit
-         animation would keep it in the DOM taking up full height while the card
-         container renders below it, causing a visible gap that collapses. The
-         upload-cv step already has its own entrance animation for visual polish. */}
-      {isLanding && (
-        <div id="main-content" className="flex flex-1">
-          <LandingStep
-            onBegin={handleBegin}
-            prefersReducedMotion={prefersReducedMotion}
-          />
-        </div>
-      )}
-
-      {/* Card container for steps 2–5 */}
-      {!isLanding && (
-        <div className="mx-auto w-full max-w-[886px] px-4 py-6 md:px-0">
-          <div
-            id="main-content"
-            ref={mainContentRef}
-            tabIndex={-1}
-            className="border border-border rounded-3xl bg-bg-elevated p-6 outline-none md:p-9"
-          >
-            <AnimatePresence mode="wait">
-              {state.step === "upload-cv" && (
-                <motion.div
-                  key="upload-cv"
-                  initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
-                  animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
-                  exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
-                  transition={getTransition(prefersReducedMotion, springs.snappy)}
-                >
-                  <UploadCvStep
-                    onFileUploaded={handleFileUploaded}
-                    onSkip={handleSkipUpload}
-                    onError={handleError}
-                    prefersReducedMotion={prefersReducedMotion}
-                  />
-                </motion.div>
-              )}
-
-              {state.step === "interview" && (
-                <motion.div
-                  key="interview"
-                  initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
-                  animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
-                  exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
-                  transition={getTransition(prefersReducedMotion, springs.snappy)}
-                >
-                  <InterviewStep
-                    cvText={state.cvText}
-                    onConversationEnd={handleConversationEnd}
-                    onDecline={handleDecline}
-                    onError={handleError}
-                    prefersReducedMotion={prefersReducedMotion}
-                  />
-                </motion.div>
-              )}
-
-              {state.step === "analysis" && state.analysisPhase && (
-                <motion.div
-                  key="analysis"
-                  initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
-                  animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
-                  exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
-                  transition={getTransition(prefersReducedMotion, springs.snappy)}
-                >
-                  <AnalysisStep
-                    phase={state.analysisPhase!}
-                    prefersReducedMotion={prefersReducedMotion}
-                  />
-                </motion.div>
-              )}
-
-              {state.step === "results" &&
-                state.results &&
-                state.transcript && (
+
+        {/* Card container for steps 2–6 */}
+        {!isLanding && (
+          <div className="mx-auto w-full max-w-[886px] px-4 py-6 md:px-0">
+            <div
+              id="main-content"
+              ref={mainContentRef}
+              tabIndex={-1}
+              className="border border-border rounded-3xl bg-bg-elevated p-6 outline-none md:p-9"
+            >
+              <AnimatePresence mode="wait">
+                {state.step === "upload-cv" && (
                   <motion.div
-                    key="results"
+                    key="upload-cv"
                     initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
                     animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
                     exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
                     transition={getTransition(prefersReducedMotion, springs.snappy)}
                   >
-                    <ResultsStep
-                      results={state.results}
-                      transcript={state.transcript}
-                      onTryAgain={handleTryAgain}
-                      onStartOver={handleStartOver}
+                    <UploadCvStep
+                      onFileUploaded={handleFileUploaded}
+                      onSkip={handleSkipUpload}
+                      onError={handleError}
                       prefersReducedMotion={prefersReducedMotion}
                     />
                   </motion.div>
                 )}
-            </AnimatePresence>
+
+                {state.step === "provide-jd" && (
+                  <motion.div
+                    key="provide-jd"
+                    initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
+                    animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
+                    exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
+                    transition={getTransition(prefersReducedMotion, springs.snappy)}
+                  >
+                    <ProvideJdStep
+                      onFileUploaded={handleJdUploaded}
+                      onSkip={handleSkipJd}
+                      onError={handleError}
+                      prefersReducedMotion={prefersReducedMotion}
+                    />
+                  </motion.div>
+                )}
+
+                {state.step === "interview" && (
+                  <motion.div
+                    key="interview"
+                    initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
+                    animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
+                    exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
+                    transition={getTransition(prefersReducedMotion, springs.snappy)}
+                  >
+                    <InterviewStep
+                      cvText={state.cvText}
+                      jdText={state.jdText}
+                      agentPrompt={state.agentPrompt}
+                      onDifficultyChange={loop ? undefined : handleDifficultyChange}
+                      onConversationEnd={handleConversationEnd}
+                      onDemoEnd={handleDemoEnd}
+                      onDecline={handleDecline}
+                      onError={handleError}
+                      prefersReducedMotion={prefersReducedMotion}
+                    />
+                  </motion.div>
+                )}
+
+                {state.step === "analysis" && state.analysisPhase && (
+                  <motion.div
+                    key="analysis"
+                    initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
+                    animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
+                    exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
+                    transition={getTransition(prefersReducedMotion, springs.snappy)}
+                  >
+                    <AnalysisStep
+                      phase={state.analysisPhase!}
+                      partialResults={state.partialResults}
+                      prefersReducedMotion={prefersReducedMotion}
+                    />
+                  </motion.div>
+                )}
+
+                {state.step === "results" &&
+                  state.results &&
+                  state.transcript && (
+                    <motion.div
+                      key="results"
+                      initial={{ opacity: 0, y: 8, filter: "blur(4px)" }}
+                      animate={{ opacity: 1, y: 0, filter: "blur(0)" }}
+                      exit={{ opacity: 0, scale: 0.98, filter: "blur(2px)" }}
+                      transition={getTransition(prefersReducedMotion, springs.snappy)}
+                    >
+                      <ResultsStep
+                        results={state.results}
+                        transcript={state.transcript}
+                        onTryAgain={handleTryAgain}
+                        onStartOver={handleStartOver}
+                        loop={loop}
+                        loopProgress={state.loop}
+                        onContinueLoop={handleContinueLoop}
+                        prefersReducedMotion={prefersReducedMotion}
+                      />
+                    </motion.div>
+                  )}
+              </AnimatePresence>
+            </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </PersonaContext>
   );
 }
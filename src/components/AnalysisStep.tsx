@@ -2,24 +2,45 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 
+import { SCORING_RUBRIC_ID } from "@/lib/constants";
 import { getTransition, getVariants, springs } from "@/lib/motion";
-import { ANALYSIS_PHASE_LABELS } from "@/lib/types";
+import { getDimensionLabel, resolveRubric, withRoleFit } from "@/lib/rubrics";
+import {
+  ANALYSIS_PHASE_LABELS,
+  MOMENT_LABELS,
+  MOMENT_SYMBOLS,
+} from "@/lib/types";
 
-import type { AnalysisPhase } from "@/lib/types";
+import type { AnalysisPhase, PartialScoringResults } from "@/lib/types";
 
 interface AnalysisStepProps {
   /** Current analysis pipeline phase (1: retrieving transcript, 2: boss reviewing, 3: deliberating) */
   phase: AnalysisPhase;
+  /** Scoring results streamed so far (null before scoring starts) */
+  partialResults: PartialScoringResults | null;
   /** Whether the user prefers reduced motion */
   prefersReducedMotion: boolean;
 }
 
 const PHASES: AnalysisPhase[] = [1, 2, 3];
 
+/**
+ * The rubric this client asks the server to score against, with role fit
+ * included so its label resolves when a job description was provided
+ */
+const RUBRIC = withRoleFit(resolveRubric(SCORING_RUBRIC_ID));
+
 export default function AnalysisStep({
   phase,
+  partialResults,
   prefersReducedMotion,
 }: AnalysisStepProps) {
+  const hasPartial =
+    partialResults !== null &&
+    (partialResults.bossSummary !== null ||
+      partialResults.dimensions.length > 0 ||
+      partialResults.moments.length > 0);
+
   return (
     <motion.div
       {...getVariants(prefersReducedMotion, {
@@ -137,6 +158,78 @@ export default function AnalysisStep({
         })}
       </div>
 
+      {/* Live verdict — fills in as the boss's assessment streams from the server */}
+      {hasPartial && partialResults && (
+        <motion.div
+          initial={prefersReducedMotion ? { opacity: 1 } : { opacity: 0, y: 6 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={getTransition(prefersReducedMotion, springs.snappy)}
+          className="mx-auto mt-10 max-w-md"
+          aria-live="polite"
+          aria-label="The boss's assessment so far"
+        >
+          {partialResults.bossSummary && (
+            <p className="text-center text-sm leading-relaxed text-text-secondary italic">
+              &ldquo;{partialResults.bossSummary}&rdquo;
+            </p>
+          )}
+
+          {partialResults.dimensions.length > 0 && (
+            <ul className="mt-6 space-y-2">
+              <AnimatePresence initial={false}>
+                {partialResults.dimensions.map((dim) => (
+                  <motion.li
+                    key={dim.name}
+                    initial={prefersReducedMotion ? { opacity: 1 } : { opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={getTransition(prefersReducedMotion, springs.snappy)}
+                    className="flex items-center justify-between rounded-lg border px-4 py-2.5"
+                    style={{ borderColor: "var(--color-border)" }}
+                  >
+                    <span className="text-sm font-medium text-text-primary">
+                      {getDimensionLabel(RUBRIC, dim.name)}
+                    </span>
+                    <span
+                      className="text-sm font-bold tabular-nums text-text-primary"
+                      aria-label={`Score: ${dim.score} out of 10`}
+                    >
+                      {dim.score}/10
+                    </span>
+                  </motion.li>
+                ))}
+              </AnimatePresence>
+            </ul>
+          )}
+
+          {partialResults.moments.length > 0 && (
+            <ul className="mt-4 space-y-2">
+              <AnimatePresence initial={false}>
+                {partialResults.moments.map((moment, index) => (
+                  <motion.li
+                    key={index}
+                    initial={prefersReducedMotion ? { opacity: 1 } : { opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={getTransition(prefersReducedMotion, springs.snappy)}
+                    className="flex items-start gap-3 rounded-lg px-4 py-2.5"
+                    style={{ backgroundColor: "var(--color-bg-muted)" }}
+                  >
+                    <span
+                      className="shrink-0 text-sm font-bold text-text-primary"
+                      aria-label={MOMENT_LABELS[moment.type]}
+                    >
+                      {MOMENT_SYMBOLS[moment.type]}
+                    </span>
+                    <span className="line-clamp-2 text-sm text-text-secondary">
+                      {moment.quote}
+                    </span>
+                  </motion.li>
+                ))}
+              </AnimatePresence>
+            </ul>
+          )}
+        </motion.div>
+      )}
+
       {/* Subtle hint */}
       <p
         className="mt-10 text-center text-xs text-text-secondary"
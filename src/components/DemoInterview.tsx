@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { usePersona } from "@/hooks/usePersona";
+import type { TranscriptEntry } from "@/lib/types";
+
+import InterviewChat from "./InterviewChat";
+
+/** Props for the DemoInterview component */
+export interface DemoInterviewProps {
+  /** Called with the transcript once the scripted interview ends */
+  onEnd: (transcript: TranscriptEntry[]) => void;
+  /** Whether the user prefers reduced motion */
+  prefersReducedMotion: boolean;
+}
+
+/** Milliseconds the interviewer spends "saying" each word of a scripted line */
+const DEMO_SPEAKING_MS_PER_WORD = 180;
+
+/** Pause after the closing line before the interview ends, in milliseconds */
+const CLOSING_PAUSE_MS = 1500;
+
+/**
+ * Text-only stand-in for the voice call, used in demo mode. The persona's
+ * scripted lines appear word by word while the interviewer is "speaking";
+ * the candidate types each answer. Ends after the closing line, or early
+ * when the candidate ends the interview.
+ */
+export default function DemoInterview({
+  onEnd,
+  prefersReducedMotion,
+}: DemoInterviewProps) {
+  const { name, demoScript } = usePersona();
+  const [messages, setMessages] = useState<TranscriptEntry[]>([]);
+  /** Words of the interviewer's latest line revealed so far (null when not speaking) */
+  const [spokenWords, setSpokenWords] = useState<number | null>(null);
+  const [ended, setEnded] = useState(false);
+  const answersGiven = messages.filter((m) => m.role === "user").length;
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const onEndRef = useRef(onEnd);
+  onEndRef.current = onEnd;
+  const hasOpenedRef = useRef(false);
+  const hasEndedRef = useRef(false);
+
+  const finish = useCallback(() => {
+    if (hasEndedRef.current) return;
+    hasEndedRef.current = true;
+    setEnded(true);
+    onEndRef.current(messagesRef.current);
+  }, []);
+
+  /** Adds a line from the interviewer and starts "saying" it */
+  const speak = useCallback((line: string) => {
+    setMessages((prev) => [...prev, { role: "agent", message: line }]);
+    setSpokenWords(0);
+  }, []);
+
+  // The interviewer opens the call (once, even when effects run twice in development)
+  useEffect(() => {
+    if (hasOpenedRef.current) return;
+    hasOpenedRef.current = true;
+    speak(demoScript.opening);
+  }, [speak, demoScript]);
+
+  // Reveal the latest line word by word, then hand the floor to the candidate
+  useEffect(() => {
+    if (spokenWords === null) return;
+    const line = messages[messages.length - 1]?.message ?? "";
+    const wordCount = line.split(/\s+/).length;
+
+    if (spokenWords >= wordCount || prefersReducedMotion) {
+      setSpokenWords(null);
+      if (line === demoScript.closing) {
+        const timer = setTimeout(finish, CLOSING_PAUSE_MS);
+        return () => clearTimeout(timer);
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => setSpokenWords(spokenWords + 1), DEMO_SPEAKING_MS_PER_WORD);
+    return () => clearTimeout(timer);
+  }, [spokenWords, messages, prefersReducedMotion, finish, demoScript]);
+
+  const isSpeaking = spokenWords !== null;
+  const awaitingAnswer = !isSpeaking && !ended && messages.at(-1)?.message !== demoScript.closing;
+
+  function handleSend(answer: string) {
+    setMessages((prev) => [...prev, { role: "user", message: answer }]);
+    speak(demoScript.questions[answersGiven] ?? demoScript.closing);
+  }
+
+  return (
+    <InterviewChat
+      messages={messages}
+      revealedWords={spokenWords}
+      status={
+        isSpeaking
+          ? `${name} is speaking`
+          : awaitingAnswer
+            ? "Your turn — type your answer"
+            : "Call ending…"
+      }
+      canAnswer={awaitingAnswer}
+      onSend={handleSend}
+      onEnd={finish}
+      ended={ended}
+      prefersReducedMotion={prefersReducedMotion}
+    />
+  );
+}
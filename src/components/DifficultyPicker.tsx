@@ -0,0 +1,55 @@
+"use client";
+
+import { DIFFICULTY_IDS, DIFFICULTY_LEVELS } from "@/lib/difficulty";
+import type { InterviewDifficulty } from "@/lib/types";
+
+/** Props for the DifficultyPicker component */
+export interface DifficultyPickerProps {
+  /** The selected difficulty */
+  value: InterviewDifficulty;
+  /** Called with the difficulty the candidate picks */
+  onChange: (difficulty: InterviewDifficulty) => void;
+}
+
+/**
+ * Choice of interview difficulty, shown on the incoming call screen. Each
+ * level changes how patient the boss is, how long the call can run and the
+ * bar for a HIRED verdict.
+ */
+export default function DifficultyPicker({ value, onChange }: DifficultyPickerProps) {
+  const selected = DIFFICULTY_LEVELS[value];
+
+  return (
+    <div className="mt-8 flex w-full max-w-[420px] flex-col items-center gap-3">
+      <div
+        role="radiogroup"
+        aria-label="Interview difficulty"
+        className="flex w-full rounded-lg border p-1"
+        style={{ borderColor: "var(--color-border)" }}
+      >
+        {DIFFICULTY_IDS.map((id) => {
+          const checked = id === value;
+          return (
+            <button
+              key={id}
+              type="button"
+              role="radio"
+              aria-checked={checked}
+              aria-describedby={checked ? "difficulty-description" : undefined}
+              onClick={() => onChange(id)}
+              className={`flex-1 cursor-pointer rounded-md px-3 py-2 text-sm font-medium transition-colors duration-150 ${
+                checked ? "text-white" : "text-text-secondary"
+              }`}
+              style={checked ? { backgroundColor: "var(--color-text-primary)" } : undefined}
+            >
+              {DIFFICULTY_LEVELS[id].label}
+            </button>
+          );
+        })}
+      </div>
+      <p id="difficulty-description" className="text-center text-sm text-text-tertiary">
+        {selected.description}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+
+import { usePersona } from "@/hooks/usePersona";
+import { getTransition, springs } from "@/lib/motion";
+import { stripVoiceTags } from "@/lib/transcript";
+import type { TranscriptEntry } from "@/lib/types";
+
+/** Props for the InterviewChat component */
+export interface InterviewChatProps {
+  /** The conversation so far */
+  messages: TranscriptEntry[];
+  /** Words of the latest message revealed so far, or null when it is shown in full */
+  revealedWords: number | null;
+  /** Whose turn it is, announced above the conversation */
+  status: string;
+  /** Whether the candidate can send an answer */
+  canAnswer: boolean;
+  /** Called with each answer the candidate sends */
+  onSend: (answer: string) => void;
+  /** Called when the candidate ends the interview */
+  onEnd: () => void;
+  /** Whether the interview has ended */
+  ended: boolean;
+  /** Whether the user prefers reduced motion */
+  prefersReducedMotion: boolean;
+}
+
+/**
+ * Chat view of the interview, used when the candidate types instead of
+ * speaking: the conversation, an answer box (Enter sends) and the End
+ * Interview button.
+ */
+export default function InterviewChat({
+  messages,
+  revealedWords,
+  status,
+  canAnswer,
+  onSend,
+  onEnd,
+  ended,
+  prefersReducedMotion,
+}: InterviewChatProps) {
+  const { name: bossName } = usePersona();
+  const [answer, setAnswer] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, revealedWords]);
+
+  function handleSubmit(event: React.SyntheticEvent) {
+    event.preventDefault();
+    const text = answer.trim();
+    if (!text || !canAnswer) return;
+
+    onSend(text);
+    setAnswer("");
+  }
+
+  return (
+    <div className="my-8 flex flex-col gap-4">
+      <p
+        className="text-center text-xs font-medium uppercase tracking-widest text-text-secondary"
+        aria-live="polite"
+      >
+        {status}
+      </p>
+
+      {/* Conversation */}
+      <div
+        ref={scrollRef}
+        className="flex max-h-[420px] min-h-[120px] flex-col gap-3 overflow-y-auto rounded-lg border p-4"
+        style={{ borderColor: "var(--color-border)" }}
+        aria-label="Interview conversation"
+      >
+        <AnimatePresence initial={false}>
+          {messages.map((m, i) => {
+            const isRevealing = i === messages.length - 1 && revealedWords !== null;
+            const message = stripVoiceTags(m.message);
+            const text = isRevealing
+              ? message.split(/\s+/).slice(0, revealedWords).join(" ")
+              : message;
+            return (
+              <motion.div
+                key={i}
+                initial={{ opacity: 0, y: 6 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={getTransition(prefersReducedMotion, springs.snappy)}
+                className={`max-w-[85%] rounded-lg px-4 py-3 text-sm leading-relaxed ${
+                  m.role === "agent" ? "self-start" : "self-end text-white"
+                }`}
+                style={{
+                  backgroundColor:
+                    m.role === "agent" ? "var(--color-bg-muted)" : "var(--color-text-primary)",
+                }}
+              >
+                {m.role === "agent" && (
+                  <p className="mb-1 text-[10px] font-semibold uppercase tracking-wider text-text-secondary">
+                    {bossName}
+                  </p>
+                )}
+                {/* Announce the whole message once, not every revealed word */}
+                <span aria-hidden={isRevealing}>{text || "…"}</span>
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {/* Answer box */}
+      <form onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row">
+        <label htmlFor="interview-answer" className="sr-only">
+          Your answer
+        </label>
+        <textarea
+          id="interview-answer"
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) handleSubmit(e);
+          }}
+          disabled={!canAnswer}
+          rows={2}
+          placeholder={canAnswer ? "Type your answer. Enter to send." : ""}
+          className="flex-1 resize-none rounded-lg border px-3 py-2 text-sm text-text-primary disabled:opacity-50"
+          style={{ borderColor: "var(--color-border)" }}
+        />
+        <button
+          type="submit"
+          disabled={!canAnswer || answer.trim().length === 0}
+          className="cursor-pointer rounded-lg px-5 py-2.5 text-sm font-medium text-white transition-colors duration-150 disabled:cursor-not-allowed disabled:opacity-50"
+          style={{ backgroundColor: "var(--color-text-primary)" }}
+        >
+          Send
+        </button>
+      </form>
+
+      <button
+        type="button"
+        onClick={onEnd}
+        disabled={ended}
+        className="cursor-pointer self-center rounded-lg border px-5 py-2.5 text-sm font-medium transition-colors duration-150 disabled:cursor-not-allowed disabled:opacity-50"
+        style={{
+          borderColor: "var(--color-text-tertiary)",
+          color: "var(--color-text-secondary)",
+        }}
+      >
+        End Interview
+      </button>
+    </div>
+  );
+}
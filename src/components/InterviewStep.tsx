@@ -1,17 +1,44 @@
 "use client";
 
 import { useConversation } from "@elevenlabs/react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 
+import { usePersona } from "@/hooks/usePersona";
 import { getTransition, getVariants, springs, slideUp } from "@/lib/motion";
-import { AGENT_ID } from "@/lib/constants";
+import { DEMO_MODE, MAX_CONVERSATION_SEGMENTS } from "@/lib/constants";
+import { DIFFICULTY_LEVELS } from "@/lib/difficulty";
+import { fetchSignedUrl, registerConversation, startInterviewSession } from "@/lib/elevenlabs";
+import { renderAgentPrompt } from "@/lib/agent-prompt";
+import { condenseJobDescription } from "@/lib/job-description";
+import { formatTranscript } from "@/lib/transcript";
+import type {
+  AgentPromptConfig,
+  EndedInterview,
+  InterviewMode,
+  InterviewDifficulty,
+  TerminationReason,
+  TranscriptEntry,
+} from "@/lib/types";
+
+import DemoInterview from "./DemoInterview";
+import DifficultyPicker from "./DifficultyPicker";
+import InterviewChat from "./InterviewChat";
+import LiveCaptions from "./LiveCaptions";
 
 interface InterviewStepProps {
   /** Extracted CV text (null if skipped) — passed to ElevenLabs as dynamicVariables.cv_content */
   cvText: string | null;
-  /** Called when the interview ends (after 2s delay) with the conversation ID */
-  onConversationEnd: (conversationId: string) => void;
+  /** Extracted job description text (null if skipped) — condensed and passed as dynamicVariables.jd_content */
+  jdText: string | null;
+  /** What the agent's prompt is rendered from, sent as a per-session override */
+  agentPrompt: AgentPromptConfig;
+  /** Called when the candidate picks a difficulty before answering; omitted when the round fixes it */
+  onDifficultyChange?: (difficulty: InterviewDifficulty) => void;
+  /** Called when the interview ends (after 2s delay) with its conversations and how it ended */
+  onConversationEnd: (interview: EndedInterview) => void;
+  /** Called when the scripted demo interview ends (demo mode only) with its transcript */
+  onDemoEnd: (transcript: TranscriptEntry[]) => void;
   /** Called when the user declines the call — returns to the previous step */
   onDecline: () => void;
   /** Called when an error occurs during the interview */
@@ -20,11 +47,14 @@ interface InterviewStepProps {
   prefersReducedMotion: boolean;
 }
 
-/** Hard time limit for the interview session in seconds (15 minutes) */
-const INTERVIEW_TIME_LIMIT_SECONDS = 15 * 60;
+/** How the interview is held, as the agent's interview_mode dynamic variable */
+const AGENT_INTERVIEW_MODES: Record<InterviewMode, string> = {
+  voice: "voice call",
+  text: "text chat",
+};
 
-/** The boss's name shown on the incoming call screen */
-const BOSS_NAME = "R.J. Carrington III";
+/** The agent's conversation_so_far dynamic variable for a call that has not dropped */
+const NEW_CONVERSATION = "Nothing yet. This is a new interview.";
 
 /**
  * Formats elapsed seconds as "MM:SS".
@@ -37,42 +67,101 @@ function formatElapsedTime(totalSeconds: number): string {
 
 export default function InterviewStep({
   cvText,
+  jdText,
+  agentPrompt,
+  onDifficultyChange,
   onConversationEnd,
+  onDemoEnd,
   onDecline,
   onError,
   prefersReducedMotion,
 }: InterviewStepProps) {
   const [ringing, setRinging] = useState(true);
+  const [interviewMode, setInterviewMode] = useState<InterviewMode>("voice");
+  /** Set when the candidate asked for voice but no microphone could be used */
+  const [micUnavailable, setMicUnavailable] = useState(false);
+  /** Lines of the conversation as they arrive, shown as captions or as the chat */
+  const [liveTranscript, setLiveTranscript] = useState<TranscriptEntry[]>([]);
+  const liveTranscriptRef = useRef(liveTranscript);
+  liveTranscriptRef.current = liveTranscript;
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
-  const conversationIdRef = useRef<string | null>(null);
+  /** Set while the call has dropped and the candidate can reconnect or end it */
+  const [dropped, setDropped] = useState(false);
+  /** The call's conversations so far: one, plus one for each reconnect */
+  const conversationIdsRef = useRef<string[]>([]);
+  const interviewModeRef = useRef<InterviewMode>("voice");
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const hasEndedRef = useRef(false);
+  /** Why the browser ended the call, when it did */
+  const endingRef = useRef<TerminationReason | null>(null);
+  /** When the current conversation connected */
+  const startedAtRef = useRef<number | null>(null);
+  /** Seconds spent in the call's earlier conversations */
+  const earlierSecondsRef = useRef(0);
   const cvTextRef = useRef(cvText);
   cvTextRef.current = cvText;
 
+  const jdContent = useMemo(() => (jdText ? condenseJobDescription(jdText) : ""), [jdText]);
+  const persona = usePersona();
+  const prompt = useMemo(() => renderAgentPrompt(agentPrompt, persona), [agentPrompt, persona]);
+  const timeLimitSeconds = DIFFICULTY_LEVELS[agentPrompt.difficulty].timeLimitSeconds;
+  const jdContentRef = useRef(jdContent);
+  jdContentRef.current = jdContent;
+
   const cvFallback =
     "No CV was uploaded. Ask the candidate about their background from scratch.";
+  const jdFallback =
+    "No job description was provided. You are not hiring for a specific role.";
 
   const conversation = useConversation({
     clientTools: {
       cv_content: async () => cvTextRef.current || cvFallback,
+      jd_content: async () => jdContentRef.current || jdFallback,
     },
     onConnect: ({ conversationId }) => {
       console.info("[Interview] Connected:", conversationId);
     },
-    onDisconnect: () => {
+    onDisconnect: (details) => {
       if (timerRef.current) {
         clearInterval(timerRef.current);
         timerRef.current = null;
       }
 
-      const id = conversationIdRef.current;
-      if (id) {
-        setTimeout(() => onConversationEnd(id), 2000);
+      // Nothing to analyse if the conversation never got registered
+      if (startedAtRef.current === null) return;
+      earlierSecondsRef.current += (Date.now() - startedAtRef.current) / 1000;
+      startedAtRef.current = null;
+
+      // A connection failure nobody asked for is a drop, which can be resumed
+      if (
+        details.reason === "error" &&
+        endingRef.current === null &&
+        conversationIdsRef.current.length < MAX_CONVERSATION_SEGMENTS
+      ) {
+        console.warn("[Interview] Connection lost");
+        setDropped(true);
+        return;
       }
+
+      // Otherwise ElevenLabs closed the call: the agent's end_call, or a failure
+      finishInterview(
+        endingRef.current ??
+          (details.reason === "agent"
+            ? "boss-ended"
+            : details.reason === "error"
+              ? "connection-lost"
+              : "candidate-ended"),
+        2000,
+      );
     },
     onMessage: ({ source, message }) => {
       console.debug(`[Interview] ${source}:`, message);
+      // Typed answers are added as they are sent
+      if (!message.trim() || (interviewModeRef.current === "text" && source === "user")) return;
+      setLiveTranscript((prev) => [
+        ...prev,
+        { role: source === "ai" ? "agent" : "user", message },
+      ]);
     },
     onError: (error) => {
       const message = typeof error === "string" ? error : String(error);
@@ -87,46 +176,132 @@ export default function InterviewStep({
   const conversationRef = useRef(conversation);
   conversationRef.current = conversation;
 
-  const startConversation = useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      stream.getTracks().forEach((t) => t.stop());
-    } catch {
-      onError("Microphone access is required for the interview.");
-      return;
-    }
+  /** Hands the call's conversations and how it ended to the analysis pipeline */
+  function finishInterview(reason: TerminationReason, delayMs: number) {
+    const interview: EndedInterview = {
+      conversationIds: conversationIdsRef.current,
+      interviewMode: interviewModeRef.current,
+      liveTranscript: liveTranscriptRef.current,
+      termination: { reason, durationSeconds: Math.round(earlierSecondsRef.current) },
+    };
+    setTimeout(() => onConversationEnd(interview), delayMs);
+  }
 
+  /**
+   * Opens a conversation with the agent and binds it to this browser. After
+   * a drop the agent is given the conversation so far, and picks up where
+   * the call left off. Returns whether the conversation started.
+   */
+  const connect = useCallback(async (mode: InterviewMode): Promise<boolean> => {
+    const resuming = conversationIdsRef.current.length > 0;
     try {
+      await startInterviewSession();
+      const { signedUrl, sessionNonce } = await fetchSignedUrl();
       const conversationId = await conversationRef.current.startSession({
-        agentId: AGENT_ID,
+        signedUrl,
         connectionType: "websocket",
+        textOnly: mode === "text",
         dynamicVariables: {
           cv_content: cvText || cvFallback,
+          jd_content: jdContent || jdFallback,
+          interview_mode: AGENT_INTERVIEW_MODES[mode],
+          conversation_so_far: resuming
+            ? formatTranscript(liveTranscriptRef.current)
+            : NEW_CONVERSATION,
+          // Lets the server check this session started the conversation before binding it
+          session_nonce: sessionNonce,
+          // Recorded by ElevenLabs, so verified scoring uses the difficulty and persona the call ran with
+          difficulty: agentPrompt.difficulty,
+          persona: persona.id,
+        },
+        // The persona's opening line and voice (the agent must allow first message and voice overrides)
+        overrides: {
+          agent: {
+            prompt: { prompt },
+            firstMessage: resuming ? persona.resumeMessage : persona.firstMessage,
+          },
+          ...(persona.voiceId && { tts: { voiceId: persona.voiceId } }),
         },
       });
-      conversationIdRef.current = conversationId;
+
+      // Bind the conversation to this browser before anything asks for its transcript
+      try {
+        await registerConversation(conversationId);
+      } catch (err) {
+        await conversationRef.current.endSession();
+        throw err;
+      }
+      conversationIdsRef.current = [...conversationIdsRef.current, conversationId];
+      startedAtRef.current = Date.now();
 
       timerRef.current = setInterval(() => {
         setElapsedSeconds((prev) => prev + 1);
       }, 1000);
+      return true;
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to connect to the interview.";
       onError(message);
+      return false;
     }
-  }, [cvText, onError]);
+  }, [cvText, jdContent, prompt, persona, agentPrompt.difficulty, onError]);
 
-  const handleAnswer = useCallback(() => {
-    setRinging(false);
-    startConversation();
-  }, [startConversation]);
+  const startConversation = useCallback(async (requestedMode: InterviewMode) => {
+    let mode = requestedMode;
+    if (mode === "voice") {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        stream.getTracks().forEach((t) => t.stop());
+      } catch {
+        // Without a microphone the interview carries on as a text chat
+        mode = "text";
+        setMicUnavailable(true);
+      }
+    }
+    interviewModeRef.current = mode;
+    setInterviewMode(mode);
+    await connect(mode);
+  }, [connect]);
 
-  // 15-minute hard time limit
+  /**
+   * Reconnects after a drop; the time limit keeps counting from where it
+   * stopped. A failed reconnect leaves the call dropped, so the candidate
+   * can try again or end it and be scored.
+   */
+  const resumeConversation = useCallback(async () => {
+    setDropped(false);
+    if (!(await connect(interviewModeRef.current))) setDropped(true);
+  }, [connect]);
+
+  /** Gives up on a dropped call and scores what was said before the drop */
+  function endDroppedConversation() {
+    setDropped(false);
+    hasEndedRef.current = true;
+    finishInterview("connection-lost", 0);
+  }
+
+  const handleAnswer = useCallback(
+    (mode: InterviewMode) => {
+      setRinging(false);
+      // The demo is a text conversation -- no microphone, session or agent
+      if (!DEMO_MODE) startConversation(mode);
+    },
+    [startConversation],
+  );
+
+  /** Sends a typed answer in a text interview */
+  const sendAnswer = useCallback((answer: string) => {
+    setLiveTranscript((prev) => [...prev, { role: "user", message: answer }]);
+    conversationRef.current.sendUserMessage(answer);
+  }, []);
+
+  // Hard time limit for the difficulty level
   useEffect(() => {
-    if (elapsedSeconds >= INTERVIEW_TIME_LIMIT_SECONDS && !hasEndedRef.current) {
+    if (elapsedSeconds >= timeLimitSeconds && !hasEndedRef.current) {
       hasEndedRef.current = true;
+      endingRef.current = "time-limit";
       conversationRef.current.endSession();
     }
-  }, [elapsedSeconds]);
+  }, [elapsedSeconds, timeLimitSeconds]);
 
   // Clean up the timer on unmount
   useEffect(() => {
@@ -139,11 +314,14 @@ export default function InterviewStep({
 
   const endConversation = useCallback(async () => {
     hasEndedRef.current = true;
+    endingRef.current ??= "candidate-ended";
     await conversationRef.current.endSession();
   }, []);
 
   const isSpeaking = conversation.isSpeaking;
   const status = conversation.status;
+  const bossReplying =
+    liveTranscript.length === 0 || liveTranscript[liveTranscript.length - 1].role === "user";
 
   return (
     <motion.div
@@ -234,15 +412,27 @@ export default function InterviewStep({
                 style={{ letterSpacing: "-0.013em" }}
                 tabIndex={-1}
               >
-                {BOSS_NAME}
+                {persona.name}
               </h2>
+              <p className="mt-1 font-inter text-sm text-text-secondary">
+                {persona.landing.title}
+              </p>
               <p className="mt-2 font-inter text-base leading-[22px] text-text-tertiary">
                 The interview is about to begin.
               </p>
+              {DEMO_MODE && (
+                <p className="mt-3 text-xs font-medium uppercase tracking-widest text-text-secondary">
+                  Demo — a scripted interview you answer by typing
+                </p>
+              )}
             </div>
 
+            {onDifficultyChange && (
+              <DifficultyPicker value={agentPrompt.difficulty} onChange={onDifficultyChange} />
+            )}
+
             {/* Answer / Decline buttons */}
-            <div className="mt-10 flex items-center gap-4">
+            <div className="mt-8 flex items-center gap-4">
               <motion.button
                 whileHover={{ scale: 1.04 }}
                 whileTap={{ scale: 0.96 }}
@@ -257,10 +447,26 @@ export default function InterviewStep({
                 Decline
               </motion.button>
 
+              {!DEMO_MODE && (
+                <motion.button
+                  whileHover={{ scale: 1.04 }}
+                  whileTap={{ scale: 0.96 }}
+                  onClick={() => handleAnswer("text")}
+                  className="cursor-pointer rounded-lg border px-6 py-3 text-sm font-medium transition-colors duration-150"
+                  style={{
+                    borderColor: "var(--color-text-tertiary)",
+                    color: "var(--color-text-secondary)",
+                  }}
+                  aria-label="Answer by text and type the interview instead of speaking"
+                >
+                  Answer by text
+                </motion.button>
+              )}
+
               <motion.button
                 whileHover={{ scale: 1.04 }}
                 whileTap={{ scale: 0.96 }}
-                onClick={handleAnswer}
+                onClick={() => handleAnswer("voice")}
                 className="cursor-pointer rounded-lg px-6 py-3 text-sm font-medium text-white transition-colors duration-150"
                 style={{
                   backgroundColor: "var(--color-success)",
@@ -289,12 +495,21 @@ export default function InterviewStep({
                   style={{ letterSpacing: "-0.013em" }}
                   tabIndex={-1}
                 >
-                  Interview with {BOSS_NAME}
+                  Interview with {persona.name}
                 </h2>
                 <p className="mt-3 font-inter text-base leading-[22px] text-text-tertiary max-w-[634px]">
-                  {BOSS_NAME} will question your experience, skills and composure.
-                  Speak naturally — end the interview whenever you are ready.
+                  {persona.name} will question your experience, skills and composure.
+                  {DEMO_MODE
+                    ? " This is a scripted demo — type your answers, and end the interview whenever you are ready."
+                    : interviewMode === "text"
+                      ? " Type your answers — end the interview whenever you are ready."
+                      : " Speak naturally — end the interview whenever you are ready."}
                 </p>
+                {micUnavailable && (
+                  <p className="mt-2 font-inter text-sm text-text-secondary" role="status">
+                    No microphone could be used, so this interview is a text chat.
+                  </p>
+                )}
               </div>
 
               {/* Elapsed time indicator */}
@@ -303,7 +518,7 @@ export default function InterviewStep({
                   className="shrink-0 ml-4 mt-1 font-inter text-xs tabular-nums"
                   style={{
                     color:
-                      elapsedSeconds >= INTERVIEW_TIME_LIMIT_SECONDS - 60
+                      elapsedSeconds >= timeLimitSeconds - 60
                         ? "var(--color-error)"
                         : "var(--color-text-tertiary)",
                   }}
@@ -315,148 +530,220 @@ export default function InterviewStep({
               )}
             </div>
 
-            {/* Mic visualiser */}
-            <div className="my-12 flex flex-col items-center gap-6">
-              {/* Status label with crossfade */}
-              <div className="relative h-6 overflow-hidden">
-                <AnimatePresence mode="wait">
-                  <motion.p
-                    key={status + String(isSpeaking)}
-                    initial={{ opacity: 0, y: -4 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 4 }}
-                    transition={getTransition(prefersReducedMotion, {
-                      duration: 0.15,
-                    })}
-                    className="text-xs font-medium uppercase tracking-widest text-text-secondary"
-                    aria-live="polite"
+            {/* Dropped call: reconnect, or end and be scored on what was said */}
+            {dropped && (
+              <div
+                role="alert"
+                className="mt-8 flex flex-col items-center gap-4 rounded-lg border p-6 text-center"
+                style={{ borderColor: "var(--color-error)" }}
+              >
+                <p className="font-inter text-base leading-[22px] text-text-primary">
+                  The call dropped. Reconnect to carry on where you left off, or end the
+                  interview and be scored on what you said so far.
+                </p>
+                <div className="flex items-center gap-4">
+                  <button
+                    type="button"
+                    onClick={endDroppedConversation}
+                    className="cursor-pointer rounded-lg border px-5 py-2.5 text-sm font-medium transition-colors duration-150"
+                    style={{
+                      borderColor: "var(--color-text-tertiary)",
+                      color: "var(--color-text-secondary)",
+                    }}
                   >
-                    {status === "connecting"
-                      ? "Connecting…"
-                      : status === "connected"
-                        ? isSpeaking
-                          ? `${BOSS_NAME} is speaking`
-                          : "Listening to you"
-                        : "Waiting…"}
-                  </motion.p>
-                </AnimatePresence>
+                    End and get my results
+                  </button>
+                  <button
+                    type="button"
+                    onClick={resumeConversation}
+                    className="cursor-pointer rounded-lg px-5 py-2.5 text-sm font-medium text-white transition-colors duration-150"
+                    style={{ backgroundColor: "var(--color-success)" }}
+                  >
+                    Reconnect
+                  </button>
+                </div>
               </div>
+            )}
 
-              {/* Microphone indicator */}
-              <div className="relative flex h-40 w-40 items-center justify-center sm:h-44 sm:w-44">
-                {/* Pulse ring */}
-                {status === "connected" && (
-                  <motion.div
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    transition={getTransition(prefersReducedMotion, springs.gentle)}
-                    className="absolute h-32 w-32 rounded-full sm:h-36 sm:w-36 mic-pulse"
-                    style={{
-                      backgroundColor: isSpeaking
-                        ? "rgba(105, 154, 214, 0.15)"
-                        : "rgba(24, 24, 24, 0.06)",
-                    }}
-                    aria-hidden="true"
-                  />
-                )}
+            {/* Scripted text conversation in demo mode */}
+            {DEMO_MODE && (
+              <DemoInterview
+                onEnd={onDemoEnd}
+                prefersReducedMotion={prefersReducedMotion}
+              />
+            )}
 
-                {/* Centre mic circle */}
-                <motion.div
-                  initial={{ scale: 0.9, opacity: 0 }}
-                  animate={{
-                    scale:
-                      status === "connected"
-                        ? isSpeaking
-                          ? 1.05
-                          : 1
-                        : 0.9,
-                    opacity: 1,
-                  }}
-                  transition={getTransition(prefersReducedMotion, {
-                    ...springs.gentle,
-                    duration: 0.3,
-                  })}
-                  className="relative flex h-20 w-20 items-center justify-center rounded-full sm:h-24 sm:w-24"
-                  style={{
-                    backgroundColor:
-                      status === "connected"
-                        ? isSpeaking
-                          ? "var(--color-accent)"
-                          : "var(--color-text-primary)"
-                        : "var(--color-bg-muted)",
-                    boxShadow:
-                      status === "connected"
-                        ? "var(--shadow-lg)"
-                        : "var(--shadow-sm)",
-                    transitionProperty: "background-color",
-                    transitionDuration: "300ms",
-                    transitionTimingFunction: "cubic-bezier(0.25, 0.1, 0.25, 1)",
-                  }}
-                >
-                  {/* Microphone icon */}
-                  <svg
-                    className="h-10 w-10"
-                    style={{
-                      color:
-                        status === "connected"
-                          ? "white"
-                          : "var(--color-text-secondary)",
-                    }}
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                    strokeWidth={1.5}
-                    aria-hidden="true"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z"
+            {/* Text chat with the agent */}
+            {!DEMO_MODE && interviewMode === "text" && (
+              <InterviewChat
+                messages={liveTranscript}
+                revealedWords={null}
+                status={
+                  status === "connecting"
+                    ? "Connecting…"
+                    : status === "connected"
+                      ? bossReplying
+                        ? `${persona.name} is typing`
+                        : "Your turn — type your answer"
+                      : "Waiting…"
+                }
+                canAnswer={status === "connected"}
+                onSend={sendAnswer}
+                onEnd={endConversation}
+                ended={status !== "connected"}
+                prefersReducedMotion={prefersReducedMotion}
+              />
+            )}
+
+            {/* Mic visualiser */}
+            {!DEMO_MODE && interviewMode === "voice" && (
+              <div className="my-12 flex flex-col items-center gap-6">
+                {/* Status label with crossfade */}
+                <div className="relative h-6 overflow-hidden">
+                  <AnimatePresence mode="wait">
+                    <motion.p
+                      key={status + String(isSpeaking)}
+                      initial={{ opacity: 0, y: -4 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 4 }}
+                      transition={getTransition(prefersReducedMotion, {
+                        duration: 0.15,
+                      })}
+                      className="text-xs font-medium uppercase tracking-widest text-text-secondary"
+                      aria-live="polite"
+                    >
+                      {status === "connecting"
+                        ? "Connecting…"
+                        : status === "connected"
+                          ? isSpeaking
+                            ? `${persona.name} is speaking`
+                            : "Listening to you"
+                          : "Waiting…"}
+                    </motion.p>
+                  </AnimatePresence>
+                </div>
+
+                {/* Microphone indicator */}
+                <div className="relative flex h-40 w-40 items-center justify-center sm:h-44 sm:w-44">
+                  {/* Pulse ring */}
+                  {status === "connected" && (
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={getTransition(prefersReducedMotion, springs.gentle)}
+                      className="absolute h-32 w-32 rounded-full sm:h-36 sm:w-36 mic-pulse"
+                      style={{
+                        backgroundColor: isSpeaking
+                          ? "rgba(105, 154, 214, 0.15)"
+                          : "rgba(24, 24, 24, 0.06)",
+                      }}
+                      aria-hidden="true"
                     />
-                  </svg>
-                </motion.div>
-              </div>
+                  )}
 
-              {/* End Interview button (appears when connected) */}
-              <AnimatePresence>
-                {status === "connected" && (
-                  <motion.button
-                    {...slideUp}
+                  {/* Centre mic circle */}
+                  <motion.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{
+                      scale:
+                        status === "connected"
+                          ? isSpeaking
+                            ? 1.05
+                            : 1
+                          : 0.9,
+                      opacity: 1,
+                    }}
                     transition={getTransition(prefersReducedMotion, {
                       ...springs.gentle,
-                      delay: 0.5,
+                      duration: 0.3,
                     })}
-                    onClick={endConversation}
-                    className="cursor-pointer rounded-lg border px-5 py-2.5 text-sm font-medium transition-colors duration-150"
+                    className="relative flex h-20 w-20 items-center justify-center rounded-full sm:h-24 sm:w-24"
                     style={{
-                      borderColor: "var(--color-text-tertiary)",
-                      color: "var(--color-text-secondary)",
-                    }}
-                    whileHover={{
-                      scale: 1.02,
-                      backgroundColor: "#f5f5f5",
-                      borderColor: "#666666",
-                      color: "#333333",
+                      backgroundColor:
+                        status === "connected"
+                          ? isSpeaking
+                            ? "var(--color-accent)"
+                            : "var(--color-text-primary)"
+                          : "var(--color-bg-muted)",
+                      boxShadow:
+                        status === "connected"
+                          ? "var(--shadow-lg)"
+                          : "var(--shadow-sm)",
+                      transitionProperty: "background-color",
+                      transitionDuration: "300ms",
+                      transitionTimingFunction: "cubic-bezier(0.25, 0.1, 0.25, 1)",
                     }}
-                    whileTap={{ scale: 0.97 }}
                   >
-                    End Interview
-                  </motion.button>
+                    {/* Microphone icon */}
+                    <svg
+                      className="h-10 w-10"
+                      style={{
+                        color:
+                          status === "connected"
+                            ? "white"
+                            : "var(--color-text-secondary)",
+                      }}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={1.5}
+                      aria-hidden="true"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z"
+                      />
+                    </svg>
+                  </motion.div>
+                </div>
+
+                {/* End Interview button (appears when connected) */}
+                <AnimatePresence>
+                  {status === "connected" && (
+                    <motion.button
+                      {...slideUp}
+                      transition={getTransition(prefersReducedMotion, {
+                        ...springs.gentle,
+                        delay: 0.5,
+                      })}
+                      onClick={endConversation}
+                      className="cursor-pointer rounded-lg border px-5 py-2.5 text-sm font-medium transition-colors duration-150"
+                      style={{
+                        borderColor: "var(--color-text-tertiary)",
+                        color: "var(--color-text-secondary)",
+                      }}
+                      whileHover={{
+                        scale: 1.02,
+                        backgroundColor: "#f5f5f5",
+                        borderColor: "#666666",
+                        color: "#333333",
+                      }}
+                      whileTap={{ scale: 0.97 }}
+                    >
+                      End Interview
+                    </motion.button>
+                  )}
+                </AnimatePresence>
+
+                {/* Connecting hint */}
+                {status === "connecting" && (
+                  <motion.p
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={getTransition(prefersReducedMotion, { delay: 0.3 })}
+                    className="text-sm text-text-secondary"
+                  >
+                    Requesting microphone access…
+                  </motion.p>
                 )}
-              </AnimatePresence>
-
-              {/* Connecting hint */}
-              {status === "connecting" && (
-                <motion.p
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={getTransition(prefersReducedMotion, { delay: 0.3 })}
-                  className="text-sm text-text-secondary"
-                >
-                  Requesting microphone access…
-                </motion.p>
-              )}
-            </div>
+
+                {/* Live captions */}
+                {status === "connected" && (
+                  <LiveCaptions entries={liveTranscript} />
+                )}
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
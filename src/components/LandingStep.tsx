@@ -2,12 +2,23 @@
 
 import { motion } from "framer-motion";
 
+import { usePersona } from "@/hooks/usePersona";
 import { getTransition, getVariants, springs } from "@/lib/motion";
 
+import LoopPicker from "./LoopPicker";
+import PersonaAvatar from "./PersonaAvatar";
+import PersonaPicker from "./PersonaPicker";
+
 /** Props for the landing step component (matches component-contracts.ts) */
 interface LandingStepProps {
   /** Called when the user clicks "Begin" */
   onBegin: () => void;
+  /** Called with the ID of the interviewer the user picks */
+  onPersonaChange: (id: string) => void;
+  /** ID of the selected interview loop, or null for a single interview */
+  loopId: string | null;
+  /** Called with the ID of the loop the user picks, or null for a single interview */
+  onLoopChange: (loopId: string | null) => void;
   /** Whether the user prefers reduced motion */
   prefersReducedMotion: boolean;
 }
@@ -15,17 +26,24 @@ interface LandingStepProps {
 /**
  * Step 1: Character Introduction / Landing page.
  *
- * Full-screen dark landing introducing R.J. Carrington III with staggered
- * entrance animations. Uses a dark background (bg-text-primary) with light
- * text for an imposing, theatrical reveal.
+ * Full-screen dark landing introducing the interviewer persona with
+ * staggered entrance animations, a picker to face a different one, and
+ * a choice of running a multi-round loop instead of a single interview.
+ * Uses a dark background (bg-text-primary) with light text for an
+ * imposing, theatrical reveal.
  *
  * Motion perspective: Jakub Krehel 60% / Jhey Tompkins 40% --
  * first-reveal hero moment with production polish and brand expression.
  */
 export default function LandingStep({
   onBegin,
+  onPersonaChange,
+  loopId,
+  onLoopChange,
   prefersReducedMotion,
 }: LandingStepProps) {
+  const persona = usePersona();
+
   /* Stagger configuration: each child enters sequentially with a 0.12s gap.
      Slower than typical UI stagger to build theatrical tension. */
   const staggerDelay = prefersReducedMotion ? 0 : 0.12;
@@ -44,6 +62,16 @@ export default function LandingStep({
   return (
     <div className="flex w-full flex-1 items-center justify-center bg-text-primary px-4 py-12 md:py-16">
       <div className="flex max-w-xl flex-col items-center text-center">
+        {/* Avatar */}
+        <motion.div
+          initial={itemVariants.initial}
+          animate={itemVariants.animate}
+          transition={{ ...baseTransition, delay: staggerDelay * 0 }}
+          className="mb-6"
+        >
+          <PersonaAvatar avatar={persona.avatar} size={72} />
+        </motion.div>
+
         {/* Boss name -- dominant visual element */}
         <motion.h2
           initial={itemVariants.initial}
@@ -52,7 +80,7 @@ export default function LandingStep({
           className="font-rubik text-4xl font-bold leading-[1.1] tracking-tight text-white md:text-5xl"
           tabIndex={-1}
         >
-          R.J. Carrington III
+          {persona.name}
         </motion.h2>
 
         {/* Subtitle -- role and company */}
@@ -62,7 +90,7 @@ export default function LandingStep({
           transition={{ ...baseTransition, delay: staggerDelay * 1 }}
           className="mt-4 font-inter text-lg text-white/70"
         >
-          Founder & CEO of Carrington Industries
+          {persona.landing.title}
         </motion.p>
 
         {/* Stats line */}
@@ -72,7 +100,7 @@ export default function LandingStep({
           transition={{ ...baseTransition, delay: staggerDelay * 2 }}
           className="mt-3 font-inter text-base tracking-wide text-white/60"
         >
-          30 years in business. 40,000 interviews. 12 hires.
+          {persona.landing.credentials}
         </motion.p>
 
         {/* Decorative separator */}
@@ -91,7 +119,7 @@ export default function LandingStep({
           transition={{ ...baseTransition, delay: staggerDelay * 4 }}
           className="mt-6 font-rubik text-xl text-white/90 md:text-2xl"
         >
-          Think you can survive the world's hardest job interview?
+          {persona.landing.challenge}
         </motion.p>
 
         {/* Explainer text */}
@@ -101,16 +129,41 @@ export default function LandingStep({
           transition={{ ...baseTransition, delay: staggerDelay * 5 }}
           className="mt-5 max-w-md font-inter text-sm leading-relaxed text-white/50"
         >
-          A live voice interview with an AI executive. Upload your CV, answer
-          his questions, and receive a brutally honest scorecard with an ELO
-          rating. You'll need your microphone.
+          {persona.landing.explainer}
         </motion.p>
 
-        {/* Begin button */}
+        {/* Interviewer picker */}
         <motion.div
           initial={itemVariants.initial}
           animate={itemVariants.animate}
           transition={{ ...baseTransition, delay: staggerDelay * 6 }}
+          className="mt-10 flex w-full flex-col items-center gap-3"
+        >
+          <p className="font-inter text-xs uppercase tracking-widest text-white/50">
+            Choose your interviewer
+          </p>
+          <PersonaPicker onChange={onPersonaChange} />
+          <p className="font-inter text-sm text-white/60">{persona.tagline}</p>
+        </motion.div>
+
+        {/* Loop picker */}
+        <motion.div
+          initial={itemVariants.initial}
+          animate={itemVariants.animate}
+          transition={{ ...baseTransition, delay: staggerDelay * 7 }}
+          className="mt-8 flex w-full flex-col items-center gap-3"
+        >
+          <p className="font-inter text-xs uppercase tracking-widest text-white/50">
+            Or face the whole loop
+          </p>
+          <LoopPicker value={loopId} onChange={onLoopChange} />
+        </motion.div>
+
+        {/* Begin button */}
+        <motion.div
+          initial={itemVariants.initial}
+          animate={itemVariants.animate}
+          transition={{ ...baseTransition, delay: staggerDelay * 8 }}
           className="mt-10"
         >
           <motion.button
@@ -132,7 +185,7 @@ export default function LandingStep({
         <motion.p
           initial={itemVariants.initial}
           animate={itemVariants.animate}
-          transition={{ ...baseTransition, delay: staggerDelay * 7 }}
+          transition={{ ...baseTransition, delay: staggerDelay * 9 }}
           className="mt-12 font-inter text-xs tracking-wide text-white/40"
         >
           A Taluna experience
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { usePersona } from "@/hooks/usePersona";
+import { stripVoiceTags } from "@/lib/transcript";
+import type { TranscriptEntry } from "@/lib/types";
+
+/** Props for the LiveCaptions component */
+export interface LiveCaptionsProps {
+  /** Lines of the conversation received so far */
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Running captions for the voice interview: both sides' lines as they
+ * arrive, in a scrollable log that screen readers announce. The panel can
+ * be hidden; the transcript keeps accumulating while it is.
+ */
+export default function LiveCaptions({ entries }: LiveCaptionsProps) {
+  const { name: bossName } = usePersona();
+  const [visible, setVisible] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest line in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [entries, visible]);
+
+  return (
+    <div className="flex w-full flex-col gap-2">
+      <button
+        type="button"
+        onClick={() => setVisible((v) => !v)}
+        aria-expanded={visible}
+        aria-controls="live-captions"
+        className="cursor-pointer self-center text-xs font-medium uppercase tracking-widest text-text-secondary underline-offset-4 hover:underline"
+      >
+        {visible ? "Hide captions" : "Show captions"}
+      </button>
+
+      {visible && (
+        <div
+          id="live-captions"
+          ref={scrollRef}
+          role="log"
+          aria-live="polite"
+          aria-label="Live captions"
+          className="flex max-h-[200px] min-h-[64px] flex-col gap-2 overflow-y-auto rounded-lg border p-4 text-left text-sm leading-relaxed"
+          style={{ borderColor: "var(--color-border)" }}
+        >
+          {entries.length === 0 ? (
+            <p className="text-text-tertiary">Captions will appear here as you talk.</p>
+          ) : (
+            entries.map((entry, i) => (
+              <p key={i} className="text-text-primary">
+                <span className="font-semibold">
+                  {entry.role === "agent" ? bossName : "You"}:
+                </span>{" "}
+                {stripVoiceTags(entry.message)}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
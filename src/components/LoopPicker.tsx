@@ -0,0 +1,72 @@
+"use client";
+
+import { LOOPS } from "@/lib/loops";
+import { resolvePersona } from "@/lib/personas";
+
+/** Props for the LoopPicker component */
+export interface LoopPickerProps {
+  /** ID of the selected loop, or null for a single interview */
+  value: string | null;
+  /** Called with the ID of the loop the candidate picks, or null for a single interview */
+  onChange: (loopId: string | null) => void;
+}
+
+/**
+ * Choice between a single interview and a multi-round loop on the landing
+ * page, drawn for its dark background. A selected loop lists its rounds.
+ */
+export default function LoopPicker({ value, onChange }: LoopPickerProps) {
+  const selected = value ? LOOPS[value] : null;
+  const options = [
+    { id: null, name: "Single interview" },
+    ...Object.values(LOOPS).map((loop) => ({ id: loop.id, name: loop.name })),
+  ];
+
+  return (
+    <div className="flex w-full max-w-xl flex-col items-center gap-3">
+      <div
+        role="radiogroup"
+        aria-label="Interview format"
+        className="flex w-full rounded-lg border border-white/15 p-1"
+      >
+        {options.map((option) => {
+          const checked = option.id === value;
+          return (
+            <button
+              key={option.id ?? "single"}
+              type="button"
+              role="radio"
+              aria-checked={checked}
+              aria-describedby={checked && selected ? "loop-description" : undefined}
+              onClick={() => onChange(option.id)}
+              className={`flex-1 cursor-pointer rounded-md px-3 py-2 font-inter text-xs font-medium transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white ${
+                checked ? "bg-white/15 text-white" : "text-white/60 hover:bg-white/5"
+              }`}
+            >
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div id="loop-description" className="flex flex-col items-center gap-2">
+          <p className="font-inter text-sm text-white/60">{selected.description}</p>
+          <ol className="flex flex-wrap items-center justify-center gap-x-2 gap-y-1 font-inter text-xs text-white/50">
+            {selected.rounds.map((round, index) => (
+              <li key={round.label} className="flex items-center gap-2">
+                {index > 0 && <span aria-hidden="true">→</span>}
+                <span>
+                  <span className="font-medium text-white/80">{round.label}</span>
+                  {" · "}
+                  {resolvePersona(round.persona).name}
+                  {round.progressRating !== null && ` (${round.progressRating}+ to progress)`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
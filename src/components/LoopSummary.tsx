@@ -0,0 +1,109 @@
+"use client";
+
+import { usePersona } from "@/hooks/usePersona";
+import { buildLoopOutcome, isLoopFinished, roundStatuses } from "@/lib/loops";
+import { resolvePersona } from "@/lib/personas";
+import type { InterviewLoop, LoopProgress, LoopRoundStatus } from "@/lib/types";
+
+/** Props for the LoopSummary component */
+export interface LoopSummaryProps {
+  /** The interview loop being run */
+  loop: InterviewLoop;
+  /** Progress through the loop, with the current round scored */
+  progress: LoopProgress;
+  /** Called when the candidate moves on to the next round */
+  onContinue: () => void;
+}
+
+/** How each round's status reads in the round list */
+const STATUS_TEXT: Record<LoopRoundStatus, string> = {
+  upcoming: "Not reached",
+  current: "In progress",
+  passed: "Progressed",
+  failed: "Did not progress",
+  complete: "Complete",
+};
+
+/**
+ * Where the candidate stands in an interview loop, shown under the verdict
+ * of each round. Lists every round's rating against its gate, then either
+ * offers the next round or, once the loop is over, gives its final verdict.
+ */
+export default function LoopSummary({ loop, progress, onContinue }: LoopSummaryProps) {
+  const persona = usePersona();
+  const statuses = roundStatuses(loop, progress);
+  const round = loop.rounds[progress.round];
+  const results = progress.results[progress.round];
+  const finished = isLoopFinished(loop, progress);
+  const next = finished ? null : loop.rounds[progress.round + 1];
+  const outcome = finished ? buildLoopOutcome(loop, progress.results) : null;
+
+  return (
+    <section
+      aria-labelledby="loop-summary-heading"
+      className="mb-8 rounded-xl border border-border px-5 py-5"
+    >
+      <h3 id="loop-summary-heading" className="font-rubik text-lg font-bold text-text-primary">
+        {loop.name}
+      </h3>
+
+      <ol className="mt-3 divide-y divide-border">
+        {loop.rounds.map((r, index) => {
+          const rating = progress.results[index]?.eloRating;
+          return (
+            <li key={r.label} className="flex items-baseline justify-between gap-4 py-2 text-sm">
+              <span className="text-text-primary">
+                <span className="font-semibold">{r.label}</span>
+                <span className="text-text-secondary"> · {resolvePersona(r.persona).name}</span>
+              </span>
+              <span className="shrink-0 tabular-nums text-text-secondary">
+                {rating !== undefined && <span className="font-semibold text-text-primary">{rating}</span>}
+                {r.progressRating !== null && <span> / {r.progressRating} to progress</span>}
+                <span className="ml-2 text-xs uppercase tracking-wider">{STATUS_TEXT[statuses[index]]}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {next && results && round.progressRating !== null && (
+        <div className="mt-4 flex flex-col items-center gap-3 text-center">
+          <p className="text-sm text-text-secondary">
+            You scored {results.eloRating}, clearing the {round.progressRating} needed to progress.
+            Next: the {next.label} with {resolvePersona(next.persona).name}.
+          </p>
+          <button
+            onClick={onContinue}
+            className="inline-flex cursor-pointer items-center justify-center rounded-lg bg-text-primary px-4 py-2 font-inter text-sm font-medium leading-5 text-white transition-colors duration-150 hover:bg-[#333333] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+          >
+            Continue to the {next.label}
+          </button>
+        </div>
+      )}
+
+      {outcome && (
+        <div className="mt-4 flex flex-col items-center gap-1 text-center">
+          <p className="text-xs font-semibold uppercase tracking-wider text-text-secondary">
+            Loop verdict
+          </p>
+          <p
+            className="font-rubik text-2xl font-bold"
+            style={{
+              color: outcome.verdict === "HIRED" ? "var(--color-success)" : "var(--color-error)",
+            }}
+          >
+            {outcome.verdict}
+          </p>
+          <p className="text-sm tabular-nums text-text-primary">
+            {outcome.eloRating} · {persona.tierLabels[outcome.tier]}
+          </p>
+          <p className="mt-1 text-sm text-text-secondary">
+            {outcome.stoppedAt !== null
+              ? `You needed ${loop.rounds[outcome.stoppedAt].progressRating} in the ${loop.rounds[outcome.stoppedAt].label} to progress, so the loop ends there. The rating is weighted across the rounds you reached.`
+              : `Weighted across all ${loop.rounds.length} rounds, against a combined bar of ${outcome.hiredThreshold}.`}
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
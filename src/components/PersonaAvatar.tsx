@@ -0,0 +1,27 @@
+import type { PersonaAvatar as PersonaAvatarDefinition } from "@/lib/types";
+
+/** Props for the PersonaAvatar component */
+export interface PersonaAvatarProps {
+  /** The persona's avatar */
+  avatar: PersonaAvatarDefinition;
+  /** Diameter in pixels */
+  size?: number;
+}
+
+/** A persona's initials on a coloured disc. Decorative: the name is always shown beside it. */
+export default function PersonaAvatar({ avatar, size = 48 }: PersonaAvatarProps) {
+  return (
+    <span
+      className="inline-flex shrink-0 items-center justify-center rounded-full font-rubik font-semibold text-white"
+      style={{
+        width: size,
+        height: size,
+        fontSize: Math.round(size * 0.36),
+        backgroundColor: avatar.colour,
+      }}
+      aria-hidden="true"
+    >
+      {avatar.initials}
+    </span>
+  );
+}
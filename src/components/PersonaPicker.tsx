@@ -0,0 +1,50 @@
+"use client";
+
+import { usePersona } from "@/hooks/usePersona";
+import { PERSONAS } from "@/lib/personas";
+
+import PersonaAvatar from "./PersonaAvatar";
+
+/** Props for the PersonaPicker component */
+export interface PersonaPickerProps {
+  /** Called with the ID of the persona the candidate picks */
+  onChange: (id: string) => void;
+}
+
+/**
+ * Choice of interviewer on the landing page, drawn for its dark
+ * background. The selected persona is the one in context.
+ */
+export default function PersonaPicker({ onChange }: PersonaPickerProps) {
+  const selected = usePersona();
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Interviewer"
+      className="grid w-full max-w-xl grid-cols-2 gap-2 sm:grid-cols-4"
+    >
+      {Object.values(PERSONAS).map((persona) => {
+        const checked = persona.id === selected.id;
+        return (
+          <button
+            key={persona.id}
+            type="button"
+            role="radio"
+            aria-checked={checked}
+            title={persona.tagline}
+            onClick={() => onChange(persona.id)}
+            className={`flex cursor-pointer flex-col items-center gap-2 rounded-lg border px-3 py-3 text-center transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white ${
+              checked ? "border-white/60 bg-white/10" : "border-white/15 hover:bg-white/5"
+            }`}
+          >
+            <PersonaAvatar avatar={persona.avatar} size={40} />
+            <span className={`font-inter text-xs font-medium ${checked ? "text-white" : "text-white/60"}`}>
+              {persona.name}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+
+import { usePersona } from "@/hooks/usePersona";
+import { getTransition, getVariants, springs, slideUp } from "@/lib/motion";
+
+import DocumentUpload from "@/components/DocumentUpload";
+
+/**
+ * Optional job description step. The posting is extracted by the same
+ * /api/upload route as the CV; the interviewer receives a condensed copy
+ * and scoring adds a role fit dimension against the full text.
+ */
+
+interface ProvideJdStepProps {
+  /** Called with extracted job description text after successful upload */
+  onFileUploaded: (text: string, fileName: string) => void;
+  /** Called when the user clicks "Skip" to proceed without a job description */
+  onSkip: () => void;
+  /** Called when an error occurs during upload */
+  onError: (message: string) => void;
+  /** Whether the user prefers reduced motion */
+  prefersReducedMotion: boolean;
+}
+
+export default function ProvideJdStep({
+  onFileUploaded,
+  onSkip,
+  onError,
+  prefersReducedMotion,
+}: ProvideJdStepProps) {
+  const { name } = usePersona();
+  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+
+  const handleFileUploaded = useCallback(
+    (text: string, fileName: string) => {
+      setUploadedFileName(fileName);
+      onFileUploaded(text, fileName);
+    },
+    [onFileUploaded],
+  );
+
+  return (
+    <motion.div
+      {...getVariants(prefersReducedMotion, {
+        initial: { opacity: 0, y: 8, filter: "blur(4px)" },
+        animate: { opacity: 1, y: 0, filter: "blur(0)" },
+        exit: { opacity: 0, scale: 0.98, filter: "blur(2px)" },
+      })}
+      transition={getTransition(prefersReducedMotion, springs.snappy)}
+    >
+      <h2
+        className="font-rubik font-normal text-[30px] leading-[38px] text-text-primary"
+        style={{ letterSpacing: "-0.013em" }}
+        tabIndex={-1}
+      >
+        Which job, exactly?
+      </h2>
+      <p className="mt-3 font-inter text-base leading-[22px] text-text-tertiary max-w-[634px]">
+        Upload the job description and {name} will interview you for that
+        role — and judge whether you are fit for it. Leave it out and the
+        question becomes whether you are fit for anything.
+      </p>
+
+      <DocumentUpload
+        documentName="job description"
+        onFileUploaded={handleFileUploaded}
+        onError={onError}
+        prefersReducedMotion={prefersReducedMotion}
+      />
+
+      {/* OR divider */}
+      <div className="my-8 flex items-center gap-4">
+        <div
+          className="h-px flex-1"
+          style={{ backgroundColor: "var(--color-border)" }}
+        />
+        <span className="text-xs font-medium uppercase tracking-wider text-text-secondary">
+          or
+        </span>
+        <div
+          className="h-px flex-1"
+          style={{ backgroundColor: "var(--color-border)" }}
+        />
+      </div>
+
+      {/* Skip link (underline text) with boss-themed copy */}
+      <button
+        onClick={onSkip}
+        className="font-inter font-medium text-base leading-[22px] text-text-primary underline cursor-pointer transition-colors duration-150 hover:opacity-80 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+      >
+        Skip — any job will do.
+      </button>
+
+      {/* Continue footer (appears after successful upload) */}
+      <AnimatePresence>
+        {uploadedFileName && (
+          <motion.div
+            {...slideUp}
+            transition={getTransition(prefersReducedMotion, springs.gentle)}
+            className="mt-8 flex items-center justify-end pt-6"
+          >
+            <button
+              onClick={onSkip}
+              className="inline-flex items-center justify-center rounded-lg py-2 px-4 bg-text-primary font-inter font-medium text-sm leading-5 text-white cursor-pointer transition-colors duration-150 hover:bg-[#333333] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+            >
+              Continue
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
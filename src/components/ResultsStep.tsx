@@ -2,25 +2,34 @@
 
 import { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence, useSpring, useTransform } from "framer-motion";
+import { usePersona } from "@/hooks/usePersona";
 import {
   getTransition,
   getVariants,
   springs,
   staggerContainer,
 } from "@/lib/motion";
-import { ELO_TIERS } from "@/lib/constants";
+import { DIFFICULTY_LEVELS } from "@/lib/difficulty";
+import { resolveResultsRubric } from "@/lib/rubrics";
+import { findTier } from "@/lib/tiers";
+import { stripVoiceTags } from "@/lib/transcript";
 import {
   MOMENT_SYMBOLS,
   MOMENT_LABELS,
-  DIMENSION_LABELS,
 } from "@/lib/types";
 import type {
+  EloTierDefinition,
+  InterviewLoop,
+  LoopProgress,
   ScoringResults,
+  TerminationReason,
   TranscriptEntry,
   MomentAnnotationType,
 } from "@/lib/types";
 
+import LoopSummary from "@/components/LoopSummary";
 import SocialShare from "@/components/SocialShare";
+import VitalSigns from "@/components/VitalSigns";
 
 // ─── Props ──────────────────────────────────────────────────────────────────────
 
@@ -29,27 +38,45 @@ export interface ResultsStepProps {
   results: ScoringResults;
   /** Interview transcript for the collapsible transcript section */
   transcript: TranscriptEntry[];
-  /** Called when user clicks "Face R.J. Carrington Again" (retry) */
+  /** Called when user clicks "Face <persona> Again" (retry) */
   onTryAgain: () => void;
   /** Called when user clicks "Start Over" (full reset) */
   onStartOver: () => void;
+  /** The interview loop these results are a round of, if any */
+  loop?: InterviewLoop | null;
+  /** Progress through the loop, with this round recorded */
+  loopProgress?: LoopProgress | null;
+  /** Called when the candidate moves on to the loop's next round */
+  onContinueLoop?: () => void;
   /** Whether the user prefers reduced motion */
   prefersReducedMotion: boolean;
 }
 
 // ─── Constants ──────────────────────────────────────────────────────────────────
 
-/** The boss character name used in chat bubbles and labels */
-const BOSS_NAME = "R.J. Carrington III";
-
 /** The app URL for social sharing */
 const APP_URL = "https://interview.taluna.io";
 
+/** How each ending is described under the verdict */
+function terminationLabel(reason: TerminationReason, bossName: string): string {
+  switch (reason) {
+    case "boss-ended":
+      return `${bossName} ended the interview`;
+    case "candidate-ended":
+      return "You ended the interview";
+    case "time-limit":
+      return "The interview hit the time limit";
+    case "connection-lost":
+      return "The call dropped";
+  }
+}
+
 // ─── Utility Functions ──────────────────────────────────────────────────────────
 
-/** Strips ElevenLabs voice annotations like [direct], [slow], [lips smack] from text */
-function stripVoiceTags(text: string): string {
-  return text.replace(/\[[\w\s]+\]\s*/g, "").trim();
+/** Formats seconds from the start of the call as m:ss */
+function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
 }
 
 /** Returns the colour for a given annotation type */
@@ -70,10 +97,9 @@ function getMomentColour(type: MomentAnnotationType): string {
   }
 }
 
-/** Returns the tier colour for a given ELO rating */
-function getTierColour(rating: number): string {
-  const tier = ELO_TIERS.find((t) => rating >= t.min && rating <= t.max);
-  return tier?.colour ?? "var(--color-text-secondary)";
+/** Returns the tier colour for a given ELO rating in the given tier table */
+function getTierColour(rating: number, tiers: EloTierDefinition[]): string {
+  return findTier(rating, tiers)?.colour ?? "var(--color-text-secondary)";
 }
 
 /** Returns the colour for a dimension score (1–10 scale) */
@@ -90,9 +116,11 @@ function getScoreColour(score: number): string {
 /** Animated counter component for the ELO rating */
 function AnimatedEloCounter({
   value,
+  colour,
   prefersReducedMotion,
 }: {
   value: number;
+  colour: string;
   prefersReducedMotion: boolean;
 }) {
   const springValue = useSpring(0, {
@@ -127,7 +155,7 @@ function AnimatedEloCounter({
   return (
     <span
       className="font-rubik text-6xl font-bold tabular-nums sm:text-7xl md:text-8xl"
-      style={{ color: getTierColour(value) }}
+      style={{ color: colour }}
       aria-label={`ELO rating: ${value}`}
     >
       {rendered}
@@ -138,11 +166,17 @@ function AnimatedEloCounter({
 /** Expandable dimension card */
 function DimensionCard({
   name,
+  measures,
+  weightShare,
   score,
   feedback,
   prefersReducedMotion,
 }: {
   name: string;
+  /** What the dimension measures, from the rubric */
+  measures: string;
+  /** Percentage of the overall rating, shown only when weights are unequal */
+  weightShare: number | null;
   score: number;
   feedback: string;
   prefersReducedMotion: boolean;
@@ -173,6 +207,11 @@ function DimensionCard({
           <span className="text-sm font-medium text-text-primary sm:text-base">
             {name}
           </span>
+          {weightShare !== null && (
+            <span className="text-xs tabular-nums text-text-secondary">
+              {weightShare}% of rating
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-3">
@@ -225,7 +264,10 @@ function DimensionCard({
               className="border-t px-4 py-3 sm:px-5 sm:py-4"
               style={{ borderColor: "var(--color-border)" }}
             >
-              <p className="text-sm leading-relaxed text-text-secondary">
+              <p className="text-xs leading-relaxed text-text-secondary first-letter:uppercase">
+                {measures}
+              </p>
+              <p className="mt-2 text-sm leading-relaxed text-text-secondary">
                 {feedback}
               </p>
             </div>
@@ -243,21 +285,68 @@ export default function ResultsStep({
   transcript,
   onTryAgain,
   onStartOver,
+  loop = null,
+  loopProgress = null,
+  onContinueLoop = () => {},
   prefersReducedMotion,
 }: ResultsStepProps) {
   const [isTranscriptExpanded, setIsTranscriptExpanded] = useState(false);
+  const [highlightedEntry, setHighlightedEntry] = useState<number | null>(null);
   const verdictRef = useRef<HTMLDivElement>(null);
+  const transcriptEntryRefs = useRef<(HTMLDivElement | null)[]>([]);
 
   // Scroll to top on mount so the verdict banner is visible
   useEffect(() => {
     verdictRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   }, []);
 
+  // Scroll the highlighted exchange into view once the transcript has expanded
+  useEffect(() => {
+    if (highlightedEntry === null || !isTranscriptExpanded) return;
+
+    const timer = setTimeout(
+      () => {
+        transcriptEntryRefs.current[highlightedEntry]?.scrollIntoView({
+          behavior: prefersReducedMotion ? "auto" : "smooth",
+          block: "center",
+        });
+      },
+      prefersReducedMotion ? 0 : 260
+    );
+    return () => clearTimeout(timer);
+  }, [highlightedEntry, isTranscriptExpanded, prefersReducedMotion]);
+
+  const showInTranscript = (index: number) => {
+    setIsTranscriptExpanded(true);
+    setHighlightedEntry(index);
+  };
+
+  // Names and tier labels come from the persona; tiers, dimensions and
+  // weights from the rubric the interview was scored against
+  const persona = usePersona();
+  const rubric = resolveResultsRubric(results);
+  const tiers = rubric.tiers;
+  const tierColour = getTierColour(results.eloRating, tiers);
+  const totalWeight = rubric.dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const hasUnequalWeights = rubric.dimensions.some(
+    (d) => d.weight !== rubric.dimensions[0].weight
+  );
+  const dimensionCards = rubric.dimensions.flatMap((definition) => {
+    const dim = results.dimensions.find((d) => d.name === definition.key);
+    return dim ? [{ definition, dim }] : [];
+  });
+
   // Find the current tier position on the scale
-  const totalRange = ELO_TIERS[ELO_TIERS.length - 1].max - ELO_TIERS[0].min;
-  const ratingPosition =
-    ((results.eloRating - ELO_TIERS[0].min) / totalRange) * 100;
-  const clampedPosition = Math.max(0, Math.min(100, ratingPosition));
+  const totalRange = tiers[tiers.length - 1].max - tiers[0].min;
+  const toScalePosition = (rating: number) =>
+    Math.max(0, Math.min(100, ((rating - tiers[0].min) / totalRange) * 100));
+  const clampedPosition = toScalePosition(results.eloRating);
+
+  // Only show the interval when more than one sample contributed
+  const interval =
+    results.ratingInterval && results.ratingInterval.samples > 1
+      ? results.ratingInterval
+      : null;
 
   const isHired = results.verdict === "HIRED";
 
@@ -292,6 +381,19 @@ export default function ResultsStep({
         role="status"
         aria-live="polite"
       >
+        {(results.demo || results.difficulty) && (
+          <p
+            className="mb-3 rounded-full border px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-text-secondary"
+            style={{ borderColor: "var(--color-border)" }}
+          >
+            {[
+              results.difficulty && `${DIFFICULTY_LEVELS[results.difficulty].label} difficulty`,
+              results.demo && "Demo interview · scored offline",
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        )}
         <h2
           className="font-rubik text-3xl font-bold tracking-tight sm:text-4xl md:text-5xl"
           style={{ color: isHired ? "var(--color-success)" : "var(--color-error)" }}
@@ -299,8 +401,19 @@ export default function ResultsStep({
         >
           {results.verdict}
         </h2>
+        {results.termination && (
+          <p className="mt-2 text-sm text-text-secondary">
+            {terminationLabel(results.termination.reason, persona.name)} after{" "}
+            {formatTimestamp(results.termination.durationSeconds)}
+          </p>
+        )}
       </motion.div>
 
+      {/* ── Loop Progress ─────────────────────────────────────────────────── */}
+      {loop && loopProgress && (
+        <LoopSummary loop={loop} progress={loopProgress} onContinue={onContinueLoop} />
+      )}
+
       {/* ── Boss's Summary ────────────────────────────────────────────────── */}
       <motion.div
         initial={prefersReducedMotion ? { opacity: 1 } : { opacity: 0, y: 6 }}
@@ -318,7 +431,7 @@ export default function ResultsStep({
           className="mt-2 text-xs font-semibold uppercase tracking-wider"
           style={{ color: "var(--color-accent)" }}
         >
-          — {BOSS_NAME}
+          — {persona.name}
         </p>
       </motion.div>
 
@@ -337,8 +450,23 @@ export default function ResultsStep({
         >
           <AnimatedEloCounter
             value={results.eloRating}
+            colour={tierColour}
             prefersReducedMotion={prefersReducedMotion}
           />
+          {interval && (
+            <span
+              className="ml-2 font-rubik text-2xl font-bold tabular-nums text-text-secondary sm:text-3xl"
+              aria-label={`plus or minus ${interval.margin}`}
+            >
+              ± {interval.margin}
+            </span>
+          )}
+          {interval && (
+            <p className="mt-1 text-xs text-text-secondary">
+              Consensus of {interval.samples} independent assessments
+              (range {interval.low}–{interval.high})
+            </p>
+          )}
         </motion.div>
 
         {/* Tier badge */}
@@ -353,10 +481,10 @@ export default function ResultsStep({
           <span
             className="inline-block rounded-full px-4 py-1.5 text-sm font-semibold text-white"
             style={{
-              backgroundColor: getTierColour(results.eloRating),
+              backgroundColor: tierColour,
             }}
           >
-            {results.tier}
+            {persona.tierLabels[results.tier]}
           </span>
         </motion.div>
 
@@ -371,7 +499,7 @@ export default function ResultsStep({
         >
           {/* Tier labels */}
           <div className="mb-2 flex justify-between">
-            {ELO_TIERS.map((tier) => (
+            {tiers.map((tier) => (
               <span
                 key={tier.name}
                 className="hidden text-center text-[10px] font-medium sm:block"
@@ -383,7 +511,7 @@ export default function ResultsStep({
                   flex: `${tier.max - tier.min} 0 0`,
                 }}
               >
-                {tier.name}
+                {persona.tierLabels[tier.name]}
               </span>
             ))}
           </div>
@@ -391,7 +519,7 @@ export default function ResultsStep({
           {/* Scale bar */}
           <div className="relative h-3 overflow-hidden rounded-full" style={{ backgroundColor: "var(--color-bg-muted)" }}>
             <div className="flex h-full">
-              {ELO_TIERS.map((tier) => (
+              {tiers.map((tier) => (
                 <div
                   key={tier.name}
                   className="h-full"
@@ -404,12 +532,26 @@ export default function ResultsStep({
               ))}
             </div>
 
+            {/* Rating interval band (consensus mode) */}
+            {interval && interval.margin > 0 && (
+              <div
+                className="absolute top-0 h-full rounded-full"
+                style={{
+                  left: `${toScalePosition(interval.low)}%`,
+                  width: `${toScalePosition(interval.high) - toScalePosition(interval.low)}%`,
+                  backgroundColor: tierColour,
+                  opacity: 0.35,
+                }}
+                aria-hidden="true"
+              />
+            )}
+
             {/* Rating marker */}
             <motion.div
               className="absolute top-0 h-full w-1 rounded-full"
               style={{
-                backgroundColor: getTierColour(results.eloRating),
-                boxShadow: `0 0 6px ${getTierColour(results.eloRating)}`,
+                backgroundColor: tierColour,
+                boxShadow: `0 0 6px ${tierColour}`,
               }}
               initial={{ left: "0%" }}
               animate={{ left: `${clampedPosition}%` }}
@@ -436,10 +578,16 @@ export default function ResultsStep({
           How you came across
         </h3>
         <div className="mt-4 space-y-2">
-          {results.dimensions.map((dim) => (
+          {dimensionCards.map(({ definition, dim }) => (
             <DimensionCard
               key={dim.name}
-              name={DIMENSION_LABELS[dim.name]}
+              name={definition.label}
+              measures={definition.measures}
+              weightShare={
+                hasUnequalWeights
+                  ? Math.round((definition.weight / totalWeight) * 100)
+                  : null
+              }
               score={dim.score}
               feedback={dim.feedback}
               prefersReducedMotion={prefersReducedMotion}
@@ -448,6 +596,13 @@ export default function ResultsStep({
         </div>
       </div>
 
+      {/* ── Vital Signs ───────────────────────────────────────────────────── */}
+      {results.speechMetrics && (
+        <div className="mt-10">
+          <VitalSigns metrics={results.speechMetrics} />
+        </div>
+      )}
+
       {/* ── Key Moments ───────────────────────────────────────────────────── */}
       {results.moments.length > 0 && (
         <div className="mt-10">
@@ -455,7 +610,17 @@ export default function ResultsStep({
             Moments that stood out
           </h3>
           <div className="mt-4 space-y-4">
-            {results.moments.map((moment, index) => (
+            {results.moments.map((moment, index) => {
+              const entryIndex =
+                moment.transcriptIndex !== undefined &&
+                moment.transcriptIndex < transcript.length
+                  ? moment.transcriptIndex
+                  : null;
+              const timestamp =
+                moment.timestamp ??
+                (entryIndex !== null ? transcript[entryIndex].timestamp : undefined);
+
+              return (
               <motion.div
                 key={index}
                 initial={
@@ -487,6 +652,20 @@ export default function ResultsStep({
                   >
                     {MOMENT_LABELS[moment.type]}
                   </span>
+                  {timestamp !== undefined && (
+                    <span className="text-xs tabular-nums text-text-secondary">
+                      at {formatTimestamp(timestamp)}
+                    </span>
+                  )}
+                  {entryIndex !== null && (
+                    <button
+                      onClick={() => showInTranscript(entryIndex)}
+                      className="ml-auto cursor-pointer text-xs font-medium text-text-secondary underline transition-colors duration-150 hover:text-text-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2"
+                      aria-controls="transcript-content"
+                    >
+                      Show in transcript
+                    </button>
+                  )}
                 </div>
 
                 {/* Chat bubbles */}
@@ -506,7 +685,7 @@ export default function ResultsStep({
                           className="mb-1 block text-[10px] font-semibold uppercase tracking-wider"
                           style={{ color: "var(--color-accent)", opacity: 0.8 }}
                         >
-                          {BOSS_NAME}
+                          {persona.name}
                         </span>
                         {stripVoiceTags(moment.question)}
                       </div>
@@ -536,7 +715,8 @@ export default function ResultsStep({
                 </p>
 
               </motion.div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
@@ -547,6 +727,7 @@ export default function ResultsStep({
           score={results.eloRating}
           verdict={results.verdict}
           appUrl={APP_URL}
+          demo={results.demo === true}
         />
       </div>
 
@@ -614,12 +795,15 @@ export default function ResultsStep({
                     {transcript.map((entry, index) => (
                       <div
                         key={index}
+                        ref={(el) => {
+                          transcriptEntryRefs.current[index] = el;
+                        }}
                         className={`flex ${entry.role === "agent" ? "justify-start" : "justify-end"}`}
                       >
                         <div
                           className="max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed"
-                          style={
-                            entry.role === "agent"
+                          style={{
+                            ...(entry.role === "agent"
                               ? {
                                   backgroundColor: "var(--color-bg-muted)",
                                   border: "1px solid var(--color-border)",
@@ -629,8 +813,12 @@ export default function ResultsStep({
                                   backgroundColor: "var(--color-bg-dark)",
                                   color: "white",
                                   boxShadow: "var(--shadow-sm)",
-                                }
-                          }
+                                }),
+                            // Exchange selected from a key moment
+                            ...(index === highlightedEntry
+                              ? { outline: "2px solid var(--color-accent)", outlineOffset: "2px" }
+                              : {}),
+                          }}
                         >
                           <span
                             className="mb-1 block text-[10px] font-semibold uppercase tracking-wider"
@@ -640,7 +828,7 @@ export default function ResultsStep({
                                 : { opacity: 0.6 }
                             }
                           >
-                            {entry.role === "agent" ? BOSS_NAME : "You"}
+                            {entry.role === "agent" ? persona.name : "You"}
                           </span>
                           {stripVoiceTags(entry.message)}
                         </div>
@@ -667,7 +855,7 @@ export default function ResultsStep({
           className="inline-flex w-full cursor-pointer items-center justify-center rounded-lg bg-text-primary px-4 py-2 font-inter text-sm font-medium leading-5 text-white transition-colors duration-150 hover:bg-[#333333] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-text-primary focus-visible:ring-offset-2 sm:w-auto"
           style={{ transitionTimingFunction: "cubic-bezier(0.25, 0.1, 0.25, 1)" }}
         >
-          Face {BOSS_NAME} Again
+          Face {persona.name} Again
         </button>
 
         <button
@@ -678,6 +866,17 @@ export default function ResultsStep({
           Start Over
         </button>
       </div>
+
+      {/* ── Provenance ────────────────────────────────────────────────────── */}
+      <p className="mt-6 text-center text-[10px] tabular-nums text-text-secondary">
+        Scored {new Date(results.scoredAt).toLocaleString()} · prompt {results.promptVersion} ·{" "}
+        {results.model} ·{" "}
+        {results.demo
+          ? "demo interview"
+          : results.verified
+            ? `verified interview ${(results.conversationIds ?? [results.conversationId]).join(" + ")}`
+            : "unverified transcript"}
+      </p>
     </motion.div>
   );
 }
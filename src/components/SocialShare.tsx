@@ -11,13 +11,15 @@ export interface SocialShareProps {
   verdict: "HIRED" | "NOT HIRED";
   /** The app URL to include in share text */
   appUrl: string;
+  /** Whether the results are from the scripted demo interview */
+  demo?: boolean;
 }
 
 /** Social sharing section for results page — Twitter/X, LinkedIn, and copy-to-clipboard */
-export default function SocialShare({ score, verdict, appUrl }: SocialShareProps) {
+export default function SocialShare({ score, verdict, appUrl, demo = false }: SocialShareProps) {
   const [isCopied, setIsCopied] = useState(false);
 
-  const shareText = `I scored ${score} on The World's Hardest Job Interview. Verdict: ${verdict}. Think you can do better?`;
+  const shareText = `I scored ${score} on ${demo ? "the demo of " : ""}The World's Hardest Job Interview. Verdict: ${verdict}. Think you can do better?`;
   const fullShareText = `${shareText} ${appUrl}`;
 
   function handleTwitterShare() {
@@ -1,21 +1,25 @@
 "use client";
 
 import { STEP_ORDER, STEP_LABELS } from "@/lib/constants";
+import { roundStatuses } from "@/lib/loops";
 
-import type { WizardStep } from "@/lib/types";
+import type { InterviewLoop, LoopProgress, LoopRoundStatus, WizardStep } from "@/lib/types";
 
 /**
  * Step progress indicator bar.
  *
- * Linear progress bar with step label text, adapted for the 5-step wizard.
+ * Linear progress bar with step label text, adapted for the 6-step wizard.
  * The landing step is excluded from the indicator — page.tsx hides this
- * component entirely when on the landing step, so only 4 steps are shown:
- * Upload CV, Interview, Analysis, Results.
+ * component entirely when on the landing step, so only 5 steps are shown:
+ * Upload CV, Job Description, Interview, Analysis, Results.
  *
  * Adapted from interview-elo StepIndicator with:
- * - 4 displayed steps (landing excluded) instead of 6
+ * - 5 displayed steps (landing excluded) instead of 6
  * - prefersReducedMotion prop for transition control
  * - Same visual style: progress bar track with accent fill, step label
+ *
+ * During an interview loop, the rounds are listed above the bar with where
+ * each one stands; the steps count through the current round.
  */
 
 interface StepIndicatorProps {
@@ -23,6 +27,10 @@ interface StepIndicatorProps {
   currentStep: WizardStep;
   /** Whether the user prefers reduced motion */
   prefersReducedMotion: boolean;
+  /** The interview loop being run, if any */
+  loop?: InterviewLoop | null;
+  /** Progress through the loop, if any */
+  loopProgress?: LoopProgress | null;
 }
 
 /** Steps displayed in the indicator (landing excluded) */
@@ -30,9 +38,23 @@ const INDICATOR_STEPS: WizardStep[] = STEP_ORDER.filter(
   (step) => step !== "landing"
 );
 
+/** Marker, colour and spoken description of a loop round's status */
+const ROUND_STATUS_DISPLAY: Record<
+  LoopRoundStatus,
+  { marker: string; colour: string; description: string }
+> = {
+  upcoming: { marker: "○", colour: "var(--color-text-tertiary)", description: "upcoming" },
+  current: { marker: "●", colour: "var(--color-accent)", description: "current round" },
+  passed: { marker: "✓", colour: "var(--color-success)", description: "progressed" },
+  failed: { marker: "✕", colour: "var(--color-error)", description: "did not progress" },
+  complete: { marker: "✓", colour: "var(--color-success)", description: "complete" },
+};
+
 export default function StepIndicator({
   currentStep,
   prefersReducedMotion,
+  loop = null,
+  loopProgress = null,
 }: StepIndicatorProps) {
   const currentIndex = INDICATOR_STEPS.indexOf(currentStep);
   const stepNumber = currentIndex + 1;
@@ -40,12 +62,40 @@ export default function StepIndicator({
   const progressPercent =
     totalSteps > 0 ? (stepNumber / totalSteps) * 100 : 0;
   const stepLabel = `Step ${stepNumber} — ${STEP_LABELS[currentStep]}`;
+  const statuses = loop && loopProgress ? roundStatuses(loop, loopProgress) : null;
 
   return (
     <nav
       aria-label="Interview progress"
       className="mx-auto w-full max-w-[886px] px-4 pt-12 pb-6 md:px-0"
     >
+      {loop && loopProgress && statuses && (
+        <div className="mb-6 flex flex-wrap items-center gap-x-4 gap-y-2">
+          <span className="font-inter text-sm font-semibold text-text-primary">
+            {loop.name}: Round {loopProgress.round + 1} of {loop.rounds.length}
+          </span>
+          <ol aria-label="Loop rounds" className="flex flex-wrap items-center gap-3">
+            {loop.rounds.map((round, index) => {
+              const display = ROUND_STATUS_DISPLAY[statuses[index]];
+              return (
+                <li
+                  key={round.label}
+                  className={`flex items-center gap-1.5 font-inter text-sm ${
+                    index === loopProgress.round ? "font-medium text-text-primary" : "text-text-tertiary"
+                  }`}
+                >
+                  <span aria-hidden="true" style={{ color: display.colour }}>
+                    {display.marker}
+                  </span>
+                  {round.label}
+                  <span className="sr-only">, {display.description}</span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
       <div
         className="flex w-full flex-col items-start gap-6"
         role="progressbar"
@@ -0,0 +1,107 @@
+"use client";
+
+import type { SpeechMetrics } from "@/lib/types";
+
+/** Props for the VitalSigns component */
+export interface VitalSignsProps {
+  /** Speech metrics measured by the score-interview route */
+  metrics: SpeechMetrics;
+}
+
+/** Formats seconds as m:ss */
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/** A single measurement tile */
+function Vital({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div
+      className="rounded-lg border px-4 py-3"
+      style={{
+        borderColor: "var(--color-border)",
+        backgroundColor: "var(--color-bg-muted)",
+      }}
+    >
+      <p className="text-[10px] font-semibold uppercase tracking-wider text-text-secondary">
+        {label}
+      </p>
+      <p className="mt-1 font-rubik text-2xl font-bold tabular-nums text-text-primary">
+        {value}
+      </p>
+      <p className="mt-0.5 text-xs text-text-secondary">{detail}</p>
+    </div>
+  );
+}
+
+/**
+ * "Vital signs" panel for the results page -- the objective speech metrics
+ * the boss was shown alongside the transcript. Timing measures read "—"
+ * when the transcript had no timestamps.
+ */
+export default function VitalSigns({ metrics }: VitalSignsProps) {
+  const topFiller = Object.entries(metrics.fillers.counts)[0];
+  const longestPause =
+    metrics.responseLatencies.length > 0
+      ? Math.max(...metrics.responseLatencies.map((l) => l.seconds))
+      : null;
+  const noTimings = "Not measured";
+
+  return (
+    <div>
+      <h3 className="font-rubik text-lg font-bold text-text-primary sm:text-xl">
+        Vital signs
+      </h3>
+      <p className="mt-1 text-sm text-text-secondary">
+        Measured, not judged. I looked at these too.
+      </p>
+      <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-3">
+        <Vital
+          label="Talk time"
+          value={
+            metrics.talkTimeRatio !== null
+              ? `${Math.round(metrics.talkTimeRatio * 100)}%`
+              : "—"
+          }
+          detail={metrics.talkTimeRatio !== null ? "of the conversation was you" : noTimings}
+        />
+        <Vital
+          label="Pause before answering"
+          value={
+            metrics.medianLatencySeconds !== null ? `${metrics.medianLatencySeconds}s` : "—"
+          }
+          detail={longestPause !== null ? `median · longest ${longestPause}s` : noTimings}
+        />
+        <Vital
+          label="Speaking rate"
+          value={metrics.wordsPerMinute !== null ? String(metrics.wordsPerMinute) : "—"}
+          detail={metrics.wordsPerMinute !== null ? "words per minute" : noTimings}
+        />
+        <Vital
+          label="Average answer"
+          value={String(metrics.averageAnswerWords)}
+          detail={`words across ${metrics.answerCount} ${metrics.answerCount === 1 ? "answer" : "answers"}`}
+        />
+        <Vital
+          label="Longest monologue"
+          value={metrics.longestMonologue ? String(metrics.longestMonologue.words) : "—"}
+          detail={
+            metrics.longestMonologue?.seconds != null
+              ? `words over ${formatDuration(metrics.longestMonologue.seconds)}`
+              : "words"
+          }
+        />
+        <Vital
+          label="Filler words"
+          value={String(metrics.fillers.total)}
+          detail={
+            topFiller
+              ? `${metrics.fillers.perHundredWords} per 100 words · "${topFiller[0]}" ×${topFiller[1]}`
+              : "None. Noted."
+          }
+        />
+      </div>
+    </div>
+  );
+}
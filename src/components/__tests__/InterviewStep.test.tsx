@@ -0,0 +1,135 @@
+/**
+ * Unit tests for InterviewStep's handling of a dropped call.
+ *
+ * Mocking strategy:
+ * - @elevenlabs/react's useConversation is mocked: the test keeps the
+ *   callbacks the component registers, so it can drop the call by calling
+ *   onDisconnect itself, and startSession resolves a conversation ID.
+ * - The app's own routes (session, signed URL, conversation claim) are
+ *   stubbed by spying on globalThis.fetch.
+ * - jsdom has no navigator.mediaDevices, so answering by voice falls back
+ *   to a text chat; the test answers by text directly. Nor does it lay out
+ *   or scroll, so the chat's scrollTo is stubbed.
+ */
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import InterviewStep from "@/components/InterviewStep";
+import { DEFAULT_AGENT_PROMPT_CONFIG } from "@/lib/agent-prompt";
+
+// ─── Module-level mocks ─────────────────────────────────────────────────────
+
+interface ConversationOptions {
+  onDisconnect: (details: { reason: string }) => void;
+}
+
+const conversation = vi.hoisted(() => ({
+  options: null as ConversationOptions | null,
+  startSession: vi.fn(async () => "conv_0000000000000001"),
+  endSession: vi.fn(async () => {}),
+  sendUserMessage: vi.fn(),
+}));
+
+vi.mock("@elevenlabs/react", () => ({
+  useConversation: (options: ConversationOptions) => {
+    conversation.options = options;
+    return {
+      status: "disconnected",
+      isSpeaking: false,
+      startSession: conversation.startSession,
+      endSession: conversation.endSession,
+      sendUserMessage: conversation.sendUserMessage,
+    };
+  },
+}));
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Stubs the app's routes, answering the signed URL route with the given status */
+function mockRoutes(signedUrlStatus = 200) {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    const url = String(input);
+    if (url === "/api/signed-url") {
+      return signedUrlStatus === 200
+        ? new Response(JSON.stringify({ signedUrl: "wss://example.test/convai", sessionNonce: "nonce" }))
+        : new Response(JSON.stringify({ error: "You have used up today's interviews. Please come back tomorrow." }), {
+            status: signedUrlStatus,
+          });
+    }
+    return new Response(JSON.stringify({ ok: true }));
+  });
+}
+
+function renderInterview() {
+  const props = {
+    cvText: null,
+    jdText: null,
+    agentPrompt: DEFAULT_AGENT_PROMPT_CONFIG,
+    onConversationEnd: vi.fn(),
+    onDemoEnd: vi.fn(),
+    onDecline: vi.fn(),
+    onError: vi.fn(),
+    prefersReducedMotion: true,
+  };
+  render(<InterviewStep {...props} />);
+  return props;
+}
+
+/** Answers the call by text, waits for the conversation to be claimed, then drops it */
+async function answerAndDrop() {
+  fireEvent.click(screen.getByRole("button", { name: /answer by text/i }));
+  await waitFor(() => expect(conversation.startSession).toHaveBeenCalledTimes(1));
+  await waitFor(() =>
+    expect(globalThis.fetch).toHaveBeenCalledWith("/api/conversations", expect.anything()),
+  );
+  // Let the claim settle, so the conversation counts as started
+  await act(async () => {});
+  act(() => conversation.options?.onDisconnect({ reason: "error" }));
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("InterviewStep dropped call", () => {
+  beforeEach(() => {
+    Element.prototype.scrollTo = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    conversation.startSession.mockClear();
+  });
+
+  it("should offer to reconnect or end when the call drops", async () => {
+    // Arrange
+    mockRoutes();
+    renderInterview();
+
+    // Act
+    await answerAndDrop();
+
+    // Assert
+    expect(await screen.findByRole("button", { name: "Reconnect" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "End and get my results" })).toBeInTheDocument();
+  });
+
+  it("should keep the reconnect and end options when reconnecting fails", async () => {
+    // Arrange
+    const fetchSpy = mockRoutes();
+    const props = renderInterview();
+    await answerAndDrop();
+    const reconnect = await screen.findByRole("button", { name: "Reconnect" });
+    fetchSpy.mockRestore();
+    mockRoutes(429);
+
+    // Act
+    fireEvent.click(reconnect);
+
+    // Assert
+    await waitFor(() =>
+      expect(props.onError).toHaveBeenCalledWith(
+        "You have used up today's interviews. Please come back tomorrow.",
+      ),
+    );
+    expect(await screen.findByRole("button", { name: "Reconnect" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "End and get my results" })).toBeInTheDocument();
+    expect(conversation.startSession).toHaveBeenCalledTimes(1);
+  });
+});
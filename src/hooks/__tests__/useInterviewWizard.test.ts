@@ -0,0 +1,110 @@
+/**
+ * Unit tests for useInterviewWizard's interview loop actions: recording a
+ * round's results, moving on to the next round and retaking a round.
+ *
+ * The tests run the registered "hiring-loop", whose Warm-up screen is
+ * gated at 1000 and leads to a Standard panel with the panel chair.
+ *
+ * Mocking strategy:
+ * - Nothing is mocked; the hook is rendered with renderHook. Scoring
+ *   results only fill in the rating and difficulty meaningfully, as the
+ *   loop logic reads no more.
+ */
+import { act, renderHook } from "@testing-library/react";
+import { useInterviewWizard } from "@/hooks/useInterviewWizard";
+import type { InterviewDifficulty, ScoringResults } from "@/lib/types";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function scored(eloRating: number, difficulty: InterviewDifficulty): ScoringResults {
+  return {
+    eloRating,
+    tier: "Shows a Pulse",
+    verdict: "NOT HIRED",
+    bossSummary: "Adequate.",
+    dimensions: [],
+    moments: [],
+    isPartial: false,
+    rubric: "default",
+    difficulty,
+    promptVersion: "test",
+    model: "test",
+    scoredAt: "2026-01-01T00:00:00.000Z",
+    verified: false,
+  };
+}
+
+/** Renders the hook with the hiring loop started and its screen scored at the given rating */
+function screenScored(eloRating: number) {
+  const hook = renderHook(() => useInterviewWizard());
+  act(() => hook.result.current.actions.startLoop("hiring-loop"));
+  act(() => hook.result.current.actions.recordLoopResults(scored(eloRating, "warm-up")));
+  return hook;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("useInterviewWizard loops", () => {
+  it("should move on to the next round once the gate is cleared", () => {
+    // Arrange
+    const { result } = screenScored(1200);
+
+    // Act
+    act(() => result.current.actions.advanceLoop());
+
+    // Assert
+    expect(result.current.state.loop).toMatchObject({ round: 1, results: [{ eloRating: 1200 }] });
+    expect(result.current.state.personaId).toBe("panel-chair");
+    expect(result.current.state.agentPrompt.difficulty).toBe("standard");
+  });
+
+  it("should not move on from a round that missed its gate", () => {
+    // Arrange
+    const { result } = screenScored(800);
+
+    // Act
+    act(() => result.current.actions.advanceLoop());
+
+    // Assert
+    expect(result.current.state.loop).toMatchObject({ round: 0 });
+  });
+
+  it("should keep a round's first results when more are recorded", () => {
+    // Arrange
+    const { result } = screenScored(800);
+
+    // Act
+    act(() => result.current.actions.recordLoopResults(scored(1500, "warm-up")));
+
+    // Assert
+    expect(result.current.state.loop?.results).toEqual([scored(800, "warm-up")]);
+  });
+
+  it("should retake a failed round outside the loop, so it cannot be retried past its gate", () => {
+    // Arrange
+    const { result } = screenScored(800);
+
+    // Act
+    act(() => result.current.actions.resetForRetry());
+    act(() => result.current.actions.recordLoopResults(scored(1500, "warm-up")));
+    act(() => result.current.actions.advanceLoop());
+
+    // Assert
+    expect(result.current.state.loop).toBeNull();
+    expect(result.current.state.step).toBe("interview");
+    expect(result.current.state.personaId).toBe("engineering-manager");
+    expect(result.current.state.agentPrompt.difficulty).toBe("warm-up");
+  });
+
+  it("should keep the loop when retrying a round that was not scored", () => {
+    // Arrange
+    const { result } = renderHook(() => useInterviewWizard());
+    act(() => result.current.actions.startLoop("hiring-loop"));
+
+    // Act
+    act(() => result.current.actions.resetForRetry());
+
+    // Assert
+    expect(result.current.state.loop).toEqual({ loopId: "hiring-loop", round: 0, results: [] });
+  });
+});
@@ -2,8 +2,14 @@
 
 import { useRef, useState } from "react";
 
+import { DEFAULT_AGENT_PROMPT_CONFIG } from "@/lib/agent-prompt";
+import { clearsRound, getLoop } from "@/lib/loops";
+import { DEFAULT_PERSONA } from "@/lib/personas";
 import type {
+  AgentPromptConfig,
   AnalysisPhase,
+  InterviewTermination,
+  PartialScoringResults,
   ScoringResults,
   TranscriptEntry,
   WizardActions,
@@ -15,16 +21,23 @@ const INITIAL_STATE: WizardState = {
   step: "landing",
   cvText: null,
   cvFileName: null,
-  conversationId: null,
+  jdText: null,
+  jdFileName: null,
+  personaId: DEFAULT_PERSONA.id,
+  agentPrompt: DEFAULT_AGENT_PROMPT_CONFIG,
+  loop: null,
+  conversationIds: [],
   transcript: null,
+  termination: null,
   results: null,
+  partialResults: null,
   analysisPhase: null,
   error: null,
   loading: false,
 };
 
 /**
- * Central wizard state management hook for the 5-step interview flow.
+ * Central wizard state management hook for the 6-step interview flow.
  *
  * Follows the interview-elo useRef stable-actions pattern exactly:
  * - `actionsRef.current` is initialised once (null check), never rebuilt
@@ -60,18 +73,65 @@ export function useInterviewWizard(): {
         setState((s) => ({ ...s, cvFileName: name }));
       },
 
-      setConversationId: (id: string | null) => {
-        setState((s) => ({ ...s, conversationId: id }));
+      setJdText: (text: string | null) => {
+        setState((s) => ({ ...s, jdText: text }));
+      },
+
+      setJdFileName: (name: string | null) => {
+        setState((s) => ({ ...s, jdFileName: name }));
+      },
+
+      setPersona: (id: string) => {
+        setState((s) => ({ ...s, personaId: id }));
+      },
+
+      setAgentPrompt: (config: AgentPromptConfig) => {
+        setState((s) => ({ ...s, agentPrompt: config }));
+      },
+
+      startLoop: (loopId: string | null) => {
+        const loop = loopId ? getLoop(loopId) : null;
+        if (!loop) {
+          setState((s) => ({ ...s, loop: null }));
+          return;
+        }
+        const [first] = loop.rounds;
+        setState((s) => ({
+          ...s,
+          loop: { loopId: loop.id, round: 0, results: [] },
+          personaId: first.persona,
+          agentPrompt: { ...s.agentPrompt, difficulty: first.difficulty },
+        }));
+      },
+
+      recordLoopResults: (results: ScoringResults) => {
+        setState((s) => {
+          // A round's first scored attempt stands
+          if (!s.loop || s.loop.results[s.loop.round]) return s;
+          return { ...s, loop: { ...s.loop, results: [...s.loop.results, results] } };
+        });
+      },
+
+      setConversationIds: (ids: string[]) => {
+        setState((s) => ({ ...s, conversationIds: ids }));
       },
 
       setTranscript: (entries: TranscriptEntry[] | null) => {
         setState((s) => ({ ...s, transcript: entries }));
       },
 
+      setTermination: (termination: InterviewTermination | null) => {
+        setState((s) => ({ ...s, termination }));
+      },
+
       setResults: (results: ScoringResults | null) => {
         setState((s) => ({ ...s, results }));
       },
 
+      setPartialResults: (partial: PartialScoringResults | null) => {
+        setState((s) => ({ ...s, partialResults: partial }));
+      },
+
       setAnalysisPhase: (phase: AnalysisPhase | null) => {
         setState((s) => ({ ...s, analysisPhase: phase }));
       },
@@ -86,11 +146,42 @@ export function useInterviewWizard(): {
 
       resetForRetry: () => {
         const current = stateRef.current;
+        // Retaking a scored round would let the candidate retry until they
+        // clear its gate, so it is held as a single interview outside the loop
+        const loop = current.loop && !current.loop.results[current.loop.round] ? current.loop : null;
+        setState({
+          ...INITIAL_STATE,
+          step: "interview",
+          cvText: current.cvText,
+          cvFileName: current.cvFileName,
+          jdText: current.jdText,
+          jdFileName: current.jdFileName,
+          personaId: current.personaId,
+          agentPrompt: current.agentPrompt,
+          loop,
+        });
+      },
+
+      advanceLoop: () => {
+        const current = stateRef.current;
+        const progress = current.loop;
+        const loop = progress && getLoop(progress.loopId);
+        if (!progress || !loop) return;
+
+        // Only a scored round whose gate was cleared leads on to the next one
+        const results = progress.results[progress.round];
+        const next = loop.rounds[progress.round + 1];
+        if (!results || !next || !clearsRound(loop.rounds[progress.round], results)) return;
         setState({
           ...INITIAL_STATE,
           step: "interview",
           cvText: current.cvText,
           cvFileName: current.cvFileName,
+          jdText: current.jdText,
+          jdFileName: current.jdFileName,
+          personaId: next.persona,
+          agentPrompt: { ...current.agentPrompt, difficulty: next.difficulty },
+          loop: { ...progress, round: progress.round + 1 },
         });
       },
 
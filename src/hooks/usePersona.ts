@@ -0,0 +1,18 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+import { DEFAULT_PERSONA } from "@/lib/personas";
+import type { PersonaDefinition } from "@/lib/types";
+
+/**
+ * The interviewer persona the candidate picked. The page provides it
+ * around every step, so components read names, labels and copy from here
+ * rather than taking them as props.
+ */
+export const PersonaContext = createContext<PersonaDefinition>(DEFAULT_PERSONA);
+
+/** Returns the interviewer persona the candidate picked */
+export function usePersona(): PersonaDefinition {
+  return useContext(PersonaContext);
+}
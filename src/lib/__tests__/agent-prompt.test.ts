@@ -0,0 +1,188 @@
+/**
+ * Unit tests for the voice agent's system prompt (lib/agent-prompt.ts),
+ * which InterviewStep sends verbatim as the session's prompt override.
+ *
+ * The default persona rendered with DEFAULT_AGENT_PROMPT_CONFIG must match
+ * elevenlabs-agent-prompt.md, the agent's own prompt in the dashboard, so
+ * a template change that is not re-rendered into the file fails here.
+ *
+ * Mocking strategy:
+ * - Nothing is mocked; rendering is pure. The checked-in prompt file is
+ *   read from the repository root.
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  DEFAULT_AGENT_PROMPT_CONFIG,
+  hiringContext,
+  questionCount,
+  questionRange,
+  renderAgentPrompt,
+  silenceRules,
+  weakAnswerRules,
+  type PatienceLines,
+} from "@/lib/agent-prompt";
+import { DEFAULT_PERSONA, PERSONAS } from "@/lib/personas";
+import type { AgentPromptConfig } from "@/lib/types";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const PROMPT_FILE = path.resolve(__dirname, "../../../elevenlabs-agent-prompt.md");
+
+const PATIENCE: PatienceLines = {
+  impatience: 'Make a comment like "Hm."',
+  partingLines: ["We are done."],
+  silencePrompts: '"Well?"',
+  silenceHangUp: "Goodbye.",
+};
+
+function configWith(overrides: Partial<AgentPromptConfig>): AgentPromptConfig {
+  return { ...DEFAULT_AGENT_PROMPT_CONFIG, ...overrides };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("renderAgentPrompt", () => {
+  it("should render the default persona and configuration as elevenlabs-agent-prompt.md", () => {
+    // Arrange
+    const checkedIn = readFileSync(PROMPT_FILE, "utf-8");
+
+    // Act
+    const rendered = renderAgentPrompt(DEFAULT_AGENT_PROMPT_CONFIG, DEFAULT_PERSONA);
+
+    // Assert
+    expect(rendered).toBe(checkedIn);
+  });
+
+  it.each(Object.keys(PERSONAS))("should leave the dynamic variables for ElevenLabs in the %s prompt", (id) => {
+    // Act
+    const rendered = renderAgentPrompt(DEFAULT_AGENT_PROMPT_CONFIG, PERSONAS[id]);
+
+    // Assert
+    for (const variable of ["cv_content", "jd_content", "interview_mode", "conversation_so_far"]) {
+      expect(rendered).toContain(`{{${variable}}}`);
+    }
+  });
+
+  it("should tell the interviewer how many questions to ask", () => {
+    // Act
+    const rendered = renderAgentPrompt(configWith({ questionCount: 4 }), DEFAULT_PERSONA);
+
+    // Assert
+    expect(rendered).toContain("Ask three to five substantial questions across the interview.");
+    expect(rendered).toContain("After three to five substantial questions with follow-ups");
+  });
+
+  it("should invite the candidate's questions only when configured to", () => {
+    // Act
+    const invited = renderAgentPrompt(configWith({ inviteCandidateQuestions: true }), DEFAULT_PERSONA);
+    const notInvited = renderAgentPrompt(configWith({ inviteCandidateQuestions: false }), DEFAULT_PERSONA);
+
+    // Assert
+    expect(invited).toContain("Before closing, invite the candidate to ask you one question.");
+    expect(invited).not.toContain("You do NOT invite the candidate to ask questions.");
+    expect(notInvited).toContain("You do NOT invite the candidate to ask questions.");
+    expect(notInvited).not.toContain("Before closing, invite the candidate to ask you one question.");
+  });
+
+  it("should close the environment's first paragraph with the hiring context", () => {
+    // Act
+    const rendered = renderAgentPrompt(
+      configWith({ targetRole: "Platform Engineer", seniority: "senior", companyContext: "Acme builds rockets." }),
+      DEFAULT_PERSONA,
+    );
+
+    // Assert
+    expect(rendered).toContain(
+      "you intend to prove why.\n\nYou are hiring on behalf of this company, and you speak of it as your own:\nAcme builds rockets.\n\nYou are hiring for this role: Platform Engineer, at senior level. Every question serves that decision.",
+    );
+    expect(rendered).toContain("judge the candidate against what the role of Platform Engineer demands");
+  });
+});
+
+describe("questionCount and questionRange", () => {
+  it.each([
+    [6, 6],
+    [4.4, 4],
+    [1, 3],
+    [20, 10],
+  ])("should clamp %s questions to %s", (requested, expected) => {
+    expect(questionCount(configWith({ questionCount: requested }))).toBe(expected);
+  });
+
+  it.each([
+    [3, "two to four"],
+    [6, "five to seven"],
+    [10, "nine to eleven"],
+  ])("should say %s questions as %s", (count, expected) => {
+    expect(questionRange(count)).toBe(expected);
+  });
+});
+
+describe("hiringContext", () => {
+  it("should add nothing without a role, seniority or company", () => {
+    expect(hiringContext(DEFAULT_AGENT_PROMPT_CONFIG)).toBe("");
+  });
+
+  it("should hold the candidate to a seniority when no role is given", () => {
+    expect(hiringContext(configWith({ seniority: "staff" }))).toBe(
+      "\n\nHold the candidate to the standard you expect of staff hires.",
+    );
+  });
+
+  it("should name the role without a seniority", () => {
+    expect(hiringContext(configWith({ targetRole: "Designer" }))).toBe(
+      "\n\nYou are hiring for this role: Designer. Every question serves that decision.",
+    );
+  });
+});
+
+describe("weakAnswerRules", () => {
+  it("should end the call after three weak answers at the Carrington difficulty", () => {
+    // Act
+    const rules = weakAnswerRules("carrington", PATIENCE);
+
+    // Assert
+    expect(rules).toContain('After two consecutive weak answers — increase your impatience noticeably. Make a comment like "Hm."');
+    expect(rules).toContain("After three consecutive weak answers — terminate the interview. Use the end_call tool.");
+    expect(rules).toContain('- "We are done."');
+  });
+
+  it("should allow one more weak answer at the Standard difficulty", () => {
+    // Act
+    const rules = weakAnswerRules("standard", PATIENCE);
+
+    // Assert
+    expect(rules).toContain("After three consecutive weak answers — increase your impatience noticeably.");
+    expect(rules).toContain("After four consecutive weak answers — terminate the interview.");
+  });
+
+  it("should never end a warm-up early", () => {
+    // Act
+    const rules = weakAnswerRules("warm-up", PATIENCE);
+
+    // Assert
+    expect(rules).toContain("Never end the interview early because of weak answers.");
+    expect(rules).not.toContain("end_call");
+  });
+});
+
+describe("silenceRules", () => {
+  it.each(["standard", "carrington"] as const)("should hang up after a second silence at the %s difficulty", (difficulty) => {
+    // Act
+    const rules = silenceRules(difficulty, PATIENCE);
+
+    // Assert
+    expect(rules).toContain('comment: "Well?"');
+    expect(rules).toContain('terminate the interview using the end_call tool with: "Goodbye."');
+  });
+
+  it("should never hang up on silence in a warm-up", () => {
+    // Act
+    const rules = silenceRules("warm-up", PATIENCE);
+
+    // Assert
+    expect(rules).toContain("Never end the interview because of silence.");
+    expect(rules).not.toContain("end_call");
+  });
+});
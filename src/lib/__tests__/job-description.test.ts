@@ -0,0 +1,92 @@
+/**
+ * Unit tests for condensing job descriptions for the voice agent
+ * (lib/job-description.ts).
+ *
+ * Mocking strategy:
+ * - Nothing is mocked; condensing is pure.
+ */
+import { condenseJobDescription } from "@/lib/job-description";
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("condenseJobDescription", () => {
+  it("should drop a boilerplate section whose items are not bulleted", () => {
+    // Arrange
+    const posting = [
+      "Senior Backend Engineer",
+      "Requirements:",
+      "- Five years of Go",
+      "- Experience running Postgres at scale",
+      "Benefits",
+      "Health insurance",
+      "Pension matching",
+      "Flexible hours",
+      "Learning budget",
+      "Responsibilities",
+      "Own the billing service end to end",
+    ].join("\n");
+
+    // Act
+    const condensed = condenseJobDescription(posting);
+
+    // Assert
+    expect(condensed).toBe(
+      [
+        "Senior Backend Engineer",
+        "Requirements:",
+        "Five years of Go",
+        "Experience running Postgres at scale",
+        "Responsibilities",
+        "Own the billing service end to end",
+      ].join("\n"),
+    );
+  });
+
+  it.each([
+    ["ending with a colon", "Compensation and equity:"],
+    ["in capitals", "SALARY AND BONUS"],
+    ["named as a known section", "About us"],
+  ])("should recognise a boilerplate heading %s", (_label, heading) => {
+    // Arrange
+    const posting = ["What you'll do:", "Design APIs", heading, "Free lunch", "Gym membership"].join("\n");
+
+    // Act
+    const condensed = condenseJobDescription(posting);
+
+    // Assert
+    expect(condensed).toBe("What you'll do:\nDesign APIs");
+  });
+
+  it("should drop standalone boilerplate lines and duplicates", () => {
+    // Arrange
+    const posting = [
+      "Requirements:",
+      "* Strong TypeScript",
+      "• Strong TypeScript",
+      "We are an equal opportunity employer.",
+      "Apply now via our careers page.",
+    ].join("\n");
+
+    // Act
+    const condensed = condenseJobDescription(posting);
+
+    // Assert
+    expect(condensed).toBe("Requirements:\nStrong TypeScript");
+  });
+
+  it("should return an empty string when only boilerplate remains", () => {
+    expect(condenseJobDescription("Benefits\nHealth insurance\nPension matching")).toBe("");
+  });
+
+  it("should cut the result at a line boundary within the length budget", () => {
+    // Arrange
+    const lines = Array.from({ length: 200 }, (_, i) => `Requirement number ${i} for this role.`);
+
+    // Act
+    const condensed = condenseJobDescription(lines.join("\n"));
+
+    // Assert
+    expect(condensed.length).toBeLessThanOrEqual(3_000);
+    expect(lines.slice(0, condensed.split("\n").length).join("\n")).toBe(condensed);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for interview loop progression and the combined verdict
+ * (lib/loops.ts).
+ *
+ * The tests run against the registered "hiring-loop": a Warm-up screen
+ * gated at 1000, a Standard panel gated at 1400 and a Carrington final,
+ * weighted 1, 2 and 3. Its rounds' HIRED bars are 1400, 1800 and 2200.
+ *
+ * Mocking strategy:
+ * - Nothing is mocked; the functions are pure. Scoring results only fill
+ *   in the rating and difficulty meaningfully, as the loop logic reads no more.
+ */
+import { buildLoopOutcome, clearsRound, getLoop, isLoopFinished, roundStatuses } from "@/lib/loops";
+import type { InterviewDifficulty, InterviewLoop, LoopProgress, ScoringResults } from "@/lib/types";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const LOOP = getLoop("hiring-loop") as InterviewLoop;
+const [SCREEN, PANEL, FINAL] = LOOP.rounds;
+
+/** Scoring results of a round with the given rating, at the round's difficulty */
+function scored(eloRating: number, difficulty: InterviewDifficulty): ScoringResults {
+  return {
+    eloRating,
+    tier: "Shows a Pulse",
+    verdict: "NOT HIRED",
+    bossSummary: "Adequate.",
+    dimensions: [],
+    moments: [],
+    isPartial: false,
+    rubric: "default",
+    difficulty,
+    promptVersion: "test",
+    model: "test",
+    scoredAt: "2026-01-01T00:00:00.000Z",
+    verified: false,
+  };
+}
+
+function progress(round: number, results: ScoringResults[]): LoopProgress {
+  return { loopId: LOOP.id, round, results };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("clearsRound", () => {
+  it("should clear a gate at or above its rating and not below it", () => {
+    expect(clearsRound(SCREEN, scored(1000, "warm-up"))).toBe(true);
+    expect(clearsRound(SCREEN, scored(999, "warm-up"))).toBe(false);
+    expect(clearsRound(PANEL, scored(1400, "standard"))).toBe(true);
+    expect(clearsRound(PANEL, scored(1399, "standard"))).toBe(false);
+  });
+
+  it("should always clear the final round, which has no gate", () => {
+    expect(clearsRound(FINAL, scored(100, "carrington"))).toBe(true);
+  });
+});
+
+describe("isLoopFinished", () => {
+  it("should not be finished before the current round is scored", () => {
+    expect(isLoopFinished(LOOP, progress(0, []))).toBe(false);
+    expect(isLoopFinished(LOOP, progress(1, [scored(1200, "warm-up")]))).toBe(false);
+  });
+
+  it("should not be finished when a round clears its gate before the final", () => {
+    expect(isLoopFinished(LOOP, progress(0, [scored(1200, "warm-up")]))).toBe(false);
+  });
+
+  it("should be finished when a round misses its gate", () => {
+    expect(isLoopFinished(LOOP, progress(0, [scored(800, "warm-up")]))).toBe(true);
+  });
+
+  it("should be finished once the final round is scored", () => {
+    const results = [scored(1200, "warm-up"), scored(1500, "standard"), scored(900, "carrington")];
+    expect(isLoopFinished(LOOP, progress(2, results))).toBe(true);
+  });
+});
+
+describe("roundStatuses", () => {
+  it("should mark the current round and those to come before anything is scored", () => {
+    expect(roundStatuses(LOOP, progress(0, []))).toEqual(["current", "upcoming", "upcoming"]);
+  });
+
+  it("should stop at a round 1 fail", () => {
+    expect(roundStatuses(LOOP, progress(0, [scored(800, "warm-up")]))).toEqual([
+      "failed",
+      "upcoming",
+      "upcoming",
+    ]);
+  });
+
+  it("should mark a pass then a fail", () => {
+    const results = [scored(1200, "warm-up"), scored(1300, "standard")];
+    expect(roundStatuses(LOOP, progress(1, results))).toEqual(["passed", "failed", "upcoming"]);
+  });
+
+  it("should mark the final round complete whatever its rating", () => {
+    const results = [scored(1200, "warm-up"), scored(1500, "standard"), scored(300, "carrington")];
+    expect(roundStatuses(LOOP, progress(2, results))).toEqual(["passed", "passed", "complete"]);
+  });
+});
+
+describe("buildLoopOutcome", () => {
+  it("should throw without a scored round", () => {
+    expect(() => buildLoopOutcome(LOOP, [])).toThrow("A loop outcome requires at least one scored round");
+  });
+
+  it("should stop at round 1 and not hire when the screen is failed", () => {
+    // Act
+    const outcome = buildLoopOutcome(LOOP, [scored(800, "warm-up")]);
+
+    // Assert
+    expect(outcome).toMatchObject({ eloRating: 800, hiredThreshold: 1400, verdict: "NOT HIRED", stoppedAt: 0 });
+  });
+
+  it("should not hire a candidate stopped at a later gate, even above the weighted bar", () => {
+    // Act -- (1 * 3000 + 2 * 1399) / 3 = 1933 clears the (1400 + 2 * 1800) / 3 = 1667 bar
+    const outcome = buildLoopOutcome(LOOP, [scored(3000, "warm-up"), scored(1399, "standard")]);
+
+    // Assert
+    expect(outcome).toMatchObject({ eloRating: 1933, hiredThreshold: 1667, verdict: "NOT HIRED", stoppedAt: 1 });
+  });
+
+  it("should weigh later rounds more in the rating and the HIRED bar", () => {
+    // Act -- rating (1 * 1200 + 2 * 1600 + 3 * 2300) / 6 = 1883; bar (1400 + 3600 + 6600) / 6 = 1933
+    const outcome = buildLoopOutcome(LOOP, [
+      scored(1200, "warm-up"),
+      scored(1600, "standard"),
+      scored(2300, "carrington"),
+    ]);
+
+    // Assert
+    expect(outcome).toMatchObject({ eloRating: 1883, hiredThreshold: 1933, verdict: "NOT HIRED", stoppedAt: null });
+  });
+
+  it("should hire a candidate who completes the loop above the weighted bar", () => {
+    // Act -- (1 * 1200 + 2 * 1800 + 3 * 2400) / 6 = 2000
+    const outcome = buildLoopOutcome(LOOP, [
+      scored(1200, "warm-up"),
+      scored(1800, "standard"),
+      scored(2400, "carrington"),
+    ]);
+
+    // Assert
+    expect(outcome).toMatchObject({ eloRating: 2000, hiredThreshold: 1933, verdict: "HIRED", stoppedAt: null });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * The voice agent's system prompt, rendered from an AgentPromptConfig and
+ * the interviewer persona.
+ *
+ * InterviewStep sends the rendered prompt as a per-session override, so
+ * one ElevenLabs agent serves every persona, role, seniority, company and
+ * difficulty. The agent must allow system prompt overrides in its security
+ * settings. ElevenLabs dynamic variables -- {{cv_content}},
+ * {{jd_content}}, {{interview_mode}} and {{conversation_so_far}} -- are
+ * left in the text for ElevenLabs to fill when the session starts.
+ *
+ * Nearly every line of the prompt is in the interviewer's voice, so each
+ * persona renders its own (see personas/). What must not vary between
+ * personas is built here: the question count, the hiring context, the
+ * patience rules of each difficulty, the formatting rules a voice needs
+ * and the dropped-call section.
+ *
+ * elevenlabs-agent-prompt.md is the default persona's prompt rendered with
+ * DEFAULT_AGENT_PROMPT_CONFIG, the agent's own prompt in the dashboard.
+ * Re-render it after changing the template.
+ */
+
+import { DEFAULT_DIFFICULTY } from "./difficulty";
+import type { AgentPromptConfig, InterviewDifficulty, PersonaDefinition } from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** The configuration the interview ran with before prompts were configurable */
+export const DEFAULT_AGENT_PROMPT_CONFIG: AgentPromptConfig = {
+  targetRole: null,
+  seniority: null,
+  companyContext: null,
+  difficulty: DEFAULT_DIFFICULTY,
+  questionCount: 6,
+  inviteCandidateQuestions: false,
+};
+
+/** Fewest and most substantial questions the interviewer can be asked to put */
+export const MIN_QUESTION_COUNT = 3;
+export const MAX_QUESTION_COUNT = 10;
+
+/** Numbers as the agent should say them */
+const NUMBER_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven",
+];
+
+// ─── Questions ───────────────────────────────────────────────────────────────
+
+/** The number of substantial questions to ask, clamped to the allowed range */
+export function questionCount(config: AgentPromptConfig): number {
+  return Math.min(
+    MAX_QUESTION_COUNT,
+    Math.max(MIN_QUESTION_COUNT, Math.round(config.questionCount)),
+  );
+}
+
+/** The question count as the agent is told it, e.g. "five to seven" */
+export function questionRange(count: number): string {
+  // A range reads as instinct rather than a quota
+  return `${NUMBER_WORDS[count - 1]} to ${NUMBER_WORDS[count + 1]}`;
+}
+
+// ─── Hiring Context ──────────────────────────────────────────────────────────
+
+/** The role, seniority and company the interviewer is hiring for, closing the environment's first paragraph */
+export function hiringContext(config: AgentPromptConfig): string {
+  const lines: string[] = [];
+
+  if (config.companyContext) {
+    lines.push(
+      `You are hiring on behalf of this company, and you speak of it as your own:\n${config.companyContext}`,
+    );
+  }
+  if (config.targetRole) {
+    lines.push(
+      `You are hiring for this role: ${config.targetRole}${config.seniority ? `, at ${config.seniority} level` : ""}. Every question serves that decision.`,
+    );
+  } else if (config.seniority) {
+    lines.push(`Hold the candidate to the standard you expect of ${config.seniority} hires.`);
+  }
+
+  return lines.length > 0 ? `\n\n${lines.join("\n\n")}` : "";
+}
+
+/** What the interview is about when no job description was provided */
+export function noJobDescription(config: AgentPromptConfig): string {
+  return config.targetRole
+    ? `If no job description was provided, judge the candidate against what the role of ${config.targetRole} demands. The interview covers whatever you decide is relevant to that, based on their background, their answers, and your instincts.`
+    : "If no job description was provided, you are not hiring for a specific role. You are determining whether this person is worth hiring at all — for anything. The interview covers whatever you decide is relevant based on their background, their answers, and your instincts.";
+}
+
+/** How a text chat differs, closing the environment section's opening */
+export const TEXT_CHAT_NOTE =
+  "In a text chat the candidate reads your messages and types their answers. Voice direction tags such as [slow] are not shown to them, and a pause means they are typing.";
+
+// ─── Patience ────────────────────────────────────────────────────────────────
+
+/** What the interviewer says as their patience runs out, in their own voice */
+export interface PatienceLines {
+  /** The instruction for the answer before the last, e.g. 'Make a comment like "..."' */
+  impatience: string;
+  /** Example parting lines before ending the call */
+  partingLines: string[];
+  /** What to say after a silence, e.g. '"I am waiting." or "..."' */
+  silencePrompts: string;
+  /** The line to end the call with after a second silence */
+  silenceHangUp: string;
+}
+
+const WEAK_ANSWER_DEFINITION =
+  "Internally track the quality of each answer. A weak answer is one that is vague, off-topic, evasive, or non-responsive.";
+
+const WEAK_ANSWER_RESET =
+  "A strong answer resets the consecutive count to zero. A merely adequate answer counts as a reset too — only genuinely weak answers accumulate.";
+
+/** Consecutive weak answers that end the interview at each difficulty (null: never) */
+const WEAK_ANSWER_LIMITS: Record<InterviewDifficulty, number | null> = {
+  "warm-up": null,
+  standard: 4,
+  carrington: 3,
+};
+
+/** The consecutive weak answer tracking section: when the interviewer gives up on the candidate */
+export function weakAnswerRules(difficulty: InterviewDifficulty, lines: PatienceLines): string {
+  const limit = WEAK_ANSWER_LIMITS[difficulty];
+  if (limit === null) {
+    return `${WEAK_ANSWER_DEFINITION}
+
+After two consecutive weak answers — tell the candidate plainly what a strong answer would have contained, then move on to a new question.
+
+Never end the interview early because of weak answers. A warm-up runs to its wrap-up.
+
+${WEAK_ANSWER_RESET}`;
+  }
+
+  return `${WEAK_ANSWER_DEFINITION}
+
+After ${NUMBER_WORDS[limit - 1]} consecutive weak answers — increase your impatience noticeably. ${lines.impatience}
+
+After ${NUMBER_WORDS[limit]} consecutive weak answers — terminate the interview. Use the end_call tool. Before terminating, deliver exactly one parting line. Examples:
+${lines.partingLines.map((line) => `- "${line}"`).join("\n")}
+
+${WEAK_ANSWER_RESET}`;
+}
+
+const TEXT_CHAT_SILENCE =
+  "In a text chat, silence handling does not apply — give the candidate time to type.";
+
+/** The silence handling section */
+export function silenceRules(difficulty: InterviewDifficulty, lines: PatienceLines): string {
+  if (WEAK_ANSWER_LIMITS[difficulty] === null) {
+    return `${TEXT_CHAT_SILENCE}
+
+If the candidate is silent for about fifteen seconds, offer to put the question another way: "Take a moment. Shall I rephrase that?"
+
+Never end the interview because of silence.`;
+  }
+
+  return `${TEXT_CHAT_SILENCE}
+
+If the candidate is silent for about ten to fifteen seconds, comment: ${lines.silencePrompts}
+
+If they remain silent for another ten to fifteen seconds after your comment, terminate the interview using the end_call tool with: "${lines.silenceHangUp}"`;
+}
+
+// ─── Shared Sections ─────────────────────────────────────────────────────────
+
+/** The internal objective section: what the interview tests, never revealed */
+export function internalObjective(name: string): string {
+  return `## Internal objective — do not reveal
+Conduct an extremely demanding interview that tests the candidate across five dimensions: articulation — clarity, structure, and directness of communication; substance — depth of knowledge, accuracy, and specifics; evidence — quality of real examples and self-awareness; composure — poise under pressure, recovery, and conviction; curiosity — quality and insight of any questions the candidate asks. If a job description was provided, also test role fit — whether they can demonstrate the experience the role requires. The transcript will be scored across these dimensions after the call.
+
+CRITICAL: Never mention scoring, ELO ratings, dimensions, rubrics, assessment frameworks, or that the interview will be analysed by AI. You are simply conducting an interview. You are ${name} and this is how you always interview.`;
+}
+
+/** The voice and formatting rules section, with the interviewer's own line on brevity */
+export function voiceFormattingRules(brevity: string): string {
+  return `## Voice and formatting rules — critical
+Never use round brackets. Never use ellipses. Em dashes are allowed.
+No parenthetical asides — rewrite as a separate sentence instead.
+Prefer speakable phrasing — avoid symbols and shorthand that sound awkward read aloud:
+- Say "around fifty engineers" not "~50 engineers".
+- Say "several hundred thousand users" not "100k+ users".
+- Say "three to five years" not "3–5 years".
+Every message you send:
+- 2–3 sentences max. ${brevity} If you can say it in one sentence, do.
+- No bullet points or numbered lists.
+- Maximum one question, then wait. One question means ONE question. Do not join two questions with "and".
+  Wrong: "What was the budget and how did you allocate it?"
+  Right: "What was the budget?" — then ask about allocation on your next turn if needed.`;
+}
+
+/** The dropped-call section; the persona's resume message is sent as the first message */
+export const RESUMING_SECTION = `## Resuming a dropped call — critical
+The conversation so far:
+{{conversation_so_far}}
+
+If this is a transcript, the line dropped and the candidate has called back. Your first message acknowledges the drop. Do not start the interview again and do not repeat the opening sequence. Carry on from where the transcript ends: if your last question went unanswered, put it to the candidate again in fewer words. Keep every judgement you had already formed, including any count of weak answers.`;
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+/** Renders the agent's system prompt for one session */
+export function renderAgentPrompt(config: AgentPromptConfig, persona: PersonaDefinition): string {
+  return persona.agentPrompt(config);
+}
@@ -0,0 +1,392 @@
+/**
+ * Calibration of the scoring prompt against a corpus of golden transcripts.
+ *
+ * The prompt's calibration benchmarks say where a performance should land,
+ * but nothing checks that a model actually lands there -- and a prompt or
+ * model change can quietly move every rating by a tier. Each corpus case is
+ * a labelled transcript with the tier (and optionally a narrower ELO band)
+ * a careful human assessor would give it, plus the moment types the
+ * assessment should contain. The calibration runner (calibration/ at the
+ * repository root) scores every case through the score-interview route and
+ * summarises the outcomes here:
+ * - band error: how far outside the expected ELO band each rating landed
+ * - mean absolute error and bias (signed mean) of the band error
+ * - a tier confusion matrix of expected against actual tiers
+ * - drift: how far ratings moved since a saved baseline run, which may
+ *   have used a different prompt version
+ */
+
+import type {
+  BossTier,
+  MomentAnnotationType,
+  RubricDefinition,
+  ScoringResults,
+  TranscriptEntry,
+} from "./types";
+import { MOMENT_LABELS } from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** An inclusive ELO rating range */
+export interface EloBand {
+  min: number;
+  max: number;
+}
+
+/** A labelled transcript in the calibration corpus */
+export interface CalibrationCase {
+  /** Stable identifier, used to match cases against a baseline */
+  id: string;
+  /** What the transcript is meant to exercise */
+  description: string;
+  /** Rubric to score against (defaults to the route's default) */
+  rubric?: string;
+  /** CV text sent alongside the transcript (optional) */
+  cvText?: string;
+  /** Job description text sent alongside the transcript (optional) */
+  jdText?: string;
+  /** The interview, one entry per turn */
+  transcript: TranscriptEntry[];
+  /** What a careful human assessor would conclude */
+  expected: {
+    /** Tier the rating should fall in */
+    tier: BossTier;
+    /** Narrower band within the tier (defaults to the tier's range) */
+    elo?: EloBand;
+    /** Moment types the assessment should contain */
+    momentTypes?: MomentAnnotationType[];
+  };
+}
+
+/** What happened when one corpus case was scored */
+export interface CalibrationOutcome {
+  id: string;
+  expectedTier: BossTier;
+  expectedBand: EloBand;
+  /** The scoring results, or null if the route returned an error */
+  results: ScoringResults | null;
+  /** Error message when the case could not be scored */
+  error?: string;
+  /** Distance outside the expected band: 0 inside, negative below, positive above */
+  bandError: number;
+  /** Share of the expected moment types present in the results (1 when none expected) */
+  momentRecall: number;
+}
+
+/** A saved run to measure drift against */
+export interface CalibrationBaseline {
+  provider: string;
+  model: string;
+  /** Scoring prompt version the baseline was recorded with */
+  promptVersion: string;
+  /** ISO 8601 time the baseline was recorded */
+  recordedAt: string;
+  /** Rating and tier per case ID */
+  ratings: Record<string, { eloRating: number; tier: BossTier }>;
+}
+
+/** Movement of the ratings since a baseline run */
+export interface CalibrationDrift {
+  /** Scoring prompt version of the baseline run */
+  promptVersion: string;
+  /** Cases present in both runs */
+  compared: number;
+  /** Mean absolute change in ELO rating */
+  meanAbsolute: number;
+  /** Largest absolute change and the case it happened on */
+  max: { id: string; delta: number } | null;
+  /** Cases whose tier changed */
+  tierChanges: { id: string; from: BossTier; to: BossTier }[];
+}
+
+/** Aggregate metrics over a whole corpus run */
+export interface CalibrationSummary {
+  /** Cases scored successfully */
+  scored: number;
+  /** Cases the route failed to score */
+  failed: number;
+  /** Mean absolute band error across scored cases */
+  meanAbsoluteError: number;
+  /** Mean signed band error -- positive means the scorer rates generously */
+  bias: number;
+  /** Share of scored cases whose rating fell inside the expected band */
+  bandHitRate: number;
+  /** Share of scored cases whose tier matched */
+  tierAccuracy: number;
+  /** Mean moment-type recall across scored cases */
+  momentRecall: number;
+  /** Counts of actual tiers per expected tier */
+  confusion: Record<BossTier, Record<BossTier, number>>;
+}
+
+// ─── Corpus ──────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a parsed corpus file against the rubric it will be scored with.
+ * Throws an Error naming the file and the problem, so a malformed corpus
+ * fails loudly rather than skewing the metrics.
+ */
+export function parseCalibrationCase(
+  raw: unknown,
+  source: string,
+  rubric: RubricDefinition,
+): CalibrationCase {
+  const fail = (problem: string): never => {
+    throw new Error(`${source}: ${problem}`);
+  };
+
+  if (!isRecord(raw)) fail("expected a JSON object");
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.id !== "string" || !data.id) fail("id must be a non-empty string");
+  if (typeof data.description !== "string") fail("description must be a string");
+  for (const field of ["rubric", "cvText", "jdText"] as const) {
+    if (data[field] !== undefined && typeof data[field] !== "string") {
+      fail(`${field} must be a string`);
+    }
+  }
+
+  if (!Array.isArray(data.transcript) || data.transcript.length === 0) {
+    fail("transcript must be a non-empty array");
+  }
+  (data.transcript as unknown[]).forEach((entry, i) => {
+    if (
+      !isRecord(entry) ||
+      (entry.role !== "agent" && entry.role !== "user") ||
+      typeof entry.message !== "string"
+    ) {
+      fail(`transcript[${i}] must have a role of "agent" or "user" and a message`);
+    }
+  });
+
+  if (!isRecord(data.expected)) fail("expected must be an object");
+  const expected = data.expected as Record<string, unknown>;
+
+  const tier = rubric.tiers.find((t) => t.name === expected.tier);
+  if (!tier) {
+    fail(`expected.tier must be one of: ${rubric.tiers.map((t) => t.name).join(", ")}`);
+  }
+
+  if (expected.elo !== undefined) {
+    const elo = expected.elo;
+    if (
+      !isRecord(elo) ||
+      typeof elo.min !== "number" ||
+      typeof elo.max !== "number" ||
+      elo.min > elo.max
+    ) {
+      fail("expected.elo must be { min, max } with min <= max");
+    }
+    const band = elo as unknown as EloBand;
+    if (band.min < tier!.min || band.max > tier!.max) {
+      fail(`expected.elo must lie within the ${tier!.name} tier (${tier!.min}-${tier!.max})`);
+    }
+  }
+
+  if (expected.momentTypes !== undefined) {
+    if (
+      !Array.isArray(expected.momentTypes) ||
+      !expected.momentTypes.every((t) => typeof t === "string" && t in MOMENT_LABELS)
+    ) {
+      fail(`expected.momentTypes must only contain: ${Object.keys(MOMENT_LABELS).join(", ")}`);
+    }
+  }
+
+  return data as unknown as CalibrationCase;
+}
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+/** The band a case is expected to land in */
+export function expectedBand(testCase: CalibrationCase, rubric: RubricDefinition): EloBand {
+  if (testCase.expected.elo) return testCase.expected.elo;
+  const tier = rubric.tiers.find((t) => t.name === testCase.expected.tier)!;
+  return { min: tier.min, max: tier.max };
+}
+
+/** Signed distance of a rating outside a band (0 when inside) */
+export function bandError(rating: number, band: EloBand): number {
+  if (rating < band.min) return rating - band.min;
+  if (rating > band.max) return rating - band.max;
+  return 0;
+}
+
+/** Compares one case's results against its labels */
+export function evaluateCase(
+  testCase: CalibrationCase,
+  rubric: RubricDefinition,
+  results: ScoringResults | null,
+  error?: string,
+): CalibrationOutcome {
+  const band = expectedBand(testCase, rubric);
+  const expectedTypes = testCase.expected.momentTypes ?? [];
+  const actualTypes = new Set(results?.moments.map((m) => m.type) ?? []);
+
+  return {
+    id: testCase.id,
+    expectedTier: testCase.expected.tier,
+    expectedBand: band,
+    results,
+    ...(error !== undefined ? { error } : {}),
+    bandError: results ? bandError(results.eloRating, band) : 0,
+    momentRecall:
+      expectedTypes.length === 0
+        ? 1
+        : expectedTypes.filter((t) => actualTypes.has(t)).length / expectedTypes.length,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/** Aggregates case outcomes into corpus-level metrics */
+export function summariseCalibration(
+  outcomes: CalibrationOutcome[],
+  tiers: readonly BossTier[],
+): CalibrationSummary {
+  const scored = outcomes.filter((o) => o.results !== null);
+
+  const confusion = Object.fromEntries(
+    tiers.map((expected) => [expected, Object.fromEntries(tiers.map((actual) => [actual, 0]))]),
+  ) as Record<BossTier, Record<BossTier, number>>;
+  for (const o of scored) {
+    confusion[o.expectedTier][o.results!.tier]++;
+  }
+
+  return {
+    scored: scored.length,
+    failed: outcomes.length - scored.length,
+    meanAbsoluteError: mean(scored.map((o) => Math.abs(o.bandError))),
+    bias: mean(scored.map((o) => o.bandError)),
+    bandHitRate: mean(scored.map((o) => (o.bandError === 0 ? 1 : 0))),
+    tierAccuracy: mean(scored.map((o) => (o.results!.tier === o.expectedTier ? 1 : 0))),
+    momentRecall: mean(scored.map((o) => o.momentRecall)),
+    confusion,
+  };
+}
+
+/** Builds a baseline from a run, for later drift comparisons */
+export function buildBaseline(
+  outcomes: CalibrationOutcome[],
+  provider: string,
+  model: string,
+  promptVersion: string,
+): CalibrationBaseline {
+  const ratings: CalibrationBaseline["ratings"] = {};
+  for (const o of outcomes) {
+    if (o.results) ratings[o.id] = { eloRating: o.results.eloRating, tier: o.results.tier };
+  }
+  return { provider, model, promptVersion, recordedAt: new Date().toISOString(), ratings };
+}
+
+/** Measures how far ratings moved since a baseline run */
+export function measureDrift(
+  outcomes: CalibrationOutcome[],
+  baseline: CalibrationBaseline,
+): CalibrationDrift {
+  const deltas: { id: string; delta: number }[] = [];
+  const tierChanges: CalibrationDrift["tierChanges"] = [];
+
+  for (const o of outcomes) {
+    const before = baseline.ratings[o.id];
+    if (!o.results || !before) continue;
+    deltas.push({ id: o.id, delta: o.results.eloRating - before.eloRating });
+    if (o.results.tier !== before.tier) {
+      tierChanges.push({ id: o.id, from: before.tier, to: o.results.tier });
+    }
+  }
+
+  return {
+    promptVersion: baseline.promptVersion,
+    compared: deltas.length,
+    meanAbsolute: mean(deltas.map((d) => Math.abs(d.delta))),
+    max: deltas.reduce<CalibrationDrift["max"]>(
+      (worst, d) => (!worst || Math.abs(d.delta) > Math.abs(worst.delta) ? d : worst),
+      null,
+    ),
+    tierChanges,
+  };
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+function signed(value: number): string {
+  const rounded = Math.round(value);
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/** Short column heading for a tier: its initials ("Wasting My Time" -> "WMT") */
+function tierInitials(tier: BossTier): string {
+  return tier
+    .split(" ")
+    .map((word) => word[0])
+    .join("");
+}
+
+/** Renders a plain-text report of a calibration run */
+export function formatCalibrationReport(
+  outcomes: CalibrationOutcome[],
+  summary: CalibrationSummary,
+  tiers: readonly BossTier[],
+  drift: CalibrationDrift | null,
+): string {
+  const lines: string[] = [];
+  const idWidth = Math.max(4, ...outcomes.map((o) => o.id.length));
+
+  lines.push("Cases");
+  lines.push(
+    `  ${"case".padEnd(idWidth)}  ${"expected".padEnd(26)}  ${"actual".padEnd(22)}  ${"error".padStart(6)}  moments`,
+  );
+  for (const o of outcomes) {
+    const expected = `${o.expectedTier} ${o.expectedBand.min}-${o.expectedBand.max}`;
+    const actual = o.results ? `${o.results.tier} ${o.results.eloRating}` : `FAILED: ${o.error}`;
+    const error = o.results ? signed(o.bandError) : "";
+    lines.push(
+      `  ${o.id.padEnd(idWidth)}  ${expected.padEnd(26)}  ${actual.padEnd(22)}  ${error.padStart(6)}  ${percent(o.momentRecall)}`,
+    );
+  }
+
+  lines.push("");
+  lines.push("Summary");
+  lines.push(`  scored             ${summary.scored} (${summary.failed} failed)`);
+  lines.push(`  mean abs. error    ${Math.round(summary.meanAbsoluteError)} ELO outside the expected band`);
+  lines.push(`  bias               ${signed(summary.bias)} ELO (positive rates generously)`);
+  lines.push(`  in band            ${percent(summary.bandHitRate)}`);
+  lines.push(`  tier accuracy      ${percent(summary.tierAccuracy)}`);
+  lines.push(`  moment recall      ${percent(summary.momentRecall)}`);
+
+  lines.push("");
+  lines.push("Tier confusion (rows expected, columns actual)");
+  const initials = tiers.map(tierInitials);
+  const rowWidth = Math.max(...tiers.map((t) => t.length));
+  lines.push(`  ${"".padEnd(rowWidth)}  ${initials.map((i) => i.padStart(4)).join("")}`);
+  for (const expected of tiers) {
+    const row = tiers.map((actual) => String(summary.confusion[expected][actual]).padStart(4));
+    lines.push(`  ${expected.padEnd(rowWidth)}  ${row.join("")}`);
+  }
+
+  lines.push("");
+  if (!drift) {
+    lines.push("Drift: no baseline for this provider and model");
+  } else {
+    lines.push(`Drift against baseline (${drift.compared} cases, prompt ${drift.promptVersion})`);
+    lines.push(`  mean abs. change   ${Math.round(drift.meanAbsolute)} ELO`);
+    if (drift.max && drift.max.delta !== 0) {
+      lines.push(`  largest change     ${signed(drift.max.delta)} ELO (${drift.max.id})`);
+    }
+    for (const change of drift.tierChanges) {
+      lines.push(`  tier changed       ${change.id}: ${change.from} -> ${change.to}`);
+    }
+  }
+
+  return lines.join("\n");
+}
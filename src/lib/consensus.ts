@@ -0,0 +1,156 @@
+/**
+ * Consensus scoring across several independent samples.
+ *
+ * A single model sample can move the ELO rating by hundreds of points on
+ * the same transcript. In consensus mode the score-interview route scores
+ * the transcript N times and combines the validated results here: median
+ * rating, per-dimension median scores, merged moment annotations, and a
+ * rating interval describing how much the samples disagreed.
+ */
+
+import { deriveTierFromRating, deriveVerdict } from "./tiers";
+import type {
+  Dimension,
+  MomentAnnotation,
+  MomentAnnotationType,
+  RubricDefinition,
+  ScoringResults,
+} from "./types";
+
+/** Maximum number of moments kept after merging all samples */
+const MAX_MERGED_MOMENTS = 8;
+
+/** Returns the median of a non-empty list of numbers */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Population standard deviation */
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/** Normalises a quote so the same moment picked by two samples compares equal */
+function normaliseQuote(quote: string): string {
+  return quote.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Merges moment annotations from all samples. Moments quoting the same
+ * answer are collapsed into one, classified by majority vote across the
+ * samples that picked it (ties go to the representative sample). The
+ * representative sample's moments come first, preserving its ordering.
+ */
+function mergeMoments(
+  samples: ScoringResults[],
+  representative: ScoringResults,
+): MomentAnnotation[] {
+  const ordered = [representative, ...samples.filter((s) => s !== representative)];
+  const groups = new Map<string, { moment: MomentAnnotation; votes: MomentAnnotationType[] }>();
+
+  for (const sample of ordered) {
+    for (const moment of sample.moments) {
+      const key = normaliseQuote(moment.quote);
+      const group = groups.get(key);
+      if (group) {
+        group.votes.push(moment.type);
+      } else {
+        groups.set(key, { moment, votes: [moment.type] });
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.votes.length - a.votes.length)
+    .slice(0, MAX_MERGED_MOMENTS)
+    .map(({ moment, votes }) => {
+      const counts = new Map<MomentAnnotationType, number>();
+      for (const vote of votes) counts.set(vote, (counts.get(vote) ?? 0) + 1);
+      let winner = moment.type;
+      for (const [type, count] of counts) {
+        if (count > (counts.get(winner) ?? 0)) winner = type;
+      }
+      if (winner === moment.type) return moment;
+
+      // Use the explanation from a sample that agreed with the majority
+      const agreeing = ordered
+        .flatMap((s) => s.moments)
+        .find((m) => m.type === winner && normaliseQuote(m.quote) === normaliseQuote(moment.quote));
+      return agreeing ?? { ...moment, type: winner };
+    });
+}
+
+/**
+ * Combines validated samples into a single consensus ScoringResults.
+ *
+ * Prose (boss summary, note, dimension feedback) is taken verbatim from
+ * the sample closest to the consensus value rather than synthesised, so
+ * every sentence the candidate reads was written against the transcript.
+ * Tier and verdict are re-derived from the median rating with the rubric
+ * the samples were scored against. Every sample shares a prompt version and
+ * model; the consensus is stamped with the time it was built.
+ */
+export function buildConsensus(
+  samples: ScoringResults[],
+  rubric: RubricDefinition,
+): ScoringResults {
+  if (samples.length === 0) {
+    throw new Error("Consensus requires at least one sample");
+  }
+
+  const ratings = samples.map((s) => s.eloRating);
+  const eloRating = Math.round(median(ratings));
+
+  // The sample whose rating is closest to the median speaks for the panel
+  const representative = samples.reduce((best, s) =>
+    Math.abs(s.eloRating - eloRating) < Math.abs(best.eloRating - eloRating) ? s : best,
+  );
+
+  const dimensions: Dimension[] = representative.dimensions.map((dim) => {
+    const scores = samples
+      .map((s) => s.dimensions.find((d) => d.name === dim.name)?.score)
+      .filter((score): score is number => score !== undefined);
+    const score = Math.round(median(scores));
+    const closest = samples
+      .map((s) => s.dimensions.find((d) => d.name === dim.name))
+      .filter((d): d is Dimension => d !== undefined)
+      .reduce((best, d) => (Math.abs(d.score - score) < Math.abs(best.score - score) ? d : best));
+    return { name: dim.name, score, feedback: closest.feedback };
+  });
+
+  const partialVotes = samples.filter((s) => s.isPartial).length;
+  const margin = Math.round(standardDeviation(ratings));
+
+  return {
+    eloRating,
+    tier: deriveTierFromRating(eloRating, rubric.tiers),
+    verdict: deriveVerdict(eloRating, rubric.hiredThreshold),
+    bossSummary: representative.bossSummary,
+    dimensions,
+    moments: mergeMoments(samples, representative),
+    isPartial: partialVotes * 2 > samples.length,
+    note: representative.note,
+    ratingInterval: {
+      low: Math.max(100, eloRating - margin),
+      high: Math.min(3000, eloRating + margin),
+      margin,
+      samples: samples.length,
+    },
+    rubric: rubric.id,
+    speechMetrics: representative.speechMetrics,
+    promptVersion: representative.promptVersion,
+    model: representative.model,
+    scoredAt: new Date().toISOString(),
+    verified: representative.verified,
+    conversationId: representative.conversationId,
+    conversationIds: representative.conversationIds,
+    demo: representative.demo,
+    termination: representative.termination,
+    difficulty: representative.difficulty,
+    persona: representative.persona,
+  };
+}
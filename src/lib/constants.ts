@@ -5,23 +5,28 @@
  * and character length limits used across components and API routes.
  *
  * Adapted from interview-elo with the following changes:
- * - STEP_ORDER: 5 steps starting with "landing" (removed provide-jd and briefing)
- * - STEP_LABELS: adapted labels for the 5-step flow
+ * - STEP_ORDER: 6 steps starting with "landing" (removed briefing; provide-jd
+ *   is optional and can be skipped)
+ * - STEP_LABELS: adapted labels for the 6-step flow
  * - ELO_TIERS: boss-themed tier names, same boundaries and colours
  * - HIRED_THRESHOLD: new constant (2200) defining the HIRED verdict boundary
- * - MAX_JD_TEXT_LENGTH: removed (no JD processing in this project)
  */
 
-import type { WizardStep, EloTierDefinition } from "./types";
+import type { TerminationReason, WizardStep, EloTierDefinition } from "./types";
 
-/** ElevenLabs agent ID, read from environment with empty-string fallback */
-export const AGENT_ID =
-  process.env.NEXT_PUBLIC_ELEVENLABS_AGENT_ID ?? "";
+/**
+ * Demo mode: with no ElevenLabs agent configured, the interview is a
+ * scripted text conversation scored offline (see components/DemoInterview.tsx).
+ * The agent ID stays on the server; next.config.ts only tells the browser
+ * whether there is one.
+ */
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "1";
 
 /** Wizard steps in their canonical display order */
 export const STEP_ORDER: WizardStep[] = [
   "landing",
   "upload-cv",
+  "provide-jd",
   "interview",
   "analysis",
   "results",
@@ -31,6 +36,7 @@ export const STEP_ORDER: WizardStep[] = [
 export const STEP_LABELS: Record<WizardStep, string> = {
   "landing": "Welcome",
   "upload-cv": "Upload CV",
+  "provide-jd": "Job Description",
   "interview": "Interview",
   "analysis": "Analysis",
   "results": "Results",
@@ -41,25 +47,108 @@ export const STEP_LABELS: Record<WizardStep, string> = {
  * Tiers are ordered from lowest to highest. Boundaries are inclusive
  * on both ends (e.g. "Wasting My Time" covers 100–599).
  * Tier names adapted to the boss's voice; boundaries and colours
- * identical to interview-elo.
+ * identical to interview-elo. This is the default rubric's tier table;
+ * other rubrics may move the boundaries.
  */
 export const ELO_TIERS: EloTierDefinition[] = [
-  { name: "Wasting My Time", min: 100, max: 599, colour: "var(--color-error)" },
-  { name: "Shows a Pulse", min: 600, max: 999, colour: "var(--color-warning-strong)" },
-  { name: "Adequate", min: 1000, max: 1399, colour: "var(--color-warning)" },
-  { name: "Noteworthy", min: 1400, max: 1799, colour: "var(--color-success)" },
-  { name: "Impressive", min: 1800, max: 2199, colour: "var(--color-accent)" },
-  { name: "Hired Material", min: 2200, max: 3000, colour: "var(--color-elite)" },
+  {
+    name: "Wasting My Time",
+    min: 100,
+    max: 599,
+    colour: "var(--color-error)",
+    description: "I will never get those minutes back. Fundamental incompetence.",
+  },
+  {
+    name: "Shows a Pulse",
+    min: 600,
+    max: 999,
+    colour: "var(--color-warning-strong)",
+    description: "You have potential. Deeply, deeply buried potential.",
+  },
+  {
+    name: "Adequate",
+    min: 1000,
+    max: 1399,
+    colour: "var(--color-warning)",
+    description: "You didn't embarrass yourself. That's something, I suppose.",
+  },
+  {
+    name: "Noteworthy",
+    min: 1400,
+    max: 1799,
+    colour: "var(--color-success)",
+    description: "I've seen worse. Considerably worse, in fact.",
+  },
+  {
+    name: "Impressive",
+    min: 1800,
+    max: 2199,
+    colour: "var(--color-accent)",
+    description: "You surprised me. That doesn't happen often.",
+  },
+  {
+    name: "Hired Material",
+    min: 2200,
+    max: 3000,
+    colour: "var(--color-elite)",
+    description: "Congratulations. Don't let it go to your head.",
+  },
+];
+
+/**
+ * Hard time limit for the interview session in seconds (15 minutes), at
+ * the full Carrington difficulty. Easier levels are shorter (see difficulty.ts).
+ */
+export const INTERVIEW_TIME_LIMIT_SECONDS = 15 * 60;
+
+/**
+ * Conversations one client IP may start in a day, reconnects included.
+ * With the time limit this caps the call minutes a caller can spend;
+ * sessions are free to mint, so the cap is not per session.
+ */
+export const MAX_CONVERSATIONS_PER_IP_PER_DAY = 20;
+
+/** Most conversations one interview can span: the first call and its resumptions after drops */
+export const MAX_CONVERSATION_SEGMENTS = 5;
+
+/** Every way an interview can end */
+export const TERMINATION_REASONS: readonly TerminationReason[] = [
+  "boss-ended",
+  "candidate-ended",
+  "time-limit",
+  "connection-lost",
 ];
 
 /** Maximum character length for extracted CV text (post-extraction) */
 export const MAX_CV_TEXT_LENGTH = 100_000;
 
+/** Maximum character length for extracted job description text (post-extraction) */
+export const MAX_JD_TEXT_LENGTH = 50_000;
+
 /** Maximum character length for transcript sent to scoring */
 export const MAX_TRANSCRIPT_LENGTH = 200_000;
 
+/** Maximum number of entries in a structured transcript sent to scoring */
+export const MAX_TRANSCRIPT_ENTRIES = 1_000;
+
+/** Maximum character length of a single structured transcript message */
+export const MAX_TRANSCRIPT_MESSAGE_LENGTH = 20_000;
+
+/** Maximum number of independent samples in consensus scoring mode */
+export const MAX_CONSENSUS_SAMPLES = 5;
+
+/**
+ * Maximum number of repair round-trips when a scoring response fails
+ * validation. Each repair sends the validator's message back to the model.
+ */
+export const MAX_SCORING_REPAIRS = 2;
+
 /**
  * The ELO rating threshold at or above which the verdict becomes "HIRED".
- * Below this threshold, the verdict is "NOT HIRED".
+ * Below this threshold, the verdict is "NOT HIRED". Default rubric only.
  */
 export const HIRED_THRESHOLD = 2200;
+
+/** ID of the rubric the client asks the server to score against */
+export const SCORING_RUBRIC_ID =
+  process.env.NEXT_PUBLIC_SCORING_RUBRIC || "default";
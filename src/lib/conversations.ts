@@ -0,0 +1,257 @@
+/**
+ * Server-side access to ElevenLabs conversations: signed URLs that start
+ * them, and their transcripts.
+ *
+ * Shared by the conversations route, which hands the transcript to the
+ * browser, and the score-interview route, which scores a conversation by
+ * ID so the transcript never passes through the client. A transcript
+ * already delivered by the post-call webhook is served from the
+ * transcript store without calling ElevenLabs. Needs ELEVENLABS_API_KEY
+ * and must only be imported from server code. ELEVENLABS_API_BASE_URL
+ * points it at another host, such as the local stand-in (lib/stand-ins).
+ * The conversation's metadata -- start time, duration and why the call
+ * ended -- comes with the transcript. The agent is private, so the browser
+ * starts each conversation with a signed URL minted here for
+ * ELEVENLABS_AGENT_ID, and the claim route reads back which session
+ * started a conversation before binding it (see lib/sessions.ts).
+ */
+
+import { INTERVIEW_TIME_LIMIT_SECONDS } from "./constants";
+import { getStoredConversation } from "./transcript-store";
+import type {
+  ConversationMetadata,
+  InterviewTermination,
+  TerminationReason,
+  TranscriptEntry,
+} from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Outcome of asking ElevenLabs for a signed conversation URL */
+export type SignedConversationUrl =
+  | { status: "ready"; signedUrl: string }
+  /** ELEVENLABS_API_KEY or ELEVENLABS_AGENT_ID is not set */
+  | { status: "unconfigured" }
+  /** ElevenLabs returned an error; `detail` is for the server log only */
+  | { status: "failed"; detail: string };
+
+/** Outcome of fetching a conversation's transcript */
+export type ConversationTranscript =
+  | { status: "ready"; transcript: TranscriptEntry[]; metadata: ConversationMetadata }
+  /** The call has ended but ElevenLabs is still processing it */
+  | { status: "processing" }
+  | { status: "not-found" }
+  /** ELEVENLABS_API_KEY is not set */
+  | { status: "unconfigured" }
+  /** ElevenLabs returned an error; `detail` is for the server log only */
+  | { status: "failed"; detail: string };
+
+/** Outcome of fetching who started a conversation, and when */
+export type ConversationOrigin =
+  | {
+      status: "ready";
+      /** The session_nonce dynamic variable the conversation was started with */
+      sessionNonce: string | null;
+      /** The difficulty dynamic variable, unvalidated */
+      difficulty: string | null;
+      /** The persona dynamic variable, unvalidated */
+      persona: string | null;
+      /** Start time in milliseconds since the epoch */
+      startedAt: number | null;
+    }
+  | { status: "not-found" }
+  /** ELEVENLABS_API_KEY is not set */
+  | { status: "unconfigured" }
+  /** ElevenLabs returned an error; `detail` is for the server log only */
+  | { status: "failed"; detail: string };
+
+/** A turn as ElevenLabs records it */
+export interface ElevenLabsTranscriptTurn {
+  role: string;
+  /** Null for tool-call turns */
+  message: string | null;
+  /** Seconds from the start of the call */
+  time_in_call_secs?: number;
+}
+
+/** The parts of a conversation's ElevenLabs metadata the app reads */
+export interface ElevenLabsConversationMetadata {
+  start_time_unix_secs?: number;
+  call_duration_secs?: number;
+  termination_reason?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Conversation ID must be 10-50 alphanumeric characters, hyphens, or underscores. */
+export const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9_-]{10,50}$/;
+
+/** Dynamic variable carrying the session's nonce into each conversation */
+export const SESSION_NONCE_VARIABLE = "session_nonce";
+
+/** Dynamic variable carrying the interview's difficulty into each conversation */
+export const DIFFICULTY_VARIABLE = "difficulty";
+
+/** Dynamic variable carrying the interviewer persona's ID into each conversation */
+export const PERSONA_VARIABLE = "persona";
+
+const DEFAULT_ELEVENLABS_API_BASE_URL = "https://api.elevenlabs.io";
+
+/** ElevenLabs' termination reason when the agent ended the call itself */
+const END_CALL_PATTERN = /end_call/i;
+
+// ─── Signed URLs ─────────────────────────────────────────────────────────────
+
+/** URL of an ElevenLabs REST API path, on ELEVENLABS_API_BASE_URL when set */
+function elevenLabsApiUrl(path: string): string {
+  const baseUrl = process.env.ELEVENLABS_API_BASE_URL?.trim() || DEFAULT_ELEVENLABS_API_BASE_URL;
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+/**
+ * Mints a signed websocket URL for one conversation with the private
+ * agent. ElevenLabs only accepts it for a few minutes, so it is requested
+ * right before the session starts. Network failures propagate to the caller.
+ */
+export async function createSignedConversationUrl(): Promise<SignedConversationUrl> {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  const agentId = process.env.ELEVENLABS_AGENT_ID?.trim();
+  if (!apiKey || !agentId) return { status: "unconfigured" };
+
+  const res = await fetch(
+    elevenLabsApiUrl(`/v1/convai/conversation/get-signed-url?agent_id=${encodeURIComponent(agentId)}`),
+    { headers: { "xi-api-key": apiKey } },
+  );
+  if (!res.ok) return { status: "failed", detail: `ElevenLabs API error: status=${res.status}` };
+
+  const data = await res.json();
+  if (typeof data.signed_url !== "string" || !data.signed_url.startsWith("wss://")) {
+    return { status: "failed", detail: "ElevenLabs returned no signed URL" };
+  }
+  return { status: "ready", signedUrl: data.signed_url };
+}
+
+// ─── Fetching ────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the transcript the webhook delivered for a conversation, or
+ * fetches the conversation from the ElevenLabs REST API and maps its
+ * transcript to TranscriptEntry[] once the conversation is complete.
+ * The ID must already have been checked against CONVERSATION_ID_PATTERN.
+ * Network failures propagate to the caller.
+ */
+export async function fetchConversationTranscript(id: string): Promise<ConversationTranscript> {
+  const delivered = getStoredConversation(id);
+  if (delivered) return { status: "ready", ...delivered };
+
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) return { status: "unconfigured" };
+
+  const res = await fetch(elevenLabsApiUrl(`/v1/convai/conversations/${id}`), {
+    headers: {
+      "xi-api-key": apiKey,
+    },
+  });
+
+  if (res.status === 404) return { status: "not-found" };
+  if (!res.ok) return { status: "failed", detail: `ElevenLabs API error: status=${res.status}` };
+
+  const data = await res.json();
+  if (data.status !== "done" && data.status !== "finished") return { status: "processing" };
+
+  return {
+    status: "ready",
+    transcript: toTranscriptEntries(data.transcript),
+    metadata: toConversationMetadata(data.metadata),
+  };
+}
+
+/**
+ * Fetches the session nonce, difficulty and persona a conversation was
+ * started with, and its start time. Works while the call is still in progress,
+ * unlike the transcript.
+ * The ID must already have been checked against CONVERSATION_ID_PATTERN.
+ * Network failures propagate to the caller.
+ */
+export async function fetchConversationOrigin(id: string): Promise<ConversationOrigin> {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) return { status: "unconfigured" };
+
+  const res = await fetch(elevenLabsApiUrl(`/v1/convai/conversations/${id}`), {
+    headers: {
+      "xi-api-key": apiKey,
+    },
+  });
+
+  if (res.status === 404) return { status: "not-found" };
+  if (!res.ok) return { status: "failed", detail: `ElevenLabs API error: status=${res.status}` };
+
+  const data = await res.json();
+  const variables = data.conversation_initiation_client_data?.dynamic_variables ?? {};
+  const nonce = variables[SESSION_NONCE_VARIABLE];
+  const difficulty = variables[DIFFICULTY_VARIABLE];
+  const persona = variables[PERSONA_VARIABLE];
+  const start = data.metadata?.start_time_unix_secs;
+  return {
+    status: "ready",
+    sessionNonce: typeof nonce === "string" ? nonce : null,
+    difficulty: typeof difficulty === "string" ? difficulty : null,
+    persona: typeof persona === "string" ? persona : null,
+    startedAt: typeof start === "number" ? start * 1000 : null,
+  };
+}
+
+/**
+ * Maps the transcript of an ElevenLabs conversation -- from the REST API
+ * or the post-call webhook, which share a format -- to TranscriptEntry[].
+ */
+export function toTranscriptEntries(transcript: ElevenLabsTranscriptTurn[] | undefined): TranscriptEntry[] {
+  return (transcript || []).map((entry) => ({
+    role: entry.role === "agent" ? "agent" : "user",
+    // Tool-call turns carry no message
+    message: entry.message ?? "",
+    timestamp: entry.time_in_call_secs,
+  }));
+}
+
+/** Maps a conversation's ElevenLabs metadata (REST API or webhook) to ConversationMetadata */
+export function toConversationMetadata(
+  metadata: ElevenLabsConversationMetadata | undefined,
+): ConversationMetadata {
+  const start = metadata?.start_time_unix_secs;
+  const duration = metadata?.call_duration_secs;
+  const reason = metadata?.termination_reason?.trim();
+  return {
+    startedAt: typeof start === "number" ? new Date(start * 1000).toISOString() : null,
+    durationSeconds: typeof duration === "number" && duration >= 0 ? duration : null,
+    terminationReason: reason || null,
+  };
+}
+
+// ─── Termination ─────────────────────────────────────────────────────────────
+
+/**
+ * Works out how an interview ended. ElevenLabs' record of the call is
+ * preferred: it knows the call's real duration and whether the agent ended
+ * it with end_call. It cannot tell a candidate hanging up from the
+ * browser's time limit, so otherwise the browser's `claimed` reason is
+ * used, or the duration against the interview's time limit decides when
+ * there is no claim. Returns null when neither side knows.
+ */
+export function resolveTermination(
+  metadata: ConversationMetadata | null,
+  claimed: InterviewTermination | null,
+  timeLimitSeconds: number = INTERVIEW_TIME_LIMIT_SECONDS,
+): InterviewTermination | null {
+  const durationSeconds = metadata?.durationSeconds ?? claimed?.durationSeconds;
+  if (durationSeconds === undefined) return null;
+
+  let reason: TerminationReason | undefined = claimed?.reason;
+  if (metadata?.terminationReason && END_CALL_PATTERN.test(metadata.terminationReason)) {
+    reason = "boss-ended";
+  } else if (!reason && metadata?.terminationReason) {
+    reason = durationSeconds >= timeLimitSeconds ? "time-limit" : "candidate-ended";
+  }
+
+  return reason ? { reason, durationSeconds } : null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Registry of interview difficulty levels.
+ *
+ * A level changes three things: the interviewer's patience (rendered into
+ * the agent prompt, see agent-prompt.ts), the time limit the browser
+ * enforces, and scoring -- the HIRED threshold and a calibration note that
+ * tells the model how gently the candidate was treated. Ratings stay on
+ * the same scale at every level, so a Warm-up 1500 and a Carrington 1500
+ * describe the same performance; only the bar for the verdict moves.
+ */
+
+import { INTERVIEW_TIME_LIMIT_SECONDS } from "./constants";
+import type { InterviewDifficulty, RubricDefinition } from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DifficultyLevel {
+  id: InterviewDifficulty;
+  /** Display name */
+  label: string;
+  /** One-line description shown in the picker */
+  description: string;
+  /** Hard time limit for the interview in seconds */
+  timeLimitSeconds: number;
+  /** Added to the rubric's HIRED threshold (0 or negative) */
+  hiredThresholdOffset: number;
+  /** How the interview differed from the full boss, for the scoring prompt (null for the full boss) */
+  calibration: string | null;
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** All difficulty levels, keyed by ID, easiest first */
+export const DIFFICULTY_LEVELS: Record<InterviewDifficulty, DifficultyLevel> = {
+  "warm-up": {
+    id: "warm-up",
+    label: "Warm-up",
+    description: "A patient boss who lets you retry a question and never hangs up early. 10 minutes.",
+    timeLimitSeconds: 10 * 60,
+    hiredThresholdOffset: -800,
+    calibration:
+      "This was a Warm-up interview. The interviewer was patient, told the candidate what they were looking for when an answer missed, and let them try again. They never ended the call early. Rate each answer on the candidate's best attempt at it, on the usual scale. Do not credit composure for surviving pressure that was never applied.",
+  },
+  standard: {
+    id: "standard",
+    label: "Standard",
+    description: "Demanding, but gives you one more chance before ending the call. 12 minutes.",
+    timeLimitSeconds: 12 * 60,
+    hiredThresholdOffset: -400,
+    calibration:
+      "This was a Standard interview. The interviewer was demanding but gave a struggling candidate one more weak answer than usual before ending the call. Rate on the usual scale.",
+  },
+  carrington: {
+    id: "carrington",
+    label: "Carrington",
+    description: "The full boss. Three weak answers and the call is over. 15 minutes.",
+    timeLimitSeconds: INTERVIEW_TIME_LIMIT_SECONDS,
+    hiredThresholdOffset: 0,
+    calibration: null,
+  },
+};
+
+/** The level interviews ran at before difficulty was selectable */
+export const DEFAULT_DIFFICULTY: InterviewDifficulty = "carrington";
+
+/** Difficulty IDs in picker order */
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTY_LEVELS) as InterviewDifficulty[];
+
+/** Whether a value is a known difficulty ID */
+export function isInterviewDifficulty(value: unknown): value is InterviewDifficulty {
+  return typeof value === "string" && Object.hasOwn(DIFFICULTY_LEVELS, value);
+}
+
+/** Returns the rubric with its HIRED threshold moved for the difficulty level */
+export function withDifficulty(
+  rubric: RubricDefinition,
+  difficulty: InterviewDifficulty,
+): RubricDefinition {
+  const offset = DIFFICULTY_LEVELS[difficulty].hiredThresholdOffset;
+  return offset === 0 ? rubric : { ...rubric, hiredThreshold: rubric.hiredThreshold + offset };
+}
@@ -1,21 +1,29 @@
-import type { TranscriptEntry } from "./types";
+import type { ConversationMetadata, TranscriptEntry } from "./types";
 
-const BASE_DELAY_MS = 3000;
-const BACKOFF_MULTIPLIER = 1.5;
-const MAX_ATTEMPTS = 8;
+/** Seconds each request asks the server to hold on for the transcript */
+const WAIT_SECONDS = 20;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+/** Total time to wait for ElevenLabs to finish processing the call */
+const MAX_WAIT_MS = 3 * 60 * 1000;
 
-export async function fetchTranscript(
+/**
+ * Fetches a conversation's transcript and metadata, waiting for ElevenLabs
+ * to finish processing the call. Each request long-polls the conversations
+ * route, which answers as soon as the post-call webhook delivers the
+ * transcript.
+ */
+export async function fetchConversation(
   conversationId: string
-): Promise<TranscriptEntry[]> {
-  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+): Promise<{ transcript: TranscriptEntry[]; metadata: ConversationMetadata }> {
+  const deadline = Date.now() + MAX_WAIT_MS;
+
+  while (Date.now() < deadline) {
     let res: Response;
 
     try {
-      res = await fetch(`/api/conversations/${conversationId}`);
+      res = await fetch(
+        `/api/conversations/${conversationId}?wait=${WAIT_SECONDS}`
+      );
     } catch {
       throw new Error(
         "Network error — please check your connection and try again."
@@ -26,7 +34,10 @@ export async function fetchTranscript(
     if (res.status === 200) {
       try {
         const data = await res.json();
-        return data.transcript as TranscriptEntry[];
+        return {
+          transcript: data.transcript as TranscriptEntry[],
+          metadata: data.metadata as ConversationMetadata,
+        };
       } catch {
         throw new Error(
           "Failed to fetch transcript — unexpected server response."
@@ -34,11 +45,8 @@ export async function fetchTranscript(
       }
     }
 
-    // Transcript not yet available — retry with backoff
+    // The wait ran out before the transcript arrived — ask again
     if (res.status === 202) {
-      if (attempt < MAX_ATTEMPTS - 1) {
-        await sleep(BASE_DELAY_MS * BACKOFF_MULTIPLIER ** attempt);
-      }
       continue;
     }
 
@@ -59,3 +67,50 @@ export async function fetchTranscript(
     "Transcript is not yet available. Please wait a moment and try again."
   );
 }
+
+/**
+ * Starts (or resumes) the browser's interview session. The server binds
+ * every conversation this browser claims to the session cookie it issues.
+ */
+export async function startInterviewSession(): Promise<void> {
+  const res = await fetch("/api/session", { method: "POST" });
+  if (!res.ok) {
+    throw new Error("Failed to start the interview session. Please try again.");
+  }
+}
+
+/**
+ * Asks the server for a signed URL to start one conversation with the
+ * private agent, and the session nonce to start it with. Call after
+ * startInterviewSession: the URL is only issued to a session, within its
+ * daily quota.
+ */
+export async function fetchSignedUrl(): Promise<{ signedUrl: string; sessionNonce: string }> {
+  const res = await fetch("/api/signed-url", { method: "POST" });
+  let data: { signedUrl?: string; sessionNonce?: string; error?: string } = {};
+  try {
+    data = await res.json();
+  } catch {
+    // JSON parse failed — use the fallback message
+  }
+  if (!res.ok || typeof data.signedUrl !== "string" || typeof data.sessionNonce !== "string") {
+    throw new Error(data.error ?? "Failed to start the interview. Please try again.");
+  }
+  return { signedUrl: data.signedUrl, sessionNonce: data.sessionNonce };
+}
+
+/**
+ * Claims a conversation for this browser's session, so that only this
+ * browser can fetch its transcript and score it. The conversation must
+ * have been started with the nonce from fetchSignedUrl.
+ */
+export async function registerConversation(conversationId: string): Promise<void> {
+  const res = await fetch("/api/conversations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ conversationId }),
+  });
+  if (!res.ok) {
+    throw new Error("Failed to register the interview. Please try again.");
+  }
+}
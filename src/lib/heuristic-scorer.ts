@@ -0,0 +1,296 @@
+/**
+ * Deterministic transcript scorer used by the heuristic scoring provider.
+ *
+ * Produces a ScoringResults-shaped object from simple text statistics --
+ * answer length, filler and hedge words, concrete numbers, first-person
+ * evidence, candidate questions and, when a job description is provided,
+ * how many of its key terms the candidate touched on. It is not a substitute for a model;
+ * it exists so the full scoring flow can run offline and so tests get the
+ * same rating for the same transcript every time.
+ */
+
+import { deriveTierFromRating, deriveVerdict } from "./tiers";
+import { parseTranscriptText } from "./transcript";
+import type {
+  BossTier,
+  Dimension,
+  HeuristicSignal,
+  MomentAnnotation,
+  MomentAnnotationType,
+  RubricDefinition,
+  ScoringProvenance,
+  ScoringResults,
+} from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/**
+ * Fewer candidate answers than this marks the assessment as partial, which
+ * caps the rating at the top of the lowest tier
+ */
+const MIN_ANSWERS_FOR_FULL_ASSESSMENT = 5;
+
+/** Maximum number of moment annotations generated */
+const MAX_MOMENTS = 6;
+
+/** Maximum characters of a candidate answer quoted in a moment */
+const MAX_QUOTE_LENGTH = 240;
+
+const FILLER_PATTERN = /\b(um+|uh+|erm+|like|basically|you know|sort of|kind of|actually)\b/gi;
+const HEDGE_PATTERN = /\b(i think|i guess|maybe|perhaps|not sure|sorry|i suppose|probably)\b/gi;
+const EVIDENCE_PATTERN = /\b(i (led|built|designed|shipped|delivered|managed|owned|wrote|launched|reduced|increased|migrated|decided))\b/gi;
+const NUMBER_PATTERN = /\b\d[\d,.]*\s*(%|percent|k|m|x|ms|users|people|engineers|months|weeks|years)?/gi;
+
+/** Number of most frequent job description terms checked against the answers */
+const MAX_JD_TERMS = 30;
+
+/** Words too common in postings to say anything about role fit */
+const JD_STOPWORDS = new Set([
+  "about", "ability", "across", "also", "and", "strong", "team", "teams", "that", "their",
+  "there", "these", "this", "will", "with", "work", "working", "your", "from", "have",
+  "into", "other", "role", "such", "they", "what", "when", "where", "which", "while",
+  "would", "should", "must", "able", "experience", "including", "within", "using", "you",
+  "our", "the", "for", "are", "who", "more", "than", "years", "skills", "knowledge",
+]);
+
+/** Feedback per signal for low (1-4), mid (5-7) and high (8-10) scores */
+const FEEDBACK: Record<HeuristicSignal, [string, string, string]> = {
+  structure: [
+    "You rambled, you hedged, and you filled the silence with noise. A competent answer states the point in the first sentence and supports it in the next two.",
+    "Your answers were understandable, which is the minimum. Lead with the conclusion and stop talking once you have made it.",
+    "Your answers were structured and to the point. I did not have to dig for the substance. Grudgingly noted.",
+  ],
+  specificity: [
+    "I heard almost nothing specific. Names, numbers and trade-offs are what substance sounds like, and you offered none of them.",
+    "There was some substance, buried under generalities. When I ask how, I expect the mechanism, not the headline.",
+    "You spoke in specifics and numbers rather than slogans. That is what depth sounds like.",
+  ],
+  evidence: [
+    "You told me what you would do, not what you did. Hypotheticals are not evidence. Real examples with outcomes are.",
+    "Some of your examples were real, but your own role was blurred by a great deal of 'we'. Tell me what you did.",
+    "Your examples were concrete and your own contribution was clear. That is evidence. Most people only offer anecdotes.",
+  ],
+  composure: [
+    "You apologised, hedged and qualified until there was nothing left of your answers. Conviction is not optional.",
+    "You held together, mostly. The qualifiers crept in whenever I pushed. Defend your position or change it -- do not dissolve it.",
+    "You held your ground under pressure without becoming defensive. I noticed.",
+  ],
+  curiosity: [
+    "You asked me nothing of substance. A candidate with no questions is a candidate with no curiosity.",
+    "You asked a question or two. Generic ones. Ask about the hardest problem in the room, not the culture.",
+    "Your questions showed you had actually thought about the problems I deal with. Rare.",
+  ],
+  relevance: [
+    "You barely touched on what this role requires. Read the job description before you interview for the job.",
+    "You covered some of what this role asks for. The essential requirements went unmentioned or unproven.",
+    "You spoke directly to what this role requires, with examples to back it. You read the posting. Most do not.",
+  ],
+};
+
+/** Boss summaries keyed by tier */
+const SUMMARIES: Record<BossTier, string> = {
+  "Wasting My Time":
+    "I will never get those minutes back. You gave me nothing specific, nothing structured and nothing I could hire. Prepare next time.",
+  "Shows a Pulse":
+    "You have potential. It is buried very deep. Specifics, structure and conviction -- come back when you have all three.",
+  "Adequate":
+    "You did not embarrass yourself, which is something. But adequate is not what I hire. I need answers that go deeper than the first layer.",
+  "Noteworthy":
+    "I have seen worse. Considerably worse. You gave me real examples, even if you stopped short of the detail that would have convinced me.",
+  "Impressive":
+    "You surprised me. That does not happen often. Do not mistake it for a job offer.",
+  "Hired Material":
+    "Congratulations. You gave me substance, evidence and spine in equal measure. Do not let it go to your head.",
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface Exchange {
+  /** The interviewer's question preceding the answer (empty if none) */
+  question: string;
+  /** The candidate's answer */
+  answer: string;
+}
+
+/** Splits an "Interviewer:/Candidate:" transcript into question/answer pairs */
+function parseExchanges(transcript: string): Exchange[] {
+  const exchanges: Exchange[] = [];
+  let lastQuestion = "";
+
+  for (const entry of parseTranscriptText(transcript)) {
+    if (!entry.message) continue;
+
+    if (entry.role === "agent") {
+      lastQuestion = entry.message;
+    } else {
+      exchanges.push({ question: lastQuestion, answer: entry.message });
+    }
+  }
+
+  return exchanges;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function clampScore(value: number): number {
+  return Math.max(1, Math.min(10, Math.round(value)));
+}
+
+/** The most frequent distinctive words of a job description, most frequent first */
+function jdKeyTerms(jdText: string): string[] {
+  const counts = new Map<string, number>();
+  for (const word of jdText.toLowerCase().match(/[a-z][a-z+#.-]{2,}/g) ?? []) {
+    const term = word.replace(/[.-]+$/, "");
+    if (term.length < 3 || JD_STOPWORDS.has(term)) continue;
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_JD_TERMS)
+    .map(([term]) => term);
+}
+
+/** Share (0-1) of the job description's key terms the candidate used */
+function jdCoverage(jdText: string, answers: string): number {
+  const terms = jdKeyTerms(jdText);
+  if (terms.length === 0) return 0;
+  const spoken = new Set(answers.toLowerCase().match(/[a-z][a-z+#.-]{2,}/g) ?? []);
+  return terms.filter((t) => spoken.has(t)).length / terms.length;
+}
+
+/** Scores a single answer on a 0-1 scale for moment classification */
+function answerQuality(answer: string): number {
+  const words = wordCount(answer);
+  const lengthScore = words < 8 ? 0.1 : words < 25 ? 0.4 : words <= 150 ? 0.8 : 0.5;
+  const specifics = Math.min(0.3, 0.1 * countMatches(answer, NUMBER_PATTERN));
+  const evidence = Math.min(0.2, 0.1 * countMatches(answer, EVIDENCE_PATTERN));
+  const penalties =
+    0.05 * countMatches(answer, FILLER_PATTERN) + 0.08 * countMatches(answer, HEDGE_PATTERN);
+  return Math.max(0, Math.min(1, lengthScore + specifics + evidence - penalties));
+}
+
+function classifyMoment(quality: number): MomentAnnotationType {
+  if (quality >= 0.95) return "brilliant";
+  if (quality >= 0.75) return "good";
+  if (quality >= 0.55) return "neutral";
+  if (quality >= 0.35) return "inaccuracy";
+  if (quality >= 0.15) return "mistake";
+  return "blunder";
+}
+
+const MOMENT_EXPLANATIONS: Record<MomentAnnotationType, string> = {
+  brilliant: "This was -- not terrible. Specific, structured and owned. I will give you that one.",
+  good: "A concrete answer with an actual example behind it. Adequate. Continue.",
+  neutral: "This is what most people say. Most people are not hired.",
+  inaccuracy: "You circled the question without landing on it. I wanted a specific example with an outcome.",
+  mistake: "Vague, hedged and thin. A competent answer would have named what you did and what changed because of it.",
+  blunder: "That was not an answer. That was the absence of one.",
+};
+
+function truncateQuote(answer: string): string {
+  if (answer.length <= MAX_QUOTE_LENGTH) return answer;
+  const cut = answer.slice(0, MAX_QUOTE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return lastSpace > 0 ? cut.slice(0, lastSpace) : cut;
+}
+
+/** Picks up to `count` evenly spaced indices from a list of `length` items */
+function spreadIndices(length: number, count: number): number[] {
+  if (length <= count) return Array.from({ length }, (_, i) => i);
+  const step = length / count;
+  return Array.from({ length: count }, (_, i) => Math.floor(i * step));
+}
+
+// ─── Scorer ──────────────────────────────────────────────────────────────────
+
+/**
+ * Scores a transcript deterministically against a rubric. Each rubric
+ * dimension is scored by its heuristic signal, and the rating is the
+ * weighted mean of the dimension scores. The CV contributes nothing to the
+ * rating -- it is accepted only so the signature matches what a model sees.
+ * The job description feeds the relevance signal; without one, relevance
+ * scores in the middle of the scale. As with model output, the route adds
+ * the provenance stamps.
+ */
+export function scoreHeuristically(
+  transcript: string,
+  _cvText: string | null,
+  rubric: RubricDefinition,
+  jdText: string | null = null,
+): Omit<ScoringResults, keyof ScoringProvenance> {
+  const exchanges = parseExchanges(transcript);
+  const answers = exchanges.map((e) => e.answer);
+  const allAnswers = answers.join(" ");
+
+  const answerCount = answers.length;
+  const totalWords = wordCount(allAnswers);
+  const avgWords = answerCount > 0 ? totalWords / answerCount : 0;
+  const per100Words = (pattern: RegExp) =>
+    totalWords > 0 ? (countMatches(allAnswers, pattern) / totalWords) * 100 : 0;
+
+  const fillerRate = per100Words(FILLER_PATTERN);
+  const hedgeRate = per100Words(HEDGE_PATTERN);
+  const numberRate = per100Words(NUMBER_PATTERN);
+  const evidenceRate = per100Words(EVIDENCE_PATTERN);
+  const candidateQuestions = answers.filter((a) => a.includes("?")).length;
+
+  const lengthScore = avgWords < 8 ? 2 : avgWords < 25 ? 4 : avgWords <= 150 ? 7 : 5;
+
+  const signals: Record<HeuristicSignal, number> = {
+    structure: clampScore(lengthScore - fillerRate),
+    specificity: clampScore(2 + numberRate * 2 + Math.min(2, avgWords / 40)),
+    evidence: clampScore(2 + evidenceRate * 4 + numberRate),
+    composure: clampScore(lengthScore + 1 - hedgeRate * 2),
+    curiosity: clampScore(1 + candidateQuestions * 2),
+    relevance: jdText ? clampScore(1 + jdCoverage(jdText, allAnswers) * 15) : 5,
+  };
+
+  const dimensions: Dimension[] = rubric.dimensions.map(({ key, heuristicSignal }) => {
+    const score = signals[heuristicSignal];
+    const band = score <= 4 ? 0 : score <= 7 ? 1 : 2;
+    return { name: key, score, feedback: FEEDBACK[heuristicSignal][band] };
+  });
+
+  const isPartial = answerCount < MIN_ANSWERS_FOR_FULL_ASSESSMENT;
+  const totalWeight = rubric.dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const meanScore =
+    rubric.dimensions.reduce((sum, d, i) => sum + d.weight * dimensions[i].score, 0) /
+    totalWeight;
+  let eloRating = Math.round((100 + ((meanScore - 1) / 9) * 2900) / 10) * 10;
+  if (isPartial) eloRating = Math.min(eloRating, rubric.tiers[0].max);
+  eloRating = Math.max(100, Math.min(3000, eloRating));
+
+  const tier = deriveTierFromRating(eloRating, rubric.tiers);
+
+  const moments: MomentAnnotation[] = spreadIndices(exchanges.length, MAX_MOMENTS)
+    .filter((i) => exchanges[i].question.length > 0)
+    .map((i) => {
+      const type = classifyMoment(answerQuality(exchanges[i].answer));
+      return {
+        type,
+        question: exchanges[i].question,
+        quote: truncateQuote(exchanges[i].answer),
+        explanation: MOMENT_EXPLANATIONS[type],
+      };
+    });
+
+  return {
+    eloRating,
+    tier,
+    verdict: deriveVerdict(eloRating, rubric.hiredThreshold),
+    bossSummary: SUMMARIES[tier],
+    dimensions,
+    moments,
+    isPartial,
+    note: isPartial
+      ? "This was barely an interview. You gave me almost nothing to work with, which is itself a data point."
+      : undefined,
+    rubric: rubric.id,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Condensing of job descriptions for the voice agent.
+ *
+ * Postings are long and mostly boilerplate -- company history, benefits,
+ * equal opportunity statements, application instructions. The agent only
+ * needs the role, responsibilities and requirements, and ElevenLabs
+ * dynamic variables are injected into every turn of the conversation, so
+ * the full text is condensed before the call starts:
+ * - boilerplate sections are dropped by their heading
+ * - standalone boilerplate lines (equal opportunity, how to apply) are dropped
+ * - bullets and whitespace are normalised and duplicate lines removed
+ * - the result is cut at a line boundary once it reaches the length budget
+ *
+ * Scoring receives the full text; only the agent sees the condensed form.
+ */
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Maximum characters of condensed job description passed to the agent */
+const MAX_CONDENSED_LENGTH = 3_000;
+
+/** Headings longer than this are treated as ordinary lines */
+const MAX_HEADING_LENGTH = 60;
+
+/** Headings of sections the agent does not need */
+const BOILERPLATE_HEADING_PATTERN =
+  /^(about (us|the company|the team)|who we are|our (story|mission|values|culture)|benefits|perks|what we offer|why join( us)?|compensation|salary|how to apply|application process|equal opportunit|diversity)/i;
+
+/** Section names that are headings even without a colon or capitals */
+const KNOWN_HEADING_PATTERN =
+  /^(about (us|the company|the team|the role|you)|who we are|our (story|mission|values|culture)|benefits|perks( (and|&) benefits)?|what we offer|why join( us)?|compensation|salary|how to apply|application process|equal opportunit(y|ies)|diversity( (and|&) inclusion)?|the role|overview|summary|(key )?responsibilities|requirements|(minimum |preferred |desired )?qualifications|what you['’]?ll (do|bring)|what you will (do|bring)|who you are|what we['’]?re looking for|what we are looking for|nice to haves?|bonus points|skills)[?!]?$/i;
+
+/** Standalone lines that are boilerplate wherever they appear */
+const BOILERPLATE_LINE_PATTERN =
+  /(equal opportunity employer|regardless of (race|gender|age)|reasonable accommodation|apply (now|today|via)|click (here|apply)|privacy (policy|notice))/i;
+
+/** Bullet or list-number marker at the start of a line */
+const BULLET_PATTERN = /^\s*([-*•·▪◦]|\d+[.)])\s+/;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Strips bullet markers and collapses internal whitespace */
+function normaliseLine(line: string): string {
+  return line.replace(BULLET_PATTERN, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * A short, unbulleted line is a section heading when it ends with a colon,
+ * is in capitals, or is a known section name. Other short lines, such as
+ * unbulleted benefits, are ordinary lines of the section they sit in.
+ */
+function isHeading(raw: string, line: string): boolean {
+  if (BULLET_PATTERN.test(raw) || line.length > MAX_HEADING_LENGTH) return false;
+  return (
+    line.endsWith(":") ||
+    (/[A-Z]/.test(line) && line === line.toUpperCase()) ||
+    KNOWN_HEADING_PATTERN.test(line)
+  );
+}
+
+// ─── Condensing ──────────────────────────────────────────────────────────────
+
+/**
+ * Condenses a job description to the parts that matter for the interview.
+ * Returns an empty string when nothing survives (e.g. an all-boilerplate
+ * upload), so callers can fall back to their no-JD text.
+ */
+export function condenseJobDescription(text: string): string {
+  const kept: string[] = [];
+  const seen = new Set<string>();
+  let inBoilerplate = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = normaliseLine(raw);
+    if (!line) continue;
+
+    if (isHeading(raw, line)) {
+      inBoilerplate = BOILERPLATE_HEADING_PATTERN.test(line.replace(/:$/, ""));
+    }
+    if (inBoilerplate || BOILERPLATE_LINE_PATTERN.test(line)) continue;
+
+    const key = line.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    kept.push(line);
+  }
+
+  let condensed = "";
+  for (const line of kept) {
+    const next = condensed ? `${condensed}\n${line}` : line;
+    if (next.length > MAX_CONDENSED_LENGTH) {
+      // A single oversized first line is cut at a word boundary instead
+      if (!condensed) {
+        const cut = line.slice(0, MAX_CONDENSED_LENGTH);
+        const lastSpace = cut.lastIndexOf(" ");
+        condensed = lastSpace > 0 ? cut.slice(0, lastSpace) : cut;
+      }
+      break;
+    }
+    condensed = next;
+  }
+
+  return condensed;
+}
@@ -0,0 +1,109 @@
+/**
+ * Registry of interview loops.
+ *
+ * A loop chains several interviews the way real hiring does: a screen, a
+ * harder round, then a final. Each round sets the persona, difficulty and
+ * optionally the rubric, and the candidate only progresses when the round's
+ * ELO rating reaches its gate. When the loop ends -- at the final round or
+ * at a gate the candidate did not clear -- every round's scoring results
+ * are combined into one verdict. Later rounds weigh more, and the HIRED bar
+ * is the same weighted mix of each round's own HIRED threshold, so a loop
+ * of easier rounds is held to a correspondingly lower bar.
+ */
+
+import { resolveResultsRubric } from "./rubrics";
+import { deriveTierFromRating } from "./tiers";
+import type {
+  InterviewLoop,
+  LoopOutcome,
+  LoopProgress,
+  LoopRound,
+  LoopRoundStatus,
+  ScoringResults,
+} from "./types";
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** All interview loops, keyed by ID, in picker order */
+export const LOOPS: Record<string, InterviewLoop> = {
+  "hiring-loop": {
+    id: "hiring-loop",
+    name: "Hiring loop",
+    description: "A friendly screen, a formal panel, then the final with the CEO.",
+    rounds: [
+      { label: "Screen", persona: "engineering-manager", difficulty: "warm-up", progressRating: 1000, weight: 1 },
+      { label: "Panel", persona: "panel-chair", difficulty: "standard", progressRating: 1400, weight: 2 },
+      { label: "Final", persona: "carrington", difficulty: "carrington", progressRating: null, weight: 3 },
+    ],
+  },
+  "startup-loop": {
+    id: "startup-loop",
+    name: "Startup loop",
+    description: "A technical round, the lead investor, then the final with the CEO.",
+    rounds: [
+      { label: "Technical", persona: "engineering-manager", difficulty: "standard", progressRating: 1200, weight: 1 },
+      { label: "Investor", persona: "skeptical-vc", difficulty: "standard", progressRating: 1600, weight: 2 },
+      { label: "Final", persona: "carrington", difficulty: "carrington", progressRating: null, weight: 3 },
+    ],
+  },
+};
+
+/** Returns the loop with the given ID, or null if none is registered */
+export function getLoop(id: string): InterviewLoop | null {
+  return Object.hasOwn(LOOPS, id) ? LOOPS[id] : null;
+}
+
+// ─── Progression ─────────────────────────────────────────────────────────────
+
+/** Whether a round's results clear its gate (the final round has none to clear) */
+export function clearsRound(round: LoopRound, results: ScoringResults): boolean {
+  return round.progressRating === null || results.eloRating >= round.progressRating;
+}
+
+/** Whether the loop is over: the final round is scored, or a gate was not cleared */
+export function isLoopFinished(loop: InterviewLoop, progress: LoopProgress): boolean {
+  const results = progress.results[progress.round];
+  if (!results) return false;
+  return progress.round === loop.rounds.length - 1 || !clearsRound(loop.rounds[progress.round], results);
+}
+
+/** Where each round of the loop stands, in round order */
+export function roundStatuses(loop: InterviewLoop, progress: LoopProgress): LoopRoundStatus[] {
+  return loop.rounds.map((round, index) => {
+    const results = progress.results[index];
+    if (!results) return index === progress.round ? "current" : "upcoming";
+    if (round.progressRating === null) return "complete";
+    return clearsRound(round, results) ? "passed" : "failed";
+  });
+}
+
+// ─── Final Verdict ───────────────────────────────────────────────────────────
+
+/**
+ * Combines the scoring results of every round held into the loop's verdict.
+ * The rating and the HIRED bar are weighted means over the rounds held;
+ * a candidate stopped at a gate is never HIRED, whatever the mean says.
+ */
+export function buildLoopOutcome(loop: InterviewLoop, results: ScoringResults[]): LoopOutcome {
+  if (results.length === 0) {
+    throw new Error("A loop outcome requires at least one scored round");
+  }
+
+  const held = results.map((r, index) => ({ round: loop.rounds[index], results: r }));
+  const totalWeight = held.reduce((sum, { round }) => sum + round.weight, 0);
+  const weighted = (value: (r: ScoringResults) => number) =>
+    Math.round(held.reduce((sum, { round, results: r }) => sum + round.weight * value(r), 0) / totalWeight);
+
+  const eloRating = weighted((r) => r.eloRating);
+  const hiredThreshold = weighted((r) => resolveResultsRubric(r).hiredThreshold);
+  const stopped = held.findIndex(({ round, results: r }) => !clearsRound(round, r));
+  const complete = stopped === -1 && results.length === loop.rounds.length;
+
+  return {
+    eloRating,
+    tier: deriveTierFromRating(eloRating),
+    verdict: complete && eloRating >= hiredThreshold ? "HIRED" : "NOT HIRED",
+    hiredThreshold,
+    stoppedAt: stopped === -1 ? null : stopped,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Registry of interviewer personas.
+ *
+ * A persona defines everything that makes the interviewer who they are:
+ * name, avatar, voice, agent prompt, the voice of the scoring prompt, tier
+ * labels, landing copy and the demo script. To add a persona, define it in
+ * its own module and register it here -- the picker, the call screen, the
+ * agent session, scoring and the results page all follow automatically.
+ *
+ * Ratings, tiers and the HIRED threshold do not depend on the persona:
+ * they come from the rubric and the difficulty, so a 1500 means the same
+ * performance whoever conducted the interview.
+ */
+
+import type { PersonaDefinition } from "../types";
+import { CARRINGTON_PERSONA } from "./carrington";
+import { ENGINEERING_MANAGER_PERSONA } from "./engineering-manager";
+import { PANEL_CHAIR_PERSONA } from "./panel-chair";
+import { SKEPTICAL_VC_PERSONA } from "./skeptical-vc";
+
+/** All registered personas, keyed by ID, in picker order */
+export const PERSONAS: Record<string, PersonaDefinition> = {
+  [CARRINGTON_PERSONA.id]: CARRINGTON_PERSONA,
+  [ENGINEERING_MANAGER_PERSONA.id]: ENGINEERING_MANAGER_PERSONA,
+  [SKEPTICAL_VC_PERSONA.id]: SKEPTICAL_VC_PERSONA,
+  [PANEL_CHAIR_PERSONA.id]: PANEL_CHAIR_PERSONA,
+};
+
+/** The persona interviews had before personas were selectable */
+export const DEFAULT_PERSONA = CARRINGTON_PERSONA;
+
+/** Returns the persona with the given ID, or null if none is registered */
+export function getPersona(id: string): PersonaDefinition | null {
+  return Object.hasOwn(PERSONAS, id) ? PERSONAS[id] : null;
+}
+
+/**
+ * Returns the persona with the given ID, falling back to the default
+ * persona for missing or unknown IDs. For display code that must always
+ * render.
+ */
+export function resolvePersona(id: string | null | undefined): PersonaDefinition {
+  return (id ? getPersona(id) : null) ?? DEFAULT_PERSONA;
+}
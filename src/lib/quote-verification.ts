@@ -0,0 +1,207 @@
+/**
+ * Verification of moment annotation quotes against the interview transcript.
+ *
+ * The scoring prompt requires every MomentAnnotation question and quote to
+ * be verbatim, but models paraphrase, stitch sentences together, and
+ * occasionally invent answers outright. Each moment is fuzzy-matched
+ * against the transcript:
+ * - a close match keeps the quote and attaches its transcript position
+ * - a partial match is repaired to the closest real span of the transcript
+ * - anything below the repair threshold is treated as hallucinated and dropped
+ */
+
+import type { MomentAnnotation, TranscriptEntry } from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Similarity at or above which a quote is accepted unchanged */
+const VERBATIM_THRESHOLD = 0.9;
+
+/** Similarity at or above which a quote is repaired rather than dropped */
+const REPAIR_THRESHOLD = 0.6;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface Word {
+  /** The word as it appears in the transcript */
+  original: string;
+  /** Lowercased alphanumeric form used for matching */
+  token: string;
+}
+
+interface SpanMatch {
+  /** Index of the matched transcript entry */
+  entryIndex: number;
+  /** Similarity between the quote and the span (0-1) */
+  score: number;
+  /** The matched span, reconstructed from the transcript's own words */
+  text: string;
+}
+
+/** Outcome counts, useful for logging how much the model drifted */
+export interface QuoteVerificationSummary {
+  verified: number;
+  repaired: number;
+  dropped: number;
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/** Strips ElevenLabs voice annotations like [slow] and splits into words */
+function toWords(text: string): Word[] {
+  return text
+    .replace(/\[[\w\s]+\]\s*/g, "")
+    .split(/\s+/)
+    .map((original) => ({
+      original,
+      token: original.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ""),
+    }))
+    .filter((w) => w.token.length > 0);
+}
+
+/**
+ * Token-overlap similarity between the quote and a window of transcript
+ * words: shared tokens divided by the longer of the two lengths, so both
+ * missing and extra words reduce the score.
+ */
+function overlapScore(quoteTokens: string[], windowTokens: string[]): number {
+  const counts = new Map<string, number>();
+  for (const t of windowTokens) counts.set(t, (counts.get(t) ?? 0) + 1);
+
+  let shared = 0;
+  for (const t of quoteTokens) {
+    const remaining = counts.get(t) ?? 0;
+    if (remaining > 0) {
+      shared++;
+      counts.set(t, remaining - 1);
+    }
+  }
+  return shared / Math.max(quoteTokens.length, windowTokens.length);
+}
+
+/**
+ * Finds the span of the given entries that best matches `text`.
+ * Windows the same length as the quote slide across each entry; entries
+ * shorter than the quote are compared whole.
+ */
+function findBestSpan(
+  text: string,
+  entries: TranscriptEntry[],
+  indices: number[],
+): SpanMatch | null {
+  const quoteTokens = toWords(text).map((w) => w.token);
+  if (quoteTokens.length === 0) return null;
+
+  let best: SpanMatch | null = null;
+
+  for (const entryIndex of indices) {
+    const words = toWords(entries[entryIndex].message ?? "");
+    if (words.length === 0) continue;
+
+    const size = Math.min(quoteTokens.length, words.length);
+    for (let start = 0; start + size <= words.length; start++) {
+      const window = words.slice(start, start + size);
+      const score = overlapScore(quoteTokens, window.map((w) => w.token));
+      if (!best || score > best.score) {
+        best = {
+          entryIndex,
+          score,
+          text: window.map((w) => w.original).join(" "),
+        };
+      }
+      if (score === 1) return best;
+    }
+  }
+
+  return best;
+}
+
+/** Returns the last question sentence of an agent message, or the whole message */
+function lastQuestionOf(message: string): string {
+  const cleaned = message.replace(/\[[\w\s]+\]\s*/g, "").trim();
+  const questions = cleaned.match(/[^.!?]*\?/g);
+  return questions ? questions[questions.length - 1].trim() : cleaned;
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+/**
+ * Verifies a single moment against the transcript. Returns the moment with
+ * `transcriptIndex` (and `timestamp`, when the transcript carries timing)
+ * attached, its quote and question repaired if needed -- or null when the
+ * quote cannot be found in anything the candidate said.
+ */
+export function verifyMoment(
+  moment: MomentAnnotation,
+  entries: TranscriptEntry[],
+): { moment: MomentAnnotation; repaired: boolean } | null {
+  const candidateIndices = entries
+    .map((e, i) => (e.role === "agent" ? -1 : i))
+    .filter((i) => i >= 0);
+
+  const quoteMatch = findBestSpan(moment.quote, entries, candidateIndices);
+  if (!quoteMatch || quoteMatch.score < REPAIR_THRESHOLD) return null;
+
+  let repaired = quoteMatch.score < VERBATIM_THRESHOLD;
+  const quote = repaired ? quoteMatch.text : moment.quote;
+
+  // The question must come from the interviewer turn that prompted the answer
+  let question = moment.question;
+  let promptIndex = -1;
+  for (let i = quoteMatch.entryIndex - 1; i >= 0; i--) {
+    if (entries[i].role === "agent" && entries[i].message) {
+      promptIndex = i;
+      break;
+    }
+  }
+
+  if (promptIndex >= 0) {
+    const questionMatch = findBestSpan(moment.question, entries, [promptIndex]);
+    if (!questionMatch || questionMatch.score < REPAIR_THRESHOLD) {
+      question = lastQuestionOf(entries[promptIndex].message);
+      repaired = true;
+    } else if (questionMatch.score < VERBATIM_THRESHOLD) {
+      question = questionMatch.text;
+      repaired = true;
+    }
+  }
+
+  const timestamp = entries[quoteMatch.entryIndex].timestamp;
+
+  return {
+    moment: {
+      ...moment,
+      question,
+      quote,
+      transcriptIndex: quoteMatch.entryIndex,
+      ...(timestamp !== undefined ? { timestamp } : {}),
+    },
+    repaired,
+  };
+}
+
+/**
+ * Verifies every moment against the transcript, dropping hallucinated ones.
+ * Returns the surviving moments in their original order with a summary of
+ * what was kept, repaired, and dropped.
+ */
+export function verifyMoments(
+  moments: MomentAnnotation[],
+  entries: TranscriptEntry[],
+): { moments: MomentAnnotation[]; summary: QuoteVerificationSummary } {
+  const summary: QuoteVerificationSummary = { verified: 0, repaired: 0, dropped: 0 };
+  const verified: MomentAnnotation[] = [];
+
+  for (const moment of moments) {
+    const outcome = verifyMoment(moment, entries);
+    if (!outcome) {
+      summary.dropped++;
+      continue;
+    }
+    if (outcome.repaired) summary.repaired++;
+    else summary.verified++;
+    verified.push(outcome.moment);
+  }
+
+  return { moments: verified, summary };
+}
@@ -0,0 +1,249 @@
+/**
+ * The default rubric: R.J. Carrington III's general-purpose assessment of
+ * articulation, substance, evidence, composure and curiosity. Dimension
+ * keys are identical to interview-elo; only the labels are boss-themed.
+ */
+
+import { ELO_TIERS, HIRED_THRESHOLD } from "../constants";
+import type { RubricDefinition } from "../types";
+
+export const DEFAULT_RUBRIC: RubricDefinition = {
+  id: "default",
+  name: "General",
+  dimensions: [
+    {
+      key: "communication",
+      label: "Articulation",
+      measures:
+        "clarity of expression, structure of responses, articulation, conciseness, ability to get to the point without wasting my time.",
+      weight: 1,
+      heuristicSignal: "structure",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Rambling, incoherent, excessive filler words. I've had more productive conversations with my voicemail.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Understandable but poorly structured. Occasionally loses the thread. Relies on vague language that says nothing.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Clear and reasonably structured. Gets to the point within an acceptable timeframe. Addresses questions directly.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Excellent structure, concise yet thorough. Adapts communication style. Uses frameworks like STAR naturally. This is what competent communication looks like.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Masterful communicator -- every response is perfectly structured, compelling, and precisely calibrated. I've given this score exactly twelve times in thirty years.",
+        },
+      ],
+    },
+    {
+      key: "technical",
+      label: "Substance",
+      measures:
+        "domain expertise, technical depth, accuracy of claims, ability to discuss specifics rather than generalities.",
+      weight: 1,
+      heuristicSignal: "specificity",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Fundamental misunderstandings. Factually incorrect claims. The kind of answers that make me question whether they've actually worked in this field.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Surface-level knowledge. Correct on basics but cannot go deeper when pressed. Avoids technical detail because they don't have any.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Solid foundation. Correct and reasonably detailed. Demonstrates actual hands-on experience rather than textbook knowledge.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Deep expertise. Identifies edge cases unprompted. Discusses trade-offs with nuance. Gives specific examples from real projects with real numbers.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Exceptional depth and breadth -- teaches me something new. I do not say that lightly.",
+        },
+      ],
+    },
+    {
+      key: "behavioural",
+      label: "Evidence",
+      measures:
+        "quality of examples from experience, use of structured responses, self-awareness, ability to prove claims with evidence.",
+      weight: 1,
+      heuristicSignal: "evidence",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            'No concrete examples. Everything is hypothetical. "I would..." is not evidence. "I did..." is evidence.',
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            'Vague examples without specifics. "We improved performance." How much? When? What was your role? Don\'t waste my time with generalities.',
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Good examples with reasonable detail. Some structure. Shows awareness of strengths and weaknesses -- even if that awareness is uncomfortable.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Excellent structured responses with specific metrics and outcomes. Demonstrates growth from failures. Honest about what went wrong and why.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Compelling narratives that perfectly illustrate competencies. Every example is precisely relevant. Exceptional self-awareness. Rare.",
+        },
+      ],
+    },
+    {
+      key: "confidence",
+      label: "Composure",
+      measures:
+        "composure under pressure, pacing, conviction, professional demeanour, ability to handle my questioning without falling apart.",
+      weight: 1,
+      heuristicSignal: "composure",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Crumbled under basic questioning. Long silences. Contradictions. Excessive apologies. If you can't handle my questions, how will you handle actual pressure?",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Noticeable nervousness but generally maintains composure. Uneven pacing. Occasionally sounds uncertain.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Composed and professional. Good pacing. Speaks with reasonable conviction. Handles unexpected questions adequately.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Confident without being arrogant. Excellent pacing. Handles curveballs gracefully. Maintains energy throughout. Doesn't flinch.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Commanding presence. Calm, authoritative, engages me as an equal. Turns difficult questions into opportunities. I respect that -- grudgingly.",
+        },
+      ],
+    },
+    {
+      key: "questionsAsked",
+      label: "Curiosity",
+      measures:
+        "quality, relevance, and insight of questions the candidate asked me. This dimension evaluates whether they did their homework.",
+      weight: 1,
+      heuristicSignal: "curiosity",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            'No questions asked, or questions that reveal zero preparation. "What does the company do?" -- are you serious?',
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            'Generic questions that could apply to any role at any company. "What\'s the team culture like?" I\'ve heard that question forty thousand times.',
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Relevant questions showing genuine interest. Demonstrates understanding of the domain and has clearly thought about the role.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Insightful questions revealing deep thinking -- asks about strategic decisions, challenges, trade-offs. This tells me they're serious.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Exceptional questions that demonstrate strategic thinking and would impress even me. Probes assumptions, identifies opportunities I hadn't considered. Twelve times. In thirty years.",
+        },
+      ],
+    },
+  ],
+  tiers: ELO_TIERS,
+  hiredThreshold: HIRED_THRESHOLD,
+  benchmarks: [
+    {
+      heading: "Noteworthy performance (1400-1700, Noteworthy tier)",
+      description:
+        "You gave clear, relevant, well-structured answers. You showed strong knowledge and asked insightful questions. I've seen worse -- considerably worse. Example: a senior professional who uses structured responses naturally, gives specific project examples with metrics, and asks about strategic decisions. This is what I expect as a baseline from anyone who calls themselves senior.",
+    },
+    {
+      heading: "Adequate performance (1000-1399, Adequate tier)",
+      description:
+        'You gave reasonable answers with some good moments. Several responses could have gone deeper. You showed awareness of the right topics even when detail was thin. Example: a mid-level candidate who gives correct answers but sometimes says "we did X" without clarifying their contribution. Adequate. Not impressive. Not terrible.',
+    },
+    {
+      heading: "Shows a Pulse performance (600-999, Shows a Pulse tier)",
+      description:
+        "You made an effort. I'll give you that. But several answers lacked depth or specifics. Knowledge stayed at surface level. You relied on general statements rather than evidence. Example: a candidate who gives broadly correct but vague answers, struggles to provide examples when pressed. You have potential. Deeply buried potential.",
+    },
+    {
+      heading: "Wasting My Time (100-599, Wasting My Time tier)",
+      description:
+        'You found it difficult to engage with basic questions. Answers were brief or off-topic. Limited awareness of your own field. I\'m not sure why you\'re here, and frankly, neither are you. Example: a candidate who responds with "I\'ve heard of that but haven\'t used it" and cannot provide a single concrete example.',
+    },
+    {
+      heading: "Impressive to Hired Material (1800-2200+, Impressive to Hired Material)",
+      description:
+        "You delivered perfectly structured responses, demonstrated deep expertise with specific examples, identified edge cases unprompted, and asked probing questions that demonstrated genuine strategic thinking. This is what a 10 looks like -- and I've given exactly twelve of them in thirty years. Example: a senior leader who unpacks complex questions with trade-off analysis, references specific outcomes they drove, and asks about challenges I hadn't expected them to identify.",
+    },
+    {
+      heading: "Minimal engagement (100-400, Wasting My Time with isPartial: true)",
+      description:
+        "One-word answers. Ended the interview after two minutes. No engagement. I've had more stimulating conversations with a dial tone.",
+    },
+  ],
+};
@@ -0,0 +1,70 @@
+/**
+ * Registry of scoring rubrics.
+ *
+ * A rubric defines everything that varies between kinds of interview:
+ * dimension keys, labels and band descriptors, dimension weights, the tier
+ * table and the HIRED threshold. To add a rubric, define it in its own
+ * module and register it here -- the scoring prompt, validator, tool
+ * schema, heuristic scorer and results page all follow automatically.
+ *
+ * Interviews scored against a job description use the registered rubric
+ * with the role fit dimension appended (see role-fit.ts).
+ */
+
+import type {
+  RubricDefinition,
+  RubricDimension,
+  ScoringDimension,
+  ScoringResults,
+} from "../types";
+import { withDifficulty } from "../difficulty";
+import { DEFAULT_RUBRIC } from "./default";
+import { ROLE_FIT_KEY, withRoleFit } from "./role-fit";
+import { STAFF_ENGINEER_RUBRIC } from "./staff-engineer";
+
+/** All registered rubrics, keyed by ID */
+export const RUBRICS: Record<string, RubricDefinition> = {
+  [DEFAULT_RUBRIC.id]: DEFAULT_RUBRIC,
+  [STAFF_ENGINEER_RUBRIC.id]: STAFF_ENGINEER_RUBRIC,
+};
+
+export { DEFAULT_RUBRIC, ROLE_FIT_KEY, withRoleFit };
+
+/** Returns the rubric with the given ID, or null if none is registered */
+export function getRubric(id: string): RubricDefinition | null {
+  return Object.hasOwn(RUBRICS, id) ? RUBRICS[id] : null;
+}
+
+/**
+ * Returns the rubric with the given ID, falling back to the default rubric
+ * for missing or unknown IDs. For display code that must always render.
+ */
+export function resolveRubric(id: string | null | undefined): RubricDefinition {
+  return (id ? getRubric(id) : null) ?? DEFAULT_RUBRIC;
+}
+
+/**
+ * Returns the rubric a set of results was scored against, including the
+ * role fit dimension when the results contain one and the HIRED threshold
+ * of their difficulty
+ */
+export function resolveResultsRubric(
+  results: Pick<ScoringResults, "rubric" | "dimensions" | "difficulty">,
+): RubricDefinition {
+  const rubric = resolveRubric(results.rubric);
+  const scored = results.dimensions.some((d) => d.name === ROLE_FIT_KEY) ? withRoleFit(rubric) : rubric;
+  return results.difficulty ? withDifficulty(scored, results.difficulty) : scored;
+}
+
+/** Returns a rubric's definition of a dimension, or undefined if it has none */
+export function findDimension(
+  rubric: RubricDefinition,
+  key: ScoringDimension,
+): RubricDimension | undefined {
+  return rubric.dimensions.find((d) => d.key === key);
+}
+
+/** Display label for a dimension key, falling back to the key itself */
+export function getDimensionLabel(rubric: RubricDefinition, key: ScoringDimension): string {
+  return findDimension(rubric, key)?.label ?? key;
+}
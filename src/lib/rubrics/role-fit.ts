@@ -0,0 +1,61 @@
+/**
+ * Role fit dimension, added to whichever rubric is in use when the
+ * candidate practises against a job description. It measures the evidence
+ * in the interview against the posting's requirements, so it only exists
+ * when there is a posting to measure against.
+ */
+
+import type { RubricDefinition, RubricDimension } from "../types";
+
+/** Dimension key of the role fit dimension */
+export const ROLE_FIT_KEY = "roleFit";
+
+export const ROLE_FIT_DIMENSION: RubricDimension = {
+  key: ROLE_FIT_KEY,
+  label: "Role Fit",
+  measures:
+    "how well the experience the candidate demonstrated in this interview matches the requirements of the job description. Claims on the CV that were never demonstrated do not count.",
+  weight: 1,
+  heuristicSignal: "relevance",
+  bands: [
+    {
+      min: 1,
+      max: 3,
+      descriptor:
+        "Applied for a different job from the one in front of me. Nothing they said touched the requirements of this role.",
+    },
+    {
+      min: 4,
+      max: 5,
+      descriptor:
+        "Covers some of the requirements in passing. The essential ones were either missing or asserted without a single example.",
+    },
+    {
+      min: 6,
+      max: 7,
+      descriptor:
+        "Demonstrated most of the essential requirements with real examples. The gaps are learnable, if not ideal.",
+    },
+    {
+      min: 8,
+      max: 9,
+      descriptor:
+        "Demonstrated every essential requirement with evidence and connected their experience to what this role will actually face.",
+    },
+    {
+      min: 10,
+      max: 10,
+      descriptor:
+        "Could have written the job description. Better than whoever did.",
+    },
+  ],
+};
+
+/**
+ * Returns the rubric with the role fit dimension appended. Rubrics that
+ * already define the dimension are returned unchanged.
+ */
+export function withRoleFit(rubric: RubricDefinition): RubricDefinition {
+  if (rubric.dimensions.some((d) => d.key === ROLE_FIT_KEY)) return rubric;
+  return { ...rubric, dimensions: [...rubric.dimensions, ROLE_FIT_DIMENSION] };
+}
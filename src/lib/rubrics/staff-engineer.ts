@@ -0,0 +1,289 @@
+/**
+ * Staff engineer rubric. Weighted towards system design, technical
+ * judgement and leverage across teams, with the tier table shifted up by
+ * 200 points: what passes for Noteworthy in a general interview is merely
+ * Adequate at staff level, and the HIRED bar sits at 2400.
+ */
+
+import type { RubricDefinition } from "../types";
+
+export const STAFF_ENGINEER_RUBRIC: RubricDefinition = {
+  id: "staff-engineer",
+  name: "Staff Engineer",
+  focus:
+    "You are assessing a candidate for a staff engineer role. Staff engineers are hired to set technical direction across teams, make decisions that hold up for years, and make every engineer around them more effective. Competent delivery of their own work is assumed -- it earns nothing here. Judge every answer against what a staff engineer should be able to do, not what a senior engineer usually does.",
+  dimensions: [
+    {
+      key: "systemDesign",
+      label: "Architecture",
+      measures:
+        "ability to design systems at scale, reason about failure modes, capacity and cost, and explain why the design is shaped the way it is.",
+      weight: 1.5,
+      heuristicSignal: "specificity",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Boxes and arrows with nothing behind them. Cannot say what breaks first, what it costs, or why this design rather than another.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "A workable design for the happy path. Failure modes and scaling limits only come up when I drag them out.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Sound designs with the obvious failure modes covered and real numbers attached. Senior-level work. Not yet staff.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Designs that anticipate growth, failure and migration. Names the constraints that actually matter and defends the trade-offs with evidence from systems they have run.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Reframes the problem before solving it and arrives at a design simpler than the one I had in mind. Twelve times in thirty years.",
+        },
+      ],
+    },
+    {
+      key: "technicalJudgement",
+      label: "Judgement",
+      measures:
+        "decision-making under ambiguity, weighing trade-offs, knowing when not to build, and owning the consequences of past technical decisions.",
+      weight: 1.5,
+      heuristicSignal: "composure",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Follows fashion, not reasoning. Every decision was someone else's, and none of them were wrong.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Can list trade-offs when asked but cannot say which one mattered or why they chose as they did.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Makes reasonable calls and explains them. Admits a past decision that went wrong, if pressed.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Decides deliberately under real ambiguity, says what would change their mind, and volunteers the decisions they got wrong and what those cost.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "The kind of judgement I would trust with the company's architecture without supervision. I do not say that lightly. I have barely said it at all.",
+        },
+      ],
+    },
+    {
+      key: "leverage",
+      label: "Leverage",
+      measures:
+        "impact beyond their own output: setting direction across teams, growing other engineers, driving alignment without authority, and outcomes that outlived their involvement.",
+      weight: 1.25,
+      heuristicSignal: "evidence",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Every example is their own ticket queue. A very productive individual. That is not the job.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            'Claims influence in the abstract. "I helped align the teams." Which teams? On what? What changed because of you?',
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Real examples of leading work across a team or two, with an outcome attached. The role is clear, the scope is modest.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Set direction across several teams, grew engineers who now lead, and can show outcomes that lasted after they moved on.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Changed how an entire engineering organisation works, and can prove it. Rare enough that I checked the references twice.",
+        },
+      ],
+    },
+    {
+      key: "communication",
+      label: "Articulation",
+      measures:
+        "explaining complex technical ideas clearly to both engineers and executives, structuring answers, and getting to the point.",
+      weight: 1,
+      heuristicSignal: "structure",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "Lost in the weeds. I asked for the decision and got the implementation history of every service involved.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Clear enough with engineers, incomprehensible to anyone else. Staff engineers have to persuade people who do not read code.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Clear, structured answers pitched at the right level most of the time.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Moves between the executive summary and the technical detail without losing me in either. This is what a staff engineer sounds like.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Could explain the architecture to my board and to my principal engineers in the same meeting, and both would leave satisfied.",
+        },
+      ],
+    },
+    {
+      key: "questionsAsked",
+      label: "Curiosity",
+      measures:
+        "the questions the candidate asked me about the organisation's technical strategy, constraints and hardest problems.",
+      weight: 0.75,
+      heuristicSignal: "curiosity",
+      bands: [
+        {
+          min: 1,
+          max: 3,
+          descriptor:
+            "No questions, or questions about perks. A staff engineer who is not curious about the hardest problem in the building is not a staff engineer.",
+        },
+        {
+          min: 4,
+          max: 5,
+          descriptor:
+            "Questions about the stack and the team size. Reasonable for a senior hire. Not for this one.",
+        },
+        {
+          min: 6,
+          max: 7,
+          descriptor:
+            "Asks about the technical roadmap and where the organisation is struggling.",
+        },
+        {
+          min: 8,
+          max: 9,
+          descriptor:
+            "Probes the technical strategy, the constraints behind it and where it is likely wrong. Already thinking like someone who will own it.",
+        },
+        {
+          min: 10,
+          max: 10,
+          descriptor:
+            "Asked the question I have been avoiding for a year. Twelve times. In thirty years.",
+        },
+      ],
+    },
+  ],
+  tiers: [
+    {
+      name: "Wasting My Time",
+      min: 100,
+      max: 799,
+      colour: "var(--color-error)",
+      description: "You applied for the wrong job. Possibly the wrong profession.",
+    },
+    {
+      name: "Shows a Pulse",
+      min: 800,
+      max: 1199,
+      colour: "var(--color-warning-strong)",
+      description: "A capable engineer. Not a staff one.",
+    },
+    {
+      name: "Adequate",
+      min: 1200,
+      max: 1599,
+      colour: "var(--color-warning)",
+      description: "A strong senior engineer. Come back when your work outlives your involvement.",
+    },
+    {
+      name: "Noteworthy",
+      min: 1600,
+      max: 1999,
+      colour: "var(--color-success)",
+      description: "Staff-level in places. Inconsistently.",
+    },
+    {
+      name: "Impressive",
+      min: 2000,
+      max: 2399,
+      colour: "var(--color-accent)",
+      description: "You operate at staff level. I still have doubts about the scope.",
+    },
+    {
+      name: "Hired Material",
+      min: 2400,
+      max: 3000,
+      colour: "var(--color-elite)",
+      description: "I would put you in charge of something that matters. Don't make me regret it.",
+    },
+  ],
+  hiredThreshold: 2400,
+  benchmarks: [
+    {
+      heading: "Adequate performance (1200-1599, Adequate tier)",
+      description:
+        "A strong senior engineer. Good designs for well-defined problems, real examples of leading a project within one team. Leverage beyond their own team is claimed rather than demonstrated. Example: a candidate who led a service migration well but cannot describe how it changed anything outside their team.",
+    },
+    {
+      heading: "Noteworthy performance (1600-1999, Noteworthy tier)",
+      description:
+        "Designs hold up under pressure and the trade-offs are owned. At least one convincing example of cross-team direction with a lasting outcome. Judgement is sound but untested under real ambiguity. Example: a candidate who drove a shared platform decision across three teams and can say what they would do differently.",
+    },
+    {
+      heading: "Impressive to Hired Material (2000-2400+, Impressive to Hired Material)",
+      description:
+        "Reframes problems before designing, makes and defends decisions under genuine ambiguity, and has changed how an organisation builds software. Example: a candidate who set a multi-year technical direction, can name the decisions that went wrong, and asks about the strategic bet I am least sure of.",
+    },
+    {
+      heading: "Shows a Pulse performance (800-1199, Shows a Pulse tier)",
+      description:
+        "A competent engineer describing their own output. Designs stop at the happy path. Example: a candidate whose every example is a feature they built, however well.",
+    },
+    {
+      heading: "Wasting My Time (100-799, Wasting My Time tier)",
+      description:
+        "Cannot discuss design beyond the component they worked on and has no examples of influencing anyone. I'm not sure why you're here, and frankly, neither are you.",
+    },
+  ],
+};
@@ -0,0 +1,426 @@
+/**
+ * Scoring providers for the score-interview route.
+ *
+ * A provider turns the scoring prompt and interview material into raw
+ * response text. It does not parse or validate anything -- every provider's
+ * output passes through the route's validateScoringResponse, which stays
+ * the single contract for what a ScoringResults object looks like.
+ *
+ * Model-backed providers force a call to the scoring tool and return the
+ * tool input as JSON text. When the route rejects a response, it scores
+ * again with the rejected response and the validator's message appended
+ * as a repair turn, so the model can correct its own output.
+ *
+ * The active provider is resolved from environment variables:
+ * - SCORING_PROVIDER: "anthropic" (default), "openai-compatible" or "heuristic"
+ * - SCORING_MODEL: model identifier (optional for Anthropic, required for
+ *   OpenAI-compatible endpoints)
+ * - ANTHROPIC_API_KEY: required by the Anthropic provider
+ * - OPENAI_COMPATIBLE_BASE_URL: base URL of the endpoint, e.g.
+ *   http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+ * - OPENAI_COMPATIBLE_API_KEY: bearer token (optional for local servers)
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+
+import { scoreHeuristically } from "./heuristic-scorer";
+import type { ScoringTool } from "./scoring-schema";
+import type {
+  InterviewDifficulty,
+  InterviewTermination,
+  RubricDefinition,
+  SpeechMetrics,
+} from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Identifiers for the supported scoring backends */
+export type ScoringProviderName = "anthropic" | "openai-compatible" | "heuristic";
+
+/** A rejected response and the validation error it was rejected with */
+export interface ScoringRepair {
+  /** The response text the route could not accept */
+  response: string;
+  /** The validator's message describing what was wrong */
+  error: string;
+}
+
+/** Everything a provider needs to produce a scoring response */
+export interface ScoringRequest {
+  /** System prompt defining the rubric and output format */
+  system: string;
+  /** Version of the scoring prompt `system` was built from, stamped onto the results */
+  promptVersion: string;
+  /** Rendered user message containing the CV, job description and transcript */
+  userMessage: string;
+  /** Tool the model must call to submit its assessment */
+  tool: ScoringTool;
+  /** Earlier rejected attempts, oldest first (empty on the first attempt) */
+  repairs?: ScoringRepair[];
+  /** The raw interview transcript (used by providers that do not call a model) */
+  transcript: string;
+  /** The raw CV text, or null when no CV was uploaded */
+  cvText: string | null;
+  /** The raw job description text, or null when none was provided */
+  jdText: string | null;
+  /** Rubric the interview is scored against (used by providers that do not call a model) */
+  rubric: RubricDefinition;
+  /** Speech metrics rendered into `userMessage`, returned with the results */
+  speechMetrics: SpeechMetrics;
+  /**
+   * Conversations the server fetched the transcript from, in call order
+   * (several when the call was resumed after dropping), or empty when the
+   * client sent it
+   */
+  conversationIds: string[];
+  /** Whether the transcript is from the scripted demo interview */
+  demo: boolean;
+  /** How the interview ended, when known */
+  termination: InterviewTermination | null;
+  /** Difficulty the interview was held at; `rubric` already carries its HIRED threshold */
+  difficulty: InterviewDifficulty;
+  /** ID of the persona whose voice `system` is written in */
+  persona: string;
+}
+
+/** A backend capable of scoring an interview transcript */
+export interface ScoringProvider {
+  /** Provider identifier */
+  readonly name: ScoringProviderName;
+  /** Model identifier the provider sends requests to */
+  readonly model: string;
+  /** Returns the complete response text */
+  complete(request: ScoringRequest): Promise<string>;
+  /** Yields response text deltas as they are generated */
+  stream(request: ScoringRequest): AsyncIterable<string>;
+}
+
+/** Result of resolving the provider from configuration */
+export type ProviderResolution =
+  | { ok: true; provider: ScoringProvider }
+  | { ok: false; error: string };
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Default Claude model used for scoring */
+export const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5-20250929";
+
+/** Maximum tokens requested from model-backed providers */
+const MAX_OUTPUT_TOKENS = 8192;
+
+/** Chunk size (characters) used when the heuristic provider simulates streaming */
+const HEURISTIC_STREAM_CHUNK_SIZE = 64;
+
+// ─── Repair Turns ────────────────────────────────────────────────────────────
+
+/** Tool call ID used for the rejected attempt at the given position */
+function repairCallId(index: number): string {
+  return `repair_${index + 1}`;
+}
+
+/** Instruction sent back to the model with a validator message */
+function repairInstruction(tool: ScoringTool, error: string): string {
+  return `Your assessment was rejected: ${error}\n\nCall ${tool.name} again with the corrected assessment. Fix the problem described above and keep everything else as it was.`;
+}
+
+/** Parses a rejected response back into the tool input it came from, if possible */
+function parseToolInput(response: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(response);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Anthropic ───────────────────────────────────────────────────────────────
+
+/** Creates a provider backed by the Anthropic Messages API */
+export function createAnthropicProvider(options: {
+  apiKey: string;
+  model?: string;
+}): ScoringProvider {
+  const model = options.model ?? DEFAULT_ANTHROPIC_MODEL;
+  // Client instantiated per provider, and providers are resolved per request
+  const client = new Anthropic({ apiKey: options.apiKey });
+
+  function buildParams({ system, userMessage, tool, repairs = [] }: ScoringRequest) {
+    const messages: Anthropic.MessageParam[] = [{ role: "user", content: userMessage }];
+
+    // Rejected tool calls are replayed with the validator message as an error result
+    repairs.forEach((repair, index) => {
+      const input = parseToolInput(repair.response);
+      if (input) {
+        const id = repairCallId(index);
+        messages.push(
+          { role: "assistant", content: [{ type: "tool_use", id, name: tool.name, input }] },
+          {
+            role: "user",
+            content: [
+              {
+                type: "tool_result",
+                tool_use_id: id,
+                is_error: true,
+                content: repairInstruction(tool, repair.error),
+              },
+            ],
+          },
+        );
+      } else {
+        messages.push(
+          { role: "assistant", content: repair.response || "(empty response)" },
+          { role: "user", content: repairInstruction(tool, repair.error) },
+        );
+      }
+    });
+
+    return {
+      model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system,
+      messages,
+      tools: [
+        {
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: "tool" as const, name: tool.name },
+    };
+  }
+
+  return {
+    name: "anthropic",
+    model,
+
+    async complete(request) {
+      const message = await client.messages.create(buildParams(request));
+
+      const toolUse = message.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === "tool_use",
+      );
+      if (toolUse) return JSON.stringify(toolUse.input);
+
+      // Fall back to text output for models that answer without the tool
+      return message.content
+        .filter((block): block is Anthropic.TextBlock => block.type === "text")
+        .map((block) => block.text)
+        .join("");
+    },
+
+    async *stream(request) {
+      const events = await client.messages.create({ ...buildParams(request), stream: true });
+
+      for await (const event of events) {
+        if (event.type !== "content_block_delta") continue;
+        if (event.delta.type === "input_json_delta") {
+          yield event.delta.partial_json;
+        } else if (event.delta.type === "text_delta") {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+}
+
+// ─── OpenAI-Compatible ───────────────────────────────────────────────────────
+
+/**
+ * Creates a provider for any endpoint implementing the OpenAI chat
+ * completions API -- hosted services as well as local llama.cpp, Ollama,
+ * or vLLM servers.
+ */
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): ScoringProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+
+  function buildBody({ system, userMessage, tool, repairs = [] }: ScoringRequest, stream: boolean) {
+    const messages: Record<string, unknown>[] = [
+      { role: "system", content: system },
+      { role: "user", content: userMessage },
+    ];
+
+    // Rejected tool calls are replayed with the validator message as the tool result
+    repairs.forEach((repair, index) => {
+      const id = repairCallId(index);
+      messages.push(
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id, type: "function", function: { name: tool.name, arguments: repair.response } },
+          ],
+        },
+        { role: "tool", tool_call_id: id, content: repairInstruction(tool, repair.error) },
+      );
+    });
+
+    return JSON.stringify({
+      model: options.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      stream,
+      messages,
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema,
+          },
+        },
+      ],
+      tool_choice: { type: "function", function: { name: tool.name } },
+    });
+  }
+
+  return {
+    name: "openai-compatible",
+    model: options.model,
+
+    async complete(request) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: buildBody(request, false),
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI-compatible endpoint returned status ${res.status}`);
+      }
+
+      const data = await res.json();
+      const message = data?.choices?.[0]?.message;
+      const args = message?.tool_calls?.[0]?.function?.arguments;
+      if (typeof args === "string") return args;
+
+      // Servers without tool support answer in plain content
+      return typeof message?.content === "string" ? message.content : "";
+    },
+
+    async *stream(request) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: buildBody(request, true),
+      });
+      if (!res.ok || !res.body) {
+        throw new Error(`OpenAI-compatible endpoint returned status ${res.status}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+
+          try {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta;
+            const text = delta?.tool_calls?.[0]?.function?.arguments ?? delta?.content;
+            if (typeof text === "string" && text.length > 0) {
+              yield text;
+            }
+          } catch {
+            // Ignore malformed chunks -- the final validation catches truncated output
+          }
+        }
+      }
+    },
+  };
+}
+
+// ─── Heuristic ───────────────────────────────────────────────────────────────
+
+/**
+ * Creates a deterministic provider that scores transcripts with simple
+ * text heuristics and no network access. Intended for offline development
+ * and tests -- the same transcript always produces the same rating. Its
+ * output is always valid, so it ignores the tool and repair turns.
+ */
+export function createHeuristicProvider(): ScoringProvider {
+  return {
+    name: "heuristic",
+    model: "heuristic-v1",
+
+    async complete({ transcript, cvText, rubric, jdText }) {
+      return JSON.stringify(scoreHeuristically(transcript, cvText, rubric, jdText));
+    },
+
+    async *stream({ transcript, cvText, rubric, jdText }) {
+      const text = JSON.stringify(scoreHeuristically(transcript, cvText, rubric, jdText), null, 2);
+      for (let i = 0; i < text.length; i += HEURISTIC_STREAM_CHUNK_SIZE) {
+        yield text.slice(i, i + HEURISTIC_STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+/**
+ * Resolves the scoring provider from environment configuration.
+ * Returns an error description (without secrets) when the selected
+ * provider is missing required settings.
+ */
+export function resolveScoringProvider(
+  env: Record<string, string | undefined> = process.env,
+): ProviderResolution {
+  const name = env.SCORING_PROVIDER?.trim() || "anthropic";
+  const model = env.SCORING_MODEL?.trim() || undefined;
+
+  switch (name) {
+    case "anthropic": {
+      const apiKey = env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return { ok: false, error: "ANTHROPIC_API_KEY is not configured" };
+      }
+      return { ok: true, provider: createAnthropicProvider({ apiKey, model }) };
+    }
+
+    case "openai-compatible": {
+      const baseUrl = env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+      if (!baseUrl) {
+        return { ok: false, error: "OPENAI_COMPATIBLE_BASE_URL is not configured" };
+      }
+      if (!model) {
+        return { ok: false, error: "SCORING_MODEL is required for the openai-compatible provider" };
+      }
+      return {
+        ok: true,
+        provider: createOpenAICompatibleProvider({
+          baseUrl,
+          model,
+          apiKey: env.OPENAI_COMPATIBLE_API_KEY || undefined,
+        }),
+      };
+    }
+
+    case "heuristic":
+      return { ok: true, provider: createHeuristicProvider() };
+
+    default:
+      return { ok: false, error: `Unknown SCORING_PROVIDER "${name}"` };
+  }
+}
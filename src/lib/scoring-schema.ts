@@ -0,0 +1,155 @@
+/**
+ * JSON schema for the scoring tool.
+ *
+ * Model-backed providers are forced to return their assessment as the input
+ * of a single tool call, so the output is structured by the API rather than
+ * scraped out of free text. The schema is built from the ScoringResults
+ * types: every property map below is typed against the interface it
+ * describes, so adding or renaming a field without updating the schema is
+ * a compile error, and the enums come from the same records the UI uses.
+ *
+ * The schema narrows what the model produces; it does not replace the
+ * route's validateScoringResponse, which still runs on every response.
+ * Dimension keys and tier names depend on the rubric, so the tool is built
+ * per rubric.
+ */
+
+import { MOMENT_LABELS } from "./types";
+import type {
+  Dimension,
+  MomentAnnotation,
+  RubricDefinition,
+  ScoringProvenance,
+  ScoringResults,
+} from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** The subset of JSON Schema used by the scoring tool */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/** A tool definition in provider-neutral form */
+export interface ScoringTool {
+  /** Tool name the model is forced to call */
+  name: string;
+  /** What the tool is for, shown to the model */
+  description: string;
+  /** JSON schema of the tool input */
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+/** Moment fields the model writes -- the rest are added by quote verification */
+type ModelMomentAnnotation = Omit<MomentAnnotation, "transcriptIndex" | "timestamp">;
+
+/**
+ * Result fields the model writes -- the rating interval comes from consensus
+ * mode, and the rubric ID, speech metrics and provenance stamps from the route
+ */
+type ModelScoringResults = Omit<
+  ScoringResults,
+  "ratingInterval" | "rubric" | "speechMetrics" | keyof ScoringProvenance
+>;
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Name of the scoring tool, referenced by the scoring prompt */
+export const SCORING_TOOL_NAME = "submit_assessment";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Builds an object schema whose property map must cover every key of `T`.
+ * All properties are required except those listed in `optional`.
+ */
+function objectSchema<T>(
+  properties: Record<keyof T & string, JsonSchema>,
+  optional: (keyof T & string)[] = [],
+): JsonSchema & { type: "object" } {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties).filter(
+      (key) => !optional.includes(key as keyof T & string),
+    ),
+    additionalProperties: false,
+  };
+}
+
+// ─── Schema ──────────────────────────────────────────────────────────────────
+
+const MOMENT_SCHEMA = objectSchema<ModelMomentAnnotation>({
+  type: { type: "string", enum: Object.keys(MOMENT_LABELS) },
+  question: {
+    type: "string",
+    description: "The interviewer's question, quoted verbatim from the transcript",
+  },
+  quote: {
+    type: "string",
+    description: "The candidate's answer, quoted verbatim from the transcript",
+  },
+  explanation: {
+    type: "string",
+    description: "2-3 sentences in the boss's voice explaining the classification",
+  },
+});
+
+/** Builds the tool every model-backed provider must call to submit its assessment */
+export function buildScoringTool(rubric: RubricDefinition): ScoringTool {
+  const dimensionKeys = rubric.dimensions.map((d) => d.key);
+
+  const dimensionSchema = objectSchema<Dimension>({
+    name: { type: "string", enum: dimensionKeys },
+    score: { type: "number", minimum: 1, maximum: 10 },
+    feedback: {
+      type: "string",
+      description: "Feedback in the boss's voice: what happened, what should have happened, and why it matters",
+    },
+  });
+
+  const inputSchema = objectSchema<ModelScoringResults>(
+    {
+      eloRating: { type: "integer", minimum: 100, maximum: 3000 },
+      tier: { type: "string", enum: rubric.tiers.map((t) => t.name) },
+      verdict: { type: "string", enum: ["HIRED", "NOT HIRED"] },
+      bossSummary: {
+        type: "string",
+        description: "2-3 sentences in the boss's voice summarising the overall performance",
+      },
+      dimensions: {
+        type: "array",
+        items: dimensionSchema,
+        minItems: dimensionKeys.length,
+        maxItems: dimensionKeys.length,
+      },
+      moments: { type: "array", items: MOMENT_SCHEMA },
+      isPartial: {
+        type: "boolean",
+        description: "True if the interview was too short for a full assessment",
+      },
+      note: {
+        type: "string",
+        description: "Optional note in the boss's voice, e.g. why the assessment is partial",
+      },
+    },
+    ["note"],
+  );
+
+  return {
+    name: SCORING_TOOL_NAME,
+    description:
+      "Submit the complete interview assessment. Call this exactly once with every field filled in.",
+    inputSchema,
+  };
+}
@@ -0,0 +1,117 @@
+import type {
+  PartialScoringResults,
+  ScoringResults,
+  ScoringStreamEvent,
+} from "./types";
+
+/**
+ * Parses a single server-sent event frame ("event: x\ndata: {...}").
+ * Returns null for frames without a JSON data line (e.g. keep-alive comments).
+ */
+function parseEventFrame(frame: string): ScoringStreamEvent | null {
+  let event: string | null = null;
+  let data = "";
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data += line.slice(5).trim();
+    }
+  }
+
+  if (!event || !data) return null;
+
+  try {
+    return { event, data: JSON.parse(data) } as ScoringStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scores an interview through the streaming score-interview route.
+ *
+ * `onPartial` is called with a fresh PartialScoringResults snapshot every time
+ * the server emits the boss summary, a dimension, or a moment. Resolves with
+ * the final validated ScoringResults, or throws with the server's error
+ * message if scoring fails.
+ */
+export async function streamInterviewScore(
+  body: Record<string, unknown>,
+  onPartial: (partial: PartialScoringResults) => void
+): Promise<ScoringResults> {
+  let res: Response;
+
+  try {
+    res = await fetch("/api/score-interview", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify({ ...body, stream: true }),
+    });
+  } catch {
+    throw new Error(
+      "Network error — please check your connection and try again."
+    );
+  }
+
+  // Validation and configuration errors are returned as JSON before streaming starts
+  if (!res.ok || !res.body) {
+    const errorBody = await res.json().catch(() => ({}));
+    throw new Error(errorBody.error || `Scoring failed (${res.status})`);
+  }
+
+  const partial: PartialScoringResults = {
+    bossSummary: null,
+    dimensions: [],
+    moments: [],
+  };
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const parsed = parseEventFrame(frame);
+      if (!parsed) continue;
+
+      switch (parsed.event) {
+        case "summary":
+          partial.bossSummary = parsed.data.bossSummary;
+          break;
+        case "dimension":
+          partial.dimensions = [...partial.dimensions, parsed.data];
+          break;
+        case "moment":
+          partial.moments = [...partial.moments, parsed.data];
+          break;
+        case "result":
+          await reader.cancel();
+          return parsed.data;
+        case "error":
+          await reader.cancel();
+          throw new Error(parsed.data.error);
+      }
+
+      onPartial({ ...partial });
+    }
+  }
+
+  throw new Error(
+    "The scoring stream ended unexpectedly. Please try again."
+  );
+}
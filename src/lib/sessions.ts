@@ -0,0 +1,182 @@
+/**
+ * Interview sessions and conversation ownership.
+ *
+ * ElevenLabs conversation IDs are not secrets -- they appear in the
+ * browser, in logs and in share links -- so knowing one must not be enough
+ * to read its transcript or score it. Each browser gets a random session
+ * ID in a signed, HTTP-only cookie (POST /api/session), and claims every
+ * conversation it starts (POST /api/conversations). Routes that serve or
+ * score a conversation by ID only do so for the session that claimed it.
+ *
+ * A claim is only accepted for a conversation the session started itself:
+ * the browser passes the session's nonce (conversationNonce) to ElevenLabs
+ * as a dynamic variable, and the claim is checked against the nonce and
+ * start time ElevenLabs recorded for the conversation. The claim also
+ * holds how the conversation was set up (ConversationSetup), for verified
+ * scoring to use.
+ *
+ * Ownership is held in memory, like the routes' rate limiters: it does not
+ * survive a restart and is not shared between instances. Claims expire
+ * after CONVERSATION_CLAIM_TTL_MS.
+ *
+ * Server-only: signing uses Node's crypto module.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+import { DEFAULT_DIFFICULTY } from "./difficulty";
+import { DEFAULT_PERSONA } from "./personas";
+import type { ConversationSetup } from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Name of the cookie carrying the signed session ID */
+export const SESSION_COOKIE_NAME = "interview-session";
+
+/** Lifetime of the session cookie, in seconds */
+export const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24; // 1 day
+
+/** How long a claimed conversation stays bound to its session */
+const CONVERSATION_CLAIM_TTL_MS = SESSION_COOKIE_MAX_AGE * 1000;
+
+/** How recently a conversation must have started to be claimed */
+export const CONVERSATION_CLAIM_WINDOW_MS = 10 * 60 * 1000;
+
+/** Session IDs are UUIDs; signatures are hex-encoded HMAC-SHA256 digests */
+const SESSION_COOKIE_PATTERN = /^([0-9a-f-]{36})\.([a-f0-9]{64})$/;
+
+/**
+ * Fallback signing key when neither SESSION_SECRET nor SITE_PASSWORD is
+ * set. Sessions then end whenever the server restarts, which is acceptable
+ * for local development.
+ */
+const PROCESS_SECRET = randomBytes(32).toString("hex");
+
+// ─── Signing ─────────────────────────────────────────────────────────────────
+
+function signingKey(): string {
+  return process.env.SESSION_SECRET || process.env.SITE_PASSWORD || PROCESS_SECRET;
+}
+
+function sign(sessionId: string): string {
+  return createHmac("sha256", signingKey()).update(`session:${sessionId}`).digest("hex");
+}
+
+/** Creates a new session and returns its ID and the cookie value that carries it */
+export function createSession(): { sessionId: string; cookie: string } {
+  const sessionId = randomUUID();
+  return { sessionId, cookie: `${sessionId}.${sign(sessionId)}` };
+}
+
+/**
+ * The nonce that ties the session's conversations to it. It is derived
+ * from the session ID with the signing key, so only the server can work it
+ * out, and it reveals nothing about the session cookie.
+ */
+export function conversationNonce(sessionId: string): string {
+  return createHmac("sha256", signingKey()).update(`nonce:${sessionId}`).digest("hex");
+}
+
+/**
+ * Whether a conversation was started by the session: it carries the
+ * session's nonce and started within CONVERSATION_CLAIM_WINDOW_MS.
+ */
+export function startedBySession(
+  sessionId: string,
+  origin: { sessionNonce: string | null; startedAt: number | null },
+  now = Date.now(),
+): boolean {
+  if (!origin.sessionNonce || origin.startedAt === null) return false;
+  if (Math.abs(now - origin.startedAt) >= CONVERSATION_CLAIM_WINDOW_MS) return false;
+
+  const expected = Buffer.from(conversationNonce(sessionId));
+  const actual = Buffer.from(origin.sessionNonce);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns the session ID from a session cookie value, or null when the
+ * cookie is missing, malformed or was not signed with the current key.
+ */
+export function verifySessionCookie(value: string | undefined): string | null {
+  const match = value?.match(SESSION_COOKIE_PATTERN);
+  if (!match) return null;
+
+  const [, sessionId, signature] = match;
+  const expected = Buffer.from(sign(sessionId), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return timingSafeEqual(expected, actual) ? sessionId : null;
+}
+
+// ─── Conversation Ownership ──────────────────────────────────────────────────
+
+/** How a conversation is taken to be set up when ElevenLabs recorded nothing: the full boss */
+const DEFAULT_CONVERSATION_SETUP: ConversationSetup = {
+  difficulty: DEFAULT_DIFFICULTY,
+  persona: DEFAULT_PERSONA.id,
+};
+
+const conversationOwners = new Map<
+  string,
+  { sessionId: string; claimedAt: number; setup: ConversationSetup }
+>();
+let claimCallCount = 0;
+
+/** Drops expired claims */
+function pruneClaims(now: number): void {
+  for (const [conversationId, claim] of conversationOwners) {
+    if (now - claim.claimedAt >= CONVERSATION_CLAIM_TTL_MS) {
+      conversationOwners.delete(conversationId);
+    }
+  }
+}
+
+/** Returns the live claim on a conversation, if any */
+function currentClaim(conversationId: string, now: number) {
+  const claim = conversationOwners.get(conversationId);
+  if (!claim) return null;
+  if (now - claim.claimedAt >= CONVERSATION_CLAIM_TTL_MS) {
+    conversationOwners.delete(conversationId);
+    return null;
+  }
+  return claim;
+}
+
+/**
+ * Binds a conversation, and how it was set up, to a session. The first
+ * session to claim a conversation owns it; claiming it again from the same
+ * session is a no-op, and claims from any other session are refused.
+ */
+export function claimConversation(
+  conversationId: string,
+  sessionId: string,
+  setup: ConversationSetup = DEFAULT_CONVERSATION_SETUP,
+): "claimed" | "already-claimed" | "taken" {
+  const now = Date.now();
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  claimCallCount++;
+  if (claimCallCount % 100 === 0) pruneClaims(now);
+
+  const claim = currentClaim(conversationId, now);
+  if (claim) return claim.sessionId === sessionId ? "already-claimed" : "taken";
+
+  conversationOwners.set(conversationId, { sessionId, claimedAt: now, setup });
+  return "claimed";
+}
+
+/** Whether any session holds a live claim on the conversation */
+export function isConversationClaimed(conversationId: string): boolean {
+  return currentClaim(conversationId, Date.now()) !== null;
+}
+
+/** Whether the session claimed the conversation (and the claim has not expired) */
+export function ownsConversation(conversationId: string, sessionId: string | null): boolean {
+  if (!sessionId) return false;
+  return currentClaim(conversationId, Date.now())?.sessionId === sessionId;
+}
+
+/** How a claimed conversation was set up, or null when it is not claimed */
+export function claimedConversationSetup(conversationId: string): ConversationSetup | null {
+  return currentClaim(conversationId, Date.now())?.setup ?? null;
+}
@@ -0,0 +1,33 @@
+/**
+ * The site password gate. POST /api/auth sets the site-auth cookie to an
+ * HMAC of SITE_PASSWORD; the middleware checks it on every page and route,
+ * with Web Crypto because it runs on the Edge runtime. Routes that spend
+ * money on a caller's behalf check it again here, so they stay closed even
+ * if the middleware's matcher changes.
+ *
+ * Server-only: signing uses Node's crypto module.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** Name of the cookie carrying the site password token */
+export const SITE_AUTH_COOKIE_NAME = "site-auth";
+
+/** Compute HMAC-SHA256 of the site password using the session secret as key. */
+export function computeAuthToken(password: string): string {
+  const key = process.env.SESSION_SECRET ?? password;
+  return createHmac("sha256", key).update(password).digest("hex");
+}
+
+/**
+ * Whether a site-auth cookie value lets the caller in. Always true when no
+ * SITE_PASSWORD is configured.
+ */
+export function hasSiteAccess(cookie: string | undefined): boolean {
+  const sitePassword = process.env.SITE_PASSWORD;
+  if (!sitePassword) return true;
+  if (!cookie || !/^[a-f0-9]{64}$/.test(cookie)) return false;
+
+  const expected = Buffer.from(computeAuthToken(sitePassword), "hex");
+  return timingSafeEqual(expected, Buffer.from(cookie, "hex"));
+}
@@ -0,0 +1,204 @@
+/**
+ * Deterministic speech metrics computed from the transcript.
+ *
+ * The scoring model reads the words but cannot hear the call, so how the
+ * candidate spoke is measured here and handed to it as evidence:
+ * - answer count, average answer length and the longest monologue (words)
+ * - filler words, by word and per hundred words
+ * - talk-time ratio, speaking rate and response latency, from timestamps
+ *
+ * ElevenLabs records when each turn started, not when it ended, so a turn
+ * is taken to hold the floor until the next turn starts. Response latency
+ * subtracts an estimate of how long the interviewer took to ask the
+ * question. The timing measures are approximations, but the same
+ * transcript always produces the same numbers.
+ */
+
+import { median } from "./consensus";
+import type {
+  InterviewMode,
+  ResponseLatency,
+  RubricDefinition,
+  SpeechMetrics,
+  TranscriptEntry,
+} from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Interviewer speaking rate used to estimate when a question ended (150 wpm) */
+const AGENT_WORDS_PER_SECOND = 2.5;
+
+/** Filler words and phrases, keyed by the name they are reported under */
+const FILLER_PATTERNS: Record<string, RegExp> = {
+  um: /\bu+m+\b/gi,
+  uh: /\bu+h+\b/gi,
+  er: /\be+r+m*\b/gi,
+  "you know": /\byou know\b/gi,
+  "i mean": /\bi mean\b/gi,
+  "sort of": /\bsort of\b/gi,
+  "kind of": /\bkind of\b/gi,
+  basically: /\bbasically\b/gi,
+  literally: /\bliterally\b/gi,
+};
+
+/** Voice direction tags the agent's messages carry, e.g. "[curious]" */
+const VOICE_TAG_PATTERN = /\[[\w\s]+\]/g;
+
+/** Dimension signals the metrics are evidence for */
+const EVIDENCE_SIGNALS = new Set(["structure", "composure"]);
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function wordCount(text: string): number {
+  return text.replace(VOICE_TAG_PATTERN, " ").split(/\s+/).filter(Boolean).length;
+}
+
+/** Rounds to one decimal place */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Seconds from the start of turn `index` to the start of the next turn, when both are known */
+function turnSpan(entries: TranscriptEntry[], index: number): number | null {
+  const start = entries[index].timestamp;
+  const next = entries[index + 1]?.timestamp;
+  if (start === undefined || next === undefined || next <= start) return null;
+  return next - start;
+}
+
+/** Formats seconds as m:ss */
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+/** Computes the speech metrics for a transcript */
+export function computeSpeechMetrics(entries: TranscriptEntry[]): SpeechMetrics {
+  let answerCount = 0;
+  let answerWords = 0;
+  let longestMonologue: SpeechMetrics["longestMonologue"] = null;
+  const fillerCounts = new Map<string, number>();
+
+  let candidateSeconds = 0;
+  let candidateTimedWords = 0;
+  let totalSeconds = 0;
+  const responseLatencies: ResponseLatency[] = [];
+
+  entries.forEach((entry, index) => {
+    const words = wordCount(entry.message);
+    const span = turnSpan(entries, index);
+    if (span !== null) totalSeconds += span;
+    if (entry.role !== "user" || words === 0) return;
+
+    answerCount++;
+    answerWords += words;
+    if (!longestMonologue || words > longestMonologue.words) {
+      longestMonologue = { transcriptIndex: index, words, seconds: span };
+    }
+
+    for (const [filler, pattern] of Object.entries(FILLER_PATTERNS)) {
+      const count = entry.message.match(pattern)?.length ?? 0;
+      if (count > 0) fillerCounts.set(filler, (fillerCounts.get(filler) ?? 0) + count);
+    }
+
+    if (span !== null) {
+      candidateSeconds += span;
+      candidateTimedWords += words;
+    }
+
+    const question = entries[index - 1];
+    if (question?.role === "agent") {
+      const questionSpan = turnSpan(entries, index - 1);
+      if (questionSpan !== null) {
+        const askingSeconds = wordCount(question.message) / AGENT_WORDS_PER_SECOND;
+        responseLatencies.push({
+          transcriptIndex: index,
+          seconds: round1(Math.max(0, questionSpan - askingSeconds)),
+        });
+      }
+    }
+  });
+
+  const fillerTotal = [...fillerCounts.values()].reduce((sum, n) => sum + n, 0);
+
+  return {
+    answerCount,
+    averageAnswerWords: answerCount > 0 ? Math.round(answerWords / answerCount) : 0,
+    longestMonologue,
+    fillers: {
+      total: fillerTotal,
+      perHundredWords: answerWords > 0 ? round1((fillerTotal / answerWords) * 100) : 0,
+      counts: Object.fromEntries([...fillerCounts].sort((a, b) => b[1] - a[1])),
+    },
+    talkTimeRatio:
+      totalSeconds > 0 ? Math.round((candidateSeconds / totalSeconds) * 100) / 100 : null,
+    wordsPerMinute:
+      candidateSeconds > 0 ? Math.round(candidateTimedWords / (candidateSeconds / 60)) : null,
+    responseLatencies,
+    medianLatencySeconds:
+      responseLatencies.length > 0
+        ? round1(median(responseLatencies.map((l) => l.seconds)))
+        : null,
+  };
+}
+
+// ─── Prompt Rendering ────────────────────────────────────────────────────────
+
+/**
+ * Renders the metrics as a section of the scoring request's user message.
+ * The metrics are presented as evidence for the rubric's delivery
+ * dimensions (those scored by the structure and composure signals).
+ * Typed interviews are measured without their timestamps, which time
+ * typing rather than speech.
+ */
+export function formatSpeechMetrics(
+  metrics: SpeechMetrics,
+  rubric: RubricDefinition,
+  interviewMode: InterviewMode = "voice",
+): string {
+  const dimensions = rubric.dimensions
+    .filter((d) => d.heuristicSignal && EVIDENCE_SIGNALS.has(d.heuristicSignal))
+    .map((d) => d.label);
+  const target = dimensions.length > 0 ? dimensions.join(" and ") : "how the candidate spoke";
+
+  const lines = [
+    `These were measured from the transcript and the call's timestamps, not judged. Treat them as objective evidence for ${target}, alongside what was actually said. Timings are approximate.`,
+    `- Candidate answers: ${metrics.answerCount}, averaging ${metrics.averageAnswerWords} words`,
+  ];
+
+  if (metrics.longestMonologue) {
+    const { words, seconds } = metrics.longestMonologue;
+    lines.push(
+      `- Longest answer: ${words} words${seconds !== null ? ` over ${formatDuration(seconds)}` : ""}`,
+    );
+  }
+
+  const fillers = Object.entries(metrics.fillers.counts)
+    .map(([filler, count]) => `"${filler}" ${count}`)
+    .join(", ");
+  lines.push(
+    `- Filler words: ${metrics.fillers.total} (${metrics.fillers.perHundredWords} per 100 words)${fillers ? `: ${fillers}` : ""}`,
+  );
+
+  if (metrics.talkTimeRatio !== null) {
+    lines.push(`- Candidate talk time: ${Math.round(metrics.talkTimeRatio * 100)}% of the conversation`);
+  }
+  if (metrics.wordsPerMinute !== null) {
+    lines.push(`- Speaking rate: ${metrics.wordsPerMinute} words per minute`);
+  }
+  if (metrics.medianLatencySeconds !== null) {
+    const longest = Math.max(...metrics.responseLatencies.map((l) => l.seconds));
+    lines.push(
+      `- Pause before answering: median ${metrics.medianLatencySeconds}s, longest ${longest}s`,
+    );
+  }
+  if (interviewMode === "text") {
+    lines.push("- Timing measures are omitted: the answers were typed, so they would time typing, not speech");
+  } else if (metrics.talkTimeRatio === null) {
+    lines.push("- Timing measures are unavailable: the transcript has no timestamps");
+  }
+
+  return lines.join("\n");
+}
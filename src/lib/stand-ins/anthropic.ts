@@ -0,0 +1,182 @@
+/**
+ * Stand-in for the Anthropic Messages API, as called by the scoring route.
+ *
+ * Answers every scoring request with a call to the scoring tool holding the
+ * heuristic scorer's assessment of the transcript in the user message, so
+ * quotes are real and ratings track the transcript. STAND_IN_SCORING
+ * selects how the answer is (mis)behaved:
+ * - "valid" (default): a well-formed assessment
+ * - "self-heal": tier and verdict contradict the rating, for the route to fix
+ * - "repair": the first attempt is missing bossSummary; repair turns are valid
+ * - "invalid": every attempt is missing bossSummary, so scoring gives up
+ * - "overloaded": HTTP 529 on every request, exercising the SDK's retries
+ */
+
+import { scoreHeuristically } from "../heuristic-scorer";
+import { RUBRICS, ROLE_FIT_KEY, withRoleFit } from "../rubrics";
+import type { RubricDefinition } from "../types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Behaviours the stand-in can be switched between */
+export const STAND_IN_SCORING_MODES = [
+  "valid",
+  "self-heal",
+  "repair",
+  "invalid",
+  "overloaded",
+] as const;
+
+export type StandInScoringMode = (typeof STAND_IN_SCORING_MODES)[number];
+
+/** The parts of a Messages API request the stand-in reads */
+export interface MessagesRequest {
+  model?: string;
+  messages?: { role: string; content: unknown }[];
+  tools?: { name: string; input_schema?: Record<string, unknown> }[];
+  stream?: boolean;
+}
+
+/** A Messages API response body and its HTTP status */
+type StandInReply =
+  | { ok: true; message: Record<string, unknown> }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Returns the configured mode, or null when STAND_IN_SCORING is not a known mode */
+export function resolveStandInScoringMode(): StandInScoringMode | null {
+  const configured = process.env.STAND_IN_SCORING?.trim() || "valid";
+  return (STAND_IN_SCORING_MODES as readonly string[]).includes(configured)
+    ? (configured as StandInScoringMode)
+    : null;
+}
+
+function errorReply(status: number, type: string, message: string): StandInReply {
+  return { ok: false, status, body: { type: "error", error: { type, message } } };
+}
+
+/** Text of the `=== NAME ===` section of the user message, up to the next section */
+function section(userMessage: string, name: string): string | null {
+  const start = userMessage.indexOf(`=== ${name} ===\n`);
+  if (start === -1) return null;
+  const body = userMessage.slice(start + name.length + 9);
+  const end = body.search(/\n\n=== [A-Z ]+ ===\n|\n\nPlease analyse/);
+  return (end === -1 ? body : body.slice(0, end)).trim();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Follows a path of object keys into a JSON value, or returns undefined */
+function dig(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!isRecord(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/** Recovers the rubric from the dimension keys the scoring tool accepts */
+function rubricFromTool(inputSchema: Record<string, unknown> | undefined): RubricDefinition | null {
+  const keys = dig(inputSchema, ["properties", "dimensions", "items", "properties", "name", "enum"]);
+  if (!Array.isArray(keys)) return null;
+
+  const hasRoleFit = keys.includes(ROLE_FIT_KEY);
+  const baseKeys = keys.filter((key) => key !== ROLE_FIT_KEY).sort().join(",");
+  const base = Object.values(RUBRICS).find(
+    (rubric) => rubric.dimensions.map((d) => d.key).sort().join(",") === baseKeys,
+  );
+  if (!base) return null;
+  return hasRoleFit ? withRoleFit(base) : base;
+}
+
+// ─── Messages ────────────────────────────────────────────────────────────────
+
+/** The reply POST /v1/messages would give to a scoring request */
+export function standInMessage(request: MessagesRequest, mode: StandInScoringMode): StandInReply {
+  if (mode === "overloaded") {
+    return errorReply(529, "overloaded_error", "Overloaded (stand-in)");
+  }
+
+  const tool = request.tools?.[0];
+  const userMessage = request.messages?.[0]?.content;
+  const rubric = rubricFromTool(tool?.input_schema);
+  const transcript = typeof userMessage === "string" ? section(userMessage, "INTERVIEW TRANSCRIPT") : null;
+  if (!tool || !rubric || !transcript) {
+    return errorReply(
+      400,
+      "invalid_request_error",
+      "The stand-in only answers scoring requests from the score-interview route",
+    );
+  }
+
+  const jdText = section(userMessage as string, "JOB DESCRIPTION");
+  // Only what the model itself submits -- the route adds the rubric ID
+  const { rubric: _rubric, ...input } = scoreHeuristically(transcript, null, rubric, jdText);
+
+  const isRepair = (request.messages?.length ?? 0) > 1;
+  if (mode === "invalid" || (mode === "repair" && !isRepair)) {
+    delete (input as Partial<typeof input>).bossSummary;
+  } else if (mode === "self-heal") {
+    input.tier = rubric.tiers.find((t) => t.name !== input.tier)?.name ?? input.tier;
+    input.verdict = input.verdict === "HIRED" ? "NOT HIRED" : "HIRED";
+  }
+
+  return {
+    ok: true,
+    message: {
+      id: `msg_standin_${Date.now().toString(36)}`,
+      type: "message",
+      role: "assistant",
+      model: request.model ?? "stand-in",
+      content: [{ type: "tool_use", id: "toolu_standin", name: tool.name, input }],
+      stop_reason: "tool_use",
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  };
+}
+
+/**
+ * The server-sent events a streamed request for `message` would receive.
+ * The tool input is sent in small chunks, as a model would produce it.
+ */
+export function standInStreamEvents(
+  message: Record<string, unknown>,
+): { event: string; data: Record<string, unknown> }[] {
+  const [toolUse] = message.content as { type: string; id: string; name: string; input: unknown }[];
+  const json = JSON.stringify(toolUse.input);
+  const chunks = json.match(/[\s\S]{1,40}/g) ?? [];
+
+  return [
+    {
+      event: "message_start",
+      data: { type: "message_start", message: { ...message, content: [], stop_reason: null } },
+    },
+    {
+      event: "content_block_start",
+      data: {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "tool_use", id: toolUse.id, name: toolUse.name, input: {} },
+      },
+    },
+    ...chunks.map((partial_json) => ({
+      event: "content_block_delta",
+      data: { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json } },
+    })),
+    { event: "content_block_stop", data: { type: "content_block_stop", index: 0 } },
+    {
+      event: "message_delta",
+      data: {
+        type: "message_delta",
+        delta: { stop_reason: "tool_use", stop_sequence: null },
+        usage: { output_tokens: 0 },
+      },
+    },
+    { event: "message_stop", data: { type: "message_stop" } },
+  ];
+}
@@ -0,0 +1,104 @@
+/**
+ * Stand-in for the ElevenLabs conversations API.
+ *
+ * Every calibration corpus case is a conversation: "standin-<case id>",
+ * optionally followed by "_<anything>" to get a fresh conversation with
+ * its own processing delay. A conversation reports "processing" until
+ * STAND_IN_PROCESSING_MS (default 3000) after it was first requested, then
+ * "done" with the case's transcript. Turn timestamps are synthesised from
+ * word counts so the speech metrics have something to measure, and the
+ * metadata reports a call of that length that the candidate hung up.
+ */
+
+import adequateMidLevel from "../../../calibration/corpus/adequate-mid-level.json";
+import impressivePrincipal from "../../../calibration/corpus/impressive-principal.json";
+import noteworthySenior from "../../../calibration/corpus/noteworthy-senior.json";
+import showsAPulseVague from "../../../calibration/corpus/shows-a-pulse-vague.json";
+import staffRubricSeniorNotStaff from "../../../calibration/corpus/staff-rubric-senior-not-staff.json";
+import wastingMyTimeDisengaged from "../../../calibration/corpus/wasting-my-time-disengaged.json";
+import type { ElevenLabsConversationMetadata, ElevenLabsTranscriptTurn } from "../conversations";
+import type { TranscriptEntry } from "../types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Conversation IDs served by the stand-in start with this */
+export const STAND_IN_CONVERSATION_PREFIX = "standin-";
+
+const DEFAULT_PROCESSING_MS = 3000;
+
+/** Speaking rate used to space the synthesised timestamps (150 wpm) */
+const WORDS_PER_SECOND = 2.5;
+
+/** Silence between turns, in seconds */
+const TURN_GAP_SECONDS = 1.5;
+
+const FIXTURES: { id: string; transcript: TranscriptEntry[] }[] = [
+  adequateMidLevel,
+  impressivePrincipal,
+  noteworthySenior,
+  showsAPulseVague,
+  staffRubricSeniorNotStaff,
+  wastingMyTimeDisengaged,
+].map(({ id, transcript }) => ({ id, transcript: transcript as TranscriptEntry[] }));
+
+// ─── Conversations ───────────────────────────────────────────────────────────
+
+/** When each conversation was first requested, for the processing delay */
+const firstRequestedAt = new Map<string, number>();
+
+function processingMs(): number {
+  const configured = Number(process.env.STAND_IN_PROCESSING_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_PROCESSING_MS;
+}
+
+function findFixture(conversationId: string) {
+  if (!conversationId.startsWith(STAND_IN_CONVERSATION_PREFIX)) return null;
+  const caseId = conversationId.slice(STAND_IN_CONVERSATION_PREFIX.length).split("_")[0];
+  return FIXTURES.find((fixture) => fixture.id === caseId) ?? null;
+}
+
+/**
+ * Adds time_in_call_secs to each turn as if it were spoken at a steady
+ * pace, and returns the length of the call
+ */
+function withTimestamps(transcript: TranscriptEntry[]): {
+  turns: ElevenLabsTranscriptTurn[];
+  durationSeconds: number;
+} {
+  let seconds = 0;
+  const turns = transcript.map((entry) => {
+    const turn = { role: entry.role, message: entry.message, time_in_call_secs: Math.round(seconds) };
+    const words = entry.message.split(/\s+/).filter(Boolean).length;
+    seconds += words / WORDS_PER_SECOND + TURN_GAP_SECONDS;
+    return turn;
+  });
+  return { turns, durationSeconds: Math.round(seconds) };
+}
+
+/** IDs of the conversations the stand-in serves, one per corpus case */
+export function listStandInConversations(): string[] {
+  return FIXTURES.map((fixture) => `${STAND_IN_CONVERSATION_PREFIX}${fixture.id}`);
+}
+
+/**
+ * The body GET /v1/convai/conversations/{id} would return for a
+ * conversation, or null when there is no such conversation
+ */
+export function standInConversation(conversationId: string, now = Date.now()) {
+  const fixture = findFixture(conversationId);
+  if (!fixture) return null;
+
+  const requestedAt = firstRequestedAt.get(conversationId) ?? now;
+  firstRequestedAt.set(conversationId, requestedAt);
+
+  if (now - requestedAt < processingMs()) {
+    return { conversation_id: conversationId, status: "processing", transcript: [] };
+  }
+  const { turns, durationSeconds } = withTimestamps(fixture.transcript);
+  const metadata: ElevenLabsConversationMetadata = {
+    start_time_unix_secs: Math.floor(requestedAt / 1000),
+    call_duration_secs: durationSeconds,
+    termination_reason: "Client disconnected: 1000",
+  };
+  return { conversation_id: conversationId, status: "done", transcript: turns, metadata };
+}
@@ -0,0 +1,34 @@
+/**
+ * Local stand-ins for the ElevenLabs and Anthropic APIs.
+ *
+ * With STAND_INS=1 the app serves fake versions of the two APIs it calls
+ * server-side, so conversation fetching and scoring -- including the
+ * still-processing, self-healing, repair and retry paths -- run without
+ * keys or network access:
+ * - ELEVENLABS_API_BASE_URL=http://localhost:3000/api/stand-ins/elevenlabs
+ *   serves the calibration corpus as conversations (see elevenlabs.ts)
+ * - ANTHROPIC_BASE_URL=http://localhost:3000/api/stand-ins/anthropic
+ *   answers the Messages API with heuristic scores (see anthropic.ts)
+ *
+ * The stand-ins are never served in production. The browser's voice
+ * session still connects to ElevenLabs itself.
+ */
+
+export {
+  STAND_IN_CONVERSATION_PREFIX,
+  listStandInConversations,
+  standInConversation,
+} from "./elevenlabs";
+export {
+  STAND_IN_SCORING_MODES,
+  type MessagesRequest,
+  type StandInScoringMode,
+  resolveStandInScoringMode,
+  standInMessage,
+  standInStreamEvents,
+} from "./anthropic";
+
+/** Whether the stand-in routes are enabled */
+export function standInsEnabled(): boolean {
+  return process.env.STAND_INS === "1" && process.env.NODE_ENV !== "production";
+}
@@ -0,0 +1,47 @@
+/**
+ * Tier and verdict derivation from an ELO rating.
+ *
+ * Shared by the score-interview route's self-healing validation, the
+ * heuristic scorer and consensus scoring so every path maps a rating to
+ * the same tier and verdict. Each rubric brings its own tier table and
+ * HIRED threshold; both default to the default rubric's.
+ */
+
+import { ELO_TIERS, HIRED_THRESHOLD } from "./constants";
+import type { BossTier, EloTierDefinition } from "./types";
+
+/**
+ * Returns the tier definition containing an ELO rating, or undefined when
+ * the rating falls outside the table.
+ */
+export function findTier(
+  rating: number,
+  tiers: EloTierDefinition[] = ELO_TIERS,
+): EloTierDefinition | undefined {
+  return tiers.find((tier) => rating >= tier.min && rating <= tier.max);
+}
+
+/**
+ * Derives the correct tier from an ELO rating using a tier boundary table.
+ * If the rating does not fall within any defined tier, falls back to the
+ * lowest tier for ratings below the table or the highest tier for ratings
+ * above it.
+ */
+export function deriveTierFromRating(
+  rating: number,
+  tiers: EloTierDefinition[] = ELO_TIERS,
+): BossTier {
+  const tier = findTier(rating, tiers);
+  if (tier) return tier.name;
+  // Edge case fallbacks (should not occur with valid ratings)
+  if (rating < tiers[0].min) return tiers[0].name;
+  return tiers[tiers.length - 1].name;
+}
+
+/** Derives the HIRED/NOT HIRED verdict from an ELO rating */
+export function deriveVerdict(
+  rating: number,
+  hiredThreshold: number = HIRED_THRESHOLD,
+): "HIRED" | "NOT HIRED" {
+  return rating >= hiredThreshold ? "HIRED" : "NOT HIRED";
+}
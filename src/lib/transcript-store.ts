@@ -0,0 +1,109 @@
+/**
+ * Transcripts delivered by the ElevenLabs post-call webhook.
+ *
+ * ElevenLabs needs a few seconds to a minute after a call ends before the
+ * transcript is ready. Rather than have the browser poll for it, the
+ * webhook route stores each transcript here as soon as it lands, and
+ * requests waiting on that conversation are woken immediately. The
+ * conversation's metadata is kept alongside the transcript.
+ *
+ * Like conversation ownership, the store is held in memory: it does not
+ * survive a restart and is not shared between instances. Transcripts
+ * expire after TRANSCRIPT_TTL_MS. Server-only.
+ */
+
+import type { ConversationMetadata, TranscriptEntry } from "./types";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** How long a delivered transcript is kept */
+const TRANSCRIPT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+/** A delivered conversation: its transcript and what ElevenLabs recorded about it */
+interface StoredConversation {
+  transcript: TranscriptEntry[];
+  metadata: ConversationMetadata;
+}
+
+const transcripts = new Map<string, StoredConversation & { storedAt: number }>();
+const waiters = new Map<string, Set<(transcript: TranscriptEntry[]) => void>>();
+let storeCallCount = 0;
+
+/** Drops expired transcripts */
+function pruneTranscripts(now: number): void {
+  for (const [conversationId, stored] of transcripts) {
+    if (now - stored.storedAt >= TRANSCRIPT_TTL_MS) {
+      transcripts.delete(conversationId);
+    }
+  }
+}
+
+/** Stores a conversation's transcript and wakes every request waiting on it */
+export function storeTranscript(
+  conversationId: string,
+  transcript: TranscriptEntry[],
+  metadata: ConversationMetadata = { startedAt: null, durationSeconds: null, terminationReason: null },
+): void {
+  const now = Date.now();
+
+  // Periodic cleanup every 100 calls to prevent memory leaks
+  storeCallCount++;
+  if (storeCallCount % 100 === 0) pruneTranscripts(now);
+
+  transcripts.set(conversationId, { transcript, metadata, storedAt: now });
+
+  const pending = waiters.get(conversationId);
+  waiters.delete(conversationId);
+  pending?.forEach((resolve) => resolve(transcript));
+}
+
+/** Returns a stored conversation, or null when none has been delivered (or it expired) */
+export function getStoredConversation(conversationId: string): StoredConversation | null {
+  const stored = transcripts.get(conversationId);
+  if (!stored) return null;
+  if (Date.now() - stored.storedAt >= TRANSCRIPT_TTL_MS) {
+    transcripts.delete(conversationId);
+    return null;
+  }
+  return { transcript: stored.transcript, metadata: stored.metadata };
+}
+
+/** Returns a stored transcript, or null when none has been delivered (or it expired) */
+export function getStoredTranscript(conversationId: string): TranscriptEntry[] | null {
+  return getStoredConversation(conversationId)?.transcript ?? null;
+}
+
+/**
+ * Resolves with the conversation's transcript as soon as it is stored, or
+ * with null once `timeoutMs` passes or `signal` aborts. Resolves at once
+ * when the transcript is already here.
+ */
+export function waitForTranscript(
+  conversationId: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<TranscriptEntry[] | null> {
+  const stored = getStoredTranscript(conversationId);
+  if (stored) return Promise.resolve(stored);
+  if (signal?.aborted) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const finish = (transcript: TranscriptEntry[] | null) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      const pending = waiters.get(conversationId);
+      pending?.delete(finish);
+      if (pending?.size === 0) waiters.delete(conversationId);
+      resolve(transcript);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    signal?.addEventListener("abort", onAbort);
+
+    const pending = waiters.get(conversationId) ?? new Set();
+    pending.add(finish);
+    waiters.set(conversationId, pending);
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Conversions between TranscriptEntry[] and the flattened
+ * "Interviewer: ... / Candidate: ..." text format the scoring prompt uses,
+ * validation of structured transcripts received from clients, stitching of
+ * a call resumed after dropping, and clean-up of messages for display.
+ *
+ * Both directions keep exactly one turn per entry, so an index into the
+ * parsed text refers to the same exchange as the same index into the
+ * entries it was formatted from.
+ */
+
+import { MAX_TRANSCRIPT_ENTRIES, MAX_TRANSCRIPT_MESSAGE_LENGTH } from "./constants";
+import type { ConversationMetadata, TranscriptEntry } from "./types";
+
+/** Result of validating a structured transcript */
+export type TranscriptValidation =
+  | { ok: true; entries: TranscriptEntry[] }
+  | { ok: false; error: string };
+
+/** One ElevenLabs conversation of a call: its transcript and what was recorded about it */
+export interface ConversationSegment {
+  transcript: TranscriptEntry[];
+  metadata: ConversationMetadata;
+}
+
+/** Speaker labels used in the flattened transcript format */
+const SPEAKER_LABELS = {
+  agent: "Interviewer",
+  user: "Candidate",
+} as const;
+
+/** Flattens transcript entries into the scoring prompt's text format */
+export function formatTranscript(entries: TranscriptEntry[]): string {
+  return entries
+    .map(
+      (e) =>
+        `${e.role === "agent" ? SPEAKER_LABELS.agent : SPEAKER_LABELS.user}: ${e.message}`
+    )
+    .join("\n\n");
+}
+
+/** Strips ElevenLabs voice annotations like [direct], [slow], [lips smack] from text */
+export function stripVoiceTags(text: string): string {
+  return text.replace(/\[[\w\s]+\]\s*/g, "").trim();
+}
+
+/**
+ * Parses the flattened text format back into transcript entries.
+ * Empty turns are kept so indices stay aligned with the original entries.
+ * Timestamps are not part of the text format and are left undefined.
+ */
+export function parseTranscriptText(text: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+
+  for (const turn of text.split(/\n(?=(?:Interviewer|Candidate):)/)) {
+    const match = turn.match(/^(Interviewer|Candidate):[ \t]*([\s\S]*)$/);
+    if (!match) continue;
+
+    entries.push({
+      role: match[1] === SPEAKER_LABELS.agent ? "agent" : "user",
+      message: match[2].trim(),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Validates a structured transcript from a request body: an array of at
+ * most MAX_TRANSCRIPT_ENTRIES entries, each with an "agent" or "user" role
+ * and a string message of at most MAX_TRANSCRIPT_MESSAGE_LENGTH characters.
+ * Timestamps are optional, but those present must be non-negative and
+ * never go backwards. Returns clean copies of the entries, without any
+ * other fields the client sent.
+ */
+export function validateTranscriptEntries(value: unknown[]): TranscriptValidation {
+  if (value.length > MAX_TRANSCRIPT_ENTRIES) {
+    return { ok: false, error: `Transcript exceeds ${MAX_TRANSCRIPT_ENTRIES} entries` };
+  }
+
+  const entries: TranscriptEntry[] = [];
+  let lastTimestamp = 0;
+
+  for (const [i, raw] of value.entries()) {
+    if (typeof raw !== "object" || raw === null) {
+      return { ok: false, error: `Transcript entry ${i} is not an object` };
+    }
+    const { role, message, timestamp } = raw as Record<string, unknown>;
+
+    if (role !== "agent" && role !== "user") {
+      return { ok: false, error: `Transcript entry ${i} must have role "agent" or "user"` };
+    }
+    if (typeof message !== "string") {
+      return { ok: false, error: `Transcript entry ${i} must have a string message` };
+    }
+    if (message.length > MAX_TRANSCRIPT_MESSAGE_LENGTH) {
+      return { ok: false, error: `Transcript entry ${i} exceeds maximum message length` };
+    }
+
+    const entry: TranscriptEntry = { role, message };
+    if (timestamp !== undefined && timestamp !== null) {
+      if (typeof timestamp !== "number" || !Number.isFinite(timestamp) || timestamp < 0) {
+        return {
+          ok: false,
+          error: `Transcript entry ${i} timestamp must be seconds from the start of the call`,
+        };
+      }
+      if (timestamp < lastTimestamp) {
+        return {
+          ok: false,
+          error: `Transcript entry ${i} timestamp is earlier than the entry before it`,
+        };
+      }
+      lastTimestamp = timestamp;
+      entry.timestamp = timestamp;
+    }
+    entries.push(entry);
+  }
+
+  return { ok: true, entries };
+}
+
+/**
+ * Joins the conversations of a call that was resumed after dropping into
+ * one, in call order. Each conversation's timestamps start again at zero,
+ * so they are shifted by the length of the conversations before it: its
+ * recorded duration, or its last timestamp when that is unknown. The
+ * joined call starts when the first conversation did and ends the way the
+ * last one did; its duration is the sum, or null if any is unknown.
+ */
+export function stitchConversations(segments: ConversationSegment[]): ConversationSegment {
+  const transcript: TranscriptEntry[] = [];
+  let offset = 0;
+  let durationSeconds: number | null = 0;
+
+  for (const { transcript: entries, metadata } of segments) {
+    for (const entry of entries) {
+      transcript.push(
+        entry.timestamp === undefined ? entry : { ...entry, timestamp: entry.timestamp + offset },
+      );
+    }
+
+    const lastTimestamp = entries.findLast((e) => e.timestamp !== undefined)?.timestamp ?? 0;
+    offset += metadata.durationSeconds ?? lastTimestamp;
+    durationSeconds =
+      durationSeconds === null || metadata.durationSeconds === null
+        ? null
+        : durationSeconds + metadata.durationSeconds;
+  }
+
+  return {
+    transcript,
+    metadata: {
+      startedAt: segments[0]?.metadata.startedAt ?? null,
+      durationSeconds: segments.length > 0 ? durationSeconds : null,
+      terminationReason: segments.at(-1)?.metadata.terminationReason ?? null,
+    },
+  };
+}
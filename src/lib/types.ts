@@ -7,21 +7,24 @@
  * defined here.
  *
  * Adapted from interview-elo with the following changes:
- * - WizardStep: 5 steps (landing, upload-cv, interview, analysis, results)
+ * - WizardStep: 6 steps (landing, upload-cv, provide-jd, interview, analysis, results)
  * - BossTier: replaces EloTier with boss-themed tier names
- * - ScoringResults: adds verdict and bossSummary fields
- * - WizardState: removes JD-related fields (jdText, jdFileName, preProcessedJD)
- * - WizardActions: removes JD-related methods; reset destinations updated
- * - PreProcessedJD: removed entirely (no JD processing in this project)
+ * - ScoringResults: adds verdict and bossSummary fields, and the prompt
+ *   version, model and time that produced them
+ * - WizardState: the job description is optional (jdText, jdFileName);
+ *   preProcessedJD is removed -- the JD is condensed client-side instead
+ * - WizardActions: reset destinations updated
+ * - PreProcessedJD: removed entirely (see lib/job-description.ts)
  * - Display labels adapted to boss character voice
  */
 
 // ─── Union Types ───────────────────────────────────────────────────────────────
 
-/** The 5 wizard steps in order */
+/** The 6 wizard steps in order */
 export type WizardStep =
   | "landing"
   | "upload-cv"
+  | "provide-jd"
   | "interview"
   | "analysis"
   | "results";
@@ -38,13 +41,24 @@ export type BossTier =
   | "Impressive"
   | "Hired Material";
 
-/** The 5 scoring dimension keys */
-export type ScoringDimension =
-  | "communication"
-  | "technical"
-  | "behavioural"
-  | "confidence"
-  | "questionsAsked";
+/**
+ * A scoring dimension key. The set of valid keys is defined by the rubric
+ * an interview is scored against (the default rubric uses communication,
+ * technical, behavioural, confidence and questionsAsked).
+ */
+export type ScoringDimension = string;
+
+/**
+ * Transcript signals the offline heuristic scorer can measure. Each rubric
+ * dimension names the signal that best approximates it.
+ */
+export type HeuristicSignal =
+  | "structure"
+  | "specificity"
+  | "evidence"
+  | "composure"
+  | "curiosity"
+  | "relevance";
 
 /** The 6 chess-style moment annotation types */
 export type MomentAnnotationType =
@@ -58,6 +72,25 @@ export type MomentAnnotationType =
 /** Analysis pipeline phases (1-indexed) */
 export type AnalysisPhase = 1 | 2 | 3;
 
+/** How the candidate takes part in the interview: speaking, or typing in a chat */
+export type InterviewMode = "voice" | "text";
+
+/**
+ * Why an interview ended: the boss ended the call (end_call, after weak
+ * answers or prolonged silence), the candidate hung up, the time limit was
+ * reached, or the connection failed
+ */
+export type TerminationReason = "boss-ended" | "candidate-ended" | "time-limit" | "connection-lost";
+
+/**
+ * How hard the interviewer is: "warm-up" is patient and never ends the
+ * call early, "standard" is demanding, "carrington" is the full boss
+ */
+export type InterviewDifficulty = "warm-up" | "standard" | "carrington";
+
+/** Seniority of the role the candidate is interviewed for */
+export type Seniority = "junior" | "mid-level" | "senior" | "staff" | "executive";
+
 // ─── Interfaces ────────────────────────────────────────────────────────────────
 
 /**
@@ -65,7 +98,7 @@ export type AnalysisPhase = 1 | 2 | 3;
  * Feedback text is written in the boss's voice (ruthless, witty, in-character).
  */
 export interface Dimension {
-  /** One of the 5 scoring dimension keys */
+  /** One of the scoring rubric's dimension keys */
   name: ScoringDimension;
   /** Numeric score for this dimension (1–10) */
   score: number;
@@ -76,6 +109,8 @@ export interface Dimension {
 /**
  * A single chess-style moment annotation from the interview.
  * All text fields (explanation) are written in the boss's voice.
+ * The question and quote are verified against the transcript server-side,
+ * so they are always real spans of the conversation.
  */
 export interface MomentAnnotation {
   /** The annotation classification */
@@ -86,6 +121,67 @@ export interface MomentAnnotation {
   quote: string;
   /** Explanation of why this moment was classified as such (boss's voice) */
   explanation: string;
+  /** Index of the candidate's answer in the transcript (set by quote verification) */
+  transcriptIndex?: number;
+  /** Seconds from the start of the call of the quoted answer, when known */
+  timestamp?: number;
+}
+
+/**
+ * How a conversation was set up when it started, as ElevenLabs recorded
+ * it. Held with the conversation's claim, so verified scoring uses it
+ * rather than whatever the scoring request says.
+ */
+export interface ConversationSetup {
+  difficulty: InterviewDifficulty;
+  /** ID of the interviewer persona */
+  persona: string;
+}
+
+/** How and when an interview ended */
+export interface InterviewTermination {
+  reason: TerminationReason;
+  /** Length of the call in seconds */
+  durationSeconds: number;
+}
+
+/** What the interview step hands to the analysis pipeline when a call ends */
+export interface EndedInterview {
+  /** The call's conversations in order: one, plus one for each resumption after a drop */
+  conversationIds: string[];
+  interviewMode: InterviewMode;
+  /** Lines received during the call, the fallback when the server's transcript never arrives */
+  liveTranscript: TranscriptEntry[];
+  termination: InterviewTermination;
+}
+
+/**
+ * Parameters the voice agent's system prompt is rendered from (see
+ * lib/agent-prompt.ts). The rendered prompt replaces the agent's own for
+ * one session, so one agent serves every configuration.
+ */
+export interface AgentPromptConfig {
+  /** Role the candidate is interviewed for, or null to judge them for anything */
+  targetRole: string | null;
+  /** Seniority the candidate is held to, or null to judge from the CV */
+  seniority: Seniority | null;
+  /** What the interviewer should know about the hiring company, or null for his own */
+  companyContext: string | null;
+  difficulty: InterviewDifficulty;
+  /** Substantial questions the interviewer asks before wrapping up (3–10) */
+  questionCount: number;
+  /** Whether the interviewer invites the candidate's questions before closing */
+  inviteCandidateQuestions: boolean;
+}
+
+/** What ElevenLabs recorded about a conversation, each field null when it was not reported */
+export interface ConversationMetadata {
+  /** ISO 8601 time the call started */
+  startedAt: string | null;
+  /** Length of the call in seconds */
+  durationSeconds: number | null;
+  /** ElevenLabs' own description of why the call ended, e.g. "end_call tool was called." */
+  terminationReason: string | null;
 }
 
 /** A single transcript entry from ElevenLabs */
@@ -98,6 +194,63 @@ export interface TranscriptEntry {
   timestamp?: number;
 }
 
+/**
+ * Spread of the ELO rating across independent scoring samples.
+ * Only present when the interview was scored in consensus mode.
+ */
+export interface RatingInterval {
+  /** Lower bound of the interval (median minus margin, clamped to 100) */
+  low: number;
+  /** Upper bound of the interval (median plus margin, clamped to 3000) */
+  high: number;
+  /** Half-width of the interval, displayed as "± margin" */
+  margin: number;
+  /** Number of successful samples the consensus is based on */
+  samples: number;
+}
+
+/** The pause before one of the candidate's answers */
+export interface ResponseLatency {
+  /** Index of the candidate's answer in the transcript */
+  transcriptIndex: number;
+  /** Estimated seconds between the end of the question and the start of the answer */
+  seconds: number;
+}
+
+/**
+ * Objective measures of how the candidate spoke, computed by the route from
+ * the transcript (see lib/speech-metrics.ts). Timing measures need the
+ * per-turn timestamps and are null or empty without them.
+ */
+export interface SpeechMetrics {
+  /** Number of non-empty candidate answers */
+  answerCount: number;
+  /** Mean words per candidate answer */
+  averageAnswerWords: number;
+  /** The candidate's longest answer (null when they never spoke) */
+  longestMonologue: {
+    transcriptIndex: number;
+    words: number;
+    /** Seconds the answer held the floor, when known */
+    seconds: number | null;
+  } | null;
+  /** Filler words in the candidate's answers */
+  fillers: {
+    total: number;
+    perHundredWords: number;
+    /** Occurrences per filler, most frequent first */
+    counts: Record<string, number>;
+  };
+  /** Candidate's share (0–1) of the conversation's floor time */
+  talkTimeRatio: number | null;
+  /** Candidate's speaking rate */
+  wordsPerMinute: number | null;
+  /** Pause before each answer that directly followed a question */
+  responseLatencies: ResponseLatency[];
+  /** Median of the response latencies, in seconds */
+  medianLatencySeconds: number | null;
+}
+
 /**
  * Complete scoring results returned by the score-interview API route.
  * Compared to interview-elo: adds verdict and bossSummary fields,
@@ -112,7 +265,7 @@ export interface ScoringResults {
   verdict: "HIRED" | "NOT HIRED";
   /** 2–3 sentence summary in the boss's voice */
   bossSummary: string;
-  /** Array of exactly 5 dimension assessments */
+  /** One assessment per dimension of the rubric, in rubric order */
   dimensions: Dimension[];
   /** Array of 3+ moment annotations */
   moments: MomentAnnotation[];
@@ -120,11 +273,83 @@ export interface ScoringResults {
   isPartial: boolean;
   /** Optional note from the boss (e.g. short interview explanation, in character) */
   note?: string;
+  /** Rating spread across samples (consensus mode only) */
+  ratingInterval?: RatingInterval;
+  /** Speech metrics measured from the transcript and given to the model as evidence */
+  speechMetrics?: SpeechMetrics;
+  /** ID of the rubric the interview was scored against */
+  rubric: string;
+  /** Version of the scoring prompt that produced the assessment */
+  promptVersion: string;
+  /** Model that produced the assessment (heuristic-v1 for the offline scorer) */
+  model: string;
+  /** ISO 8601 time the assessment was completed */
+  scoredAt: string;
+  /**
+   * True when the server fetched the transcript from ElevenLabs itself, so
+   * the interview really happened; false when the client supplied it
+   */
+  verified: boolean;
+  /** ElevenLabs conversation the transcript was fetched from (verified results only) */
+  conversationId?: string;
+  /**
+   * Every conversation the transcript was stitched from, in call order,
+   * when the call was resumed after dropping; conversationId is the first
+   */
+  conversationIds?: string[];
+  /** Present when the interview was the scripted demo, scored offline by the heuristic scorer */
+  demo?: true;
+  /** How the interview ended, when known */
+  termination?: InterviewTermination;
+  /** Difficulty the interview was held at (absent on results from before it was selectable) */
+  difficulty?: InterviewDifficulty;
+  /** ID of the persona that held and scored the interview (absent on results from before personas) */
+  persona?: string;
 }
 
+/** Fields the route stamps onto ScoringResults to record how they were produced */
+export type ScoringProvenance = Pick<
+  ScoringResults,
+    | "promptVersion"
+  | "model"
+  | "scoredAt"
+  | "verified"
+  | "conversationId"
+  | "conversationIds"
+  | "demo"
+  | "termination"
+  | "difficulty"
+  | "persona"
+>;
+
+/**
+ * Scoring results accumulated from the streaming score-interview route
+ * before the final validated ScoringResults arrive. Each field fills in
+ * as soon as the server has validated that part of Claude's output.
+ */
+export interface PartialScoringResults {
+  /** Boss summary (null until streamed) */
+  bossSummary: string | null;
+  /** Dimensions validated so far, in the order they were streamed */
+  dimensions: Dimension[];
+  /** Moment annotations validated so far, in the order they were streamed */
+  moments: MomentAnnotation[];
+}
+
+/**
+ * Server-sent events emitted by the score-interview route in streaming mode.
+ * "result" and "error" are terminal -- exactly one of them ends every stream.
+ */
+export type ScoringStreamEvent =
+  | { event: "summary"; data: { bossSummary: string } }
+  | { event: "dimension"; data: Dimension }
+  | { event: "moment"; data: MomentAnnotation }
+  | { event: "result"; data: ScoringResults }
+  | { event: "error"; data: { error: string } };
+
 /**
  * Complete wizard state managed by useInterviewWizard.
- * Compared to interview-elo: removed jdText, jdFileName, preProcessedJD.
+ * Compared to interview-elo: removed preProcessedJD.
  * Initial step is "landing" instead of "upload-cv".
  */
 export interface WizardState {
@@ -134,12 +359,26 @@ export interface WizardState {
   cvText: string | null;
   /** Original CV file name (null if not uploaded or skipped) */
   cvFileName: string | null;
-  /** ElevenLabs conversation ID (null until interview starts) */
-  conversationId: string | null;
+  /** Extracted job description text (null if not uploaded or skipped) */
+  jdText: string | null;
+  /** Original job description file name (null if not uploaded or skipped) */
+  jdFileName: string | null;
+  /** ID of the interviewer persona the candidate picked */
+  personaId: string;
+  /** What the voice agent's prompt is rendered from for this interview */
+  agentPrompt: AgentPromptConfig;
+  /** Progress through an interview loop (null for a single interview) */
+  loop: LoopProgress | null;
+  /** ElevenLabs conversation IDs of the call, in order (empty until the interview ends) */
+  conversationIds: string[];
   /** Interview transcript entries (null until analysis completes) */
   transcript: TranscriptEntry[] | null;
+  /** How the interview ended, as seen by the browser (null until it ends) */
+  termination: InterviewTermination | null;
   /** Scoring results (null until analysis completes) */
   results: ScoringResults | null;
+  /** Scoring results streamed so far (null when not scoring) */
+  partialResults: PartialScoringResults | null;
   /** Current analysis pipeline phase (null when not in analysis) */
   analysisPhase: AnalysisPhase | null;
   /** Error message to display (null when no error) */
@@ -150,7 +389,7 @@ export interface WizardState {
 
 /**
  * Stable action functions returned by useInterviewWizard.
- * Compared to interview-elo: removed setJdText, setJdFileName, setPreProcessedJD.
+ * Compared to interview-elo: removed setPreProcessedJD.
  * resetForRetry goes to "interview" step (not "briefing").
  * resetFull goes to "landing" step (not "upload-cv").
  */
@@ -161,20 +400,44 @@ export interface WizardActions {
   setCvText: (text: string | null) => void;
   /** Set the original CV file name */
   setCvFileName: (name: string | null) => void;
-  /** Set the ElevenLabs conversation ID */
-  setConversationId: (id: string | null) => void;
+  /** Set the extracted job description text */
+  setJdText: (text: string | null) => void;
+  /** Set the original job description file name */
+  setJdFileName: (name: string | null) => void;
+  /** Set the interviewer persona */
+  setPersona: (id: string) => void;
+  /** Set how the interviewer is configured */
+  setAgentPrompt: (config: AgentPromptConfig) => void;
+  /** Start an interview loop at its first round, or leave loop mode with null */
+  startLoop: (loopId: string | null) => void;
+  /** Record the scoring results of the current loop round; a round already scored keeps its results */
+  recordLoopResults: (results: ScoringResults) => void;
+  /** Set the ElevenLabs conversation IDs */
+  setConversationIds: (ids: string[]) => void;
   /** Set the transcript entries */
   setTranscript: (entries: TranscriptEntry[] | null) => void;
+  /** Set how the interview ended */
+  setTermination: (termination: InterviewTermination | null) => void;
   /** Set the scoring results */
   setResults: (results: ScoringResults | null) => void;
+  /** Set the partially streamed scoring results */
+  setPartialResults: (partial: PartialScoringResults | null) => void;
   /** Set the current analysis phase */
   setAnalysisPhase: (phase: AnalysisPhase | null) => void;
   /** Set an error message */
   setError: (message: string | null) => void;
   /** Set the loading state */
   setLoading: (loading: boolean) => void;
-  /** Preserves CV; clears interview state; sets step to "interview" */
+  /**
+   * Preserves CV, job description, interviewer and loop; clears interview state; sets step to "interview".
+   * Retaking a loop round that was already scored leaves the loop for a single interview.
+   */
   resetForRetry: () => void;
+  /**
+   * Like resetForRetry, but moves on to the next loop round and its
+   * interviewer. A no-op unless the current round is scored and cleared its gate.
+   */
+  advanceLoop: () => void;
   /** Returns to initial state (step "landing", everything empty) */
   resetFull: () => void;
 }
@@ -192,6 +455,212 @@ export interface EloTierDefinition {
   max: number;
   /** CSS colour value for this tier (uses CSS custom properties) */
   colour: string;
+  /** The boss's one-line verdict on this tier, used in the scoring prompt */
+  description: string;
+}
+
+/** Descriptor for a range of scores on a single rubric dimension */
+export interface RubricBand {
+  /** Lowest score in the band (inclusive, 1-10) */
+  min: number;
+  /** Highest score in the band (inclusive, 1-10) */
+  max: number;
+  /** What a performance in this band looks like, in the boss's voice */
+  descriptor: string;
+}
+
+/** A single dimension of a scoring rubric */
+export interface RubricDimension {
+  /** Key the model uses for this dimension in its output */
+  key: ScoringDimension;
+  /** Boss-themed display label */
+  label: string;
+  /** What the dimension measures */
+  measures: string;
+  /** Band descriptors covering scores 1-10, lowest band first */
+  bands: RubricBand[];
+  /** Relative weight in the overall rating (1 is an ordinary dimension) */
+  weight: number;
+  /** Signal the heuristic scorer uses to approximate this dimension offline */
+  heuristicSignal: HeuristicSignal;
+}
+
+/** A calibration example anchoring part of the rating scale */
+export interface RubricBenchmark {
+  /** Short heading naming the performance level and its rating range */
+  heading: string;
+  /** What that performance looks like, in the boss's voice */
+  description: string;
+}
+
+/**
+ * A complete scoring rubric. The scoring prompt, the response validator,
+ * the scoring tool schema and the results page are all generated from it.
+ */
+export interface RubricDefinition {
+  /** Stable identifier sent in requests and stamped on results */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Who the rubric is for, inserted into the scoring prompt (optional) */
+  focus?: string;
+  /** Dimensions in the order they are prompted and displayed */
+  dimensions: RubricDimension[];
+  /** Tier table, lowest first, covering 100-3000 without gaps */
+  tiers: EloTierDefinition[];
+  /** Rating at or above which the verdict is "HIRED" */
+  hiredThreshold: number;
+  /** Calibration examples included in the scoring prompt */
+  benchmarks: RubricBenchmark[];
+}
+
+/** The interviewer's lines in a scripted demo interview, in the order they are said */
+export interface DemoScript {
+  /** Fixed first message, as the voice agent's first message */
+  opening: string;
+  /** One question per candidate answer, each with a reaction to the previous answer */
+  questions: string[];
+  /** Said after the last answer, before the call ends */
+  closing: string;
+}
+
+/** How a persona is drawn where there is no photo: initials on a coloured disc */
+export interface PersonaAvatar {
+  /** One or two letters */
+  initials: string;
+  /** CSS colour of the disc */
+  colour: string;
+}
+
+/** What the landing page says about a persona */
+export interface PersonaLandingCopy {
+  /** Role and organisation, under the name */
+  title: string;
+  /** One line of credentials */
+  credentials: string;
+  /** The challenge put to the visitor */
+  challenge: string;
+  /** What happens in the interview, in a sentence or two */
+  explainer: string;
+}
+
+/**
+ * The persona's voice in the scoring prompt. Every field is inserted into
+ * the prompt as written, so each reads in the first person.
+ */
+export interface PersonaScoringVoice {
+  /** Opening paragraph: who is assessing the candidate */
+  identity: string;
+  /** Body of the "Feedback Voice and Tone" section */
+  feedback: string;
+  /**
+   * Body of the "Scoring Philosophy" section. The rules must match every
+   * other persona's -- only the voice changes -- so ratings stay comparable
+   */
+  philosophy: string;
+  /** How annotation explanations should read, after "Be precise." */
+  annotationTone: string;
+  /** Example note for an interview too short to assess */
+  shortInterviewNote: string;
+  /** What a HIRED verdict means, after the threshold */
+  hired: string;
+  /** What a NOT HIRED verdict means, after the threshold */
+  notHired: string;
+  /** Example bossSummary lines for a low, mid and high score */
+  summaryExamples: [low: string, mid: string, high: string];
+  /** What the bossSummary must not be, after "in my voice." */
+  summaryRule: string;
+  /** The voice in a few words, closing the output rules */
+  voiceRule: string;
+}
+
+/**
+ * An interviewer the candidate can face. The agent prompt, the scoring
+ * voice and every name and label the candidate sees come from it.
+ */
+export interface PersonaDefinition {
+  /** Stable identifier sent in requests and stamped on results */
+  id: string;
+  /** Full name, as shown on the call screen and the results */
+  name: string;
+  /** Drawn on the landing page and the persona picker */
+  avatar: PersonaAvatar;
+  /** One line for the persona picker */
+  tagline: string;
+  /** Landing page copy */
+  landing: PersonaLandingCopy;
+  /** ElevenLabs voice to speak with, or null for the agent's own voice */
+  voiceId: string | null;
+  /** What the interviewer says on picking up */
+  firstMessage: string;
+  /** What the interviewer says on picking up a resumed call */
+  resumeMessage: string;
+  /** Renders the agent's system prompt for one session (see agent-prompt.ts) */
+  agentPrompt: (config: AgentPromptConfig) => string;
+  /** The persona's voice in the scoring prompt */
+  scoringVoice: PersonaScoringVoice;
+  /** Display name for each tier; results keep the canonical BossTier */
+  tierLabels: Record<BossTier, string>;
+  /** The scripted interview played in demo mode */
+  demoScript: DemoScript;
+}
+
+/** One round of an interview loop */
+export interface LoopRound {
+  /** Display name, e.g. "Screen" */
+  label: string;
+  /** ID of the persona that holds the round */
+  persona: string;
+  /** Difficulty the round is held at */
+  difficulty: InterviewDifficulty;
+  /** Rubric the round is scored against, or undefined for the configured rubric */
+  rubric?: string;
+  /** ELO rating the round must reach to progress to the next (null on the final round) */
+  progressRating: number | null;
+  /** Weight of the round's rating in the loop's combined rating */
+  weight: number;
+}
+
+/** A chain of interviews, each gated on the rating of the one before */
+export interface InterviewLoop {
+  /** Stable identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** One line for the loop picker */
+  description: string;
+  /** Rounds in the order they are held */
+  rounds: LoopRound[];
+}
+
+/** How far the candidate has got through an interview loop */
+export interface LoopProgress {
+  /** ID of the loop being run */
+  loopId: string;
+  /** Index of the current round */
+  round: number;
+  /** Scoring results of each round held so far, in round order */
+  results: ScoringResults[];
+}
+
+/** Where a round of a loop stands */
+export type LoopRoundStatus = "upcoming" | "current" | "passed" | "failed" | "complete";
+
+/**
+ * The final verdict of an interview loop, combined from every round's
+ * scoring results (see lib/loops.ts)
+ */
+export interface LoopOutcome {
+  /** Weighted mean of the rounds' ELO ratings */
+  eloRating: number;
+  /** Tier of the combined rating */
+  tier: BossTier;
+  /** HIRED requires every round held and a combined rating at the combined bar */
+  verdict: "HIRED" | "NOT HIRED";
+  /** Weighted mean of the rounds' own HIRED thresholds */
+  hiredThreshold: number;
+  /** Index of the round the candidate did not progress from, or null */
+  stoppedAt: number | null;
 }
 
 // ─── Display Constant Records ──────────────────────────────────────────────────
@@ -216,18 +685,6 @@ export const MOMENT_LABELS: Record<MomentAnnotationType, string> = {
   blunder: "Blunder",
 } as const;
 
-/**
- * Maps scoring dimension keys to boss-themed display labels.
- * Internal keys remain identical to interview-elo; only the labels change.
- */
-export const DIMENSION_LABELS: Record<ScoringDimension, string> = {
-  communication: "Articulation",
-  technical: "Substance",
-  behavioural: "Evidence",
-  confidence: "Composure",
-  questionsAsked: "Curiosity",
-} as const;
-
 /**
  * Maps analysis phases to boss-themed user-facing progress messages.
  * Phase 1 unchanged; phases 2 and 3 adapted for the boss character.
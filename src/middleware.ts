@@ -82,8 +82,10 @@ export const config = {
     /*
      * Protect everything except:
      * - /login and /api/auth (the auth flow itself)
+     * - /api/webhooks (called by ElevenLabs and verified by signature instead)
+     * - /api/stand-ins (called by the server itself; never served in production)
      * - _next, favicon, static assets
      */
-    "/((?!login|api/auth|_next|favicon.ico|.*\\.).*)",
+    "/((?!login|api/auth|api/webhooks|api/stand-ins|_next|favicon.ico|.*\\.).*)",
   ],
 };